@@ -1,8 +1,15 @@
+import "dotenv/config";
 import express from "express";
 import { createServer as createViteServer } from "vite";
 import Database from "better-sqlite3";
+import ExcelJS from "exceljs";
+import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
+import nodemailer from "nodemailer";
+import sharp from "sharp";
 import path from "path";
 import fs from "fs";
+import crypto from "crypto";
 import { fileURLToPath } from "url";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -13,348 +20,5201 @@ if (!fs.existsSync(IMAGE_DIR)) {
   fs.mkdirSync(IMAGE_DIR, { recursive: true });
 }
 
+const CERTIFICATE_DIR = path.join(__dirname, "public", "certificates");
+if (!fs.existsSync(CERTIFICATE_DIR)) {
+  fs.mkdirSync(CERTIFICATE_DIR, { recursive: true });
+}
+
+type Role = 'admin' | 'laboran' | 'student';
+
+interface SessionUser {
+  id: number;
+  username: string;
+  name: string;
+  role: Role;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: SessionUser;
+    }
+  }
+}
+
+const SESSION_COOKIE = "sid";
+const SESSION_TTL_DAYS = 7;
+
 const db = new Database("inventory.db");
 db.pragma('journal_mode = WAL');
 db.pragma('foreign_keys = ON');
 
-function saveImage(base64Data: string | undefined): string | null {
-  if (!base64Data || !base64Data.startsWith("data:image")) return base64Data || null;
-  
+interface StoredImage {
+  image: string;
+  thumbnail: string;
+}
+
+// A rejected upload (unsupported or unreadable file); always answered with a 400
+class UploadError extends Error {
+  details?: string;
+
+  constructor(message: string, details?: string) {
+    super(message);
+    this.details = details;
+  }
+}
+
+// Recognised by their leading bytes; the MIME type in the data URL is whatever the client claimed
+const IMAGE_SIGNATURES: { format: string, bytes: (number | null)[] }[] = [
+  { format: "jpeg", bytes: [0xff, 0xd8, 0xff] },
+  { format: "png", bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  // RIFF....WEBP
+  { format: "webp", bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50] }
+];
+
+const IMAGE_MAX_SIZE = 1600;
+const THUMBNAIL_SIZE = 160;
+
+function detectImageFormat(buffer: Buffer): string | null {
+  const match = IMAGE_SIGNATURES.find(sig => sig.bytes.every((byte, i) => byte === null || buffer[i] === byte));
+  return match ? match.format : null;
+}
+
+async function writeThumbnail(source: Buffer, baseName: string): Promise<string> {
+  const fileName = `${baseName}_thumb.webp`;
+  await sharp(source).rotate().resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "cover" }).webp({ quality: 70 }).toFile(path.join(IMAGE_DIR, fileName));
+  return `/images/${fileName}`;
+}
+
+/**
+ * Stores an uploaded data-URL image as a downscaled WebP plus a square
+ * thumbnail. Re-encoding also drops EXIF data such as camera GPS positions.
+ */
+async function saveImage(dataUrl: unknown): Promise<StoredImage> {
+  const match = typeof dataUrl === 'string' ? /^data:[^,]*;base64,(.+)$/s.exec(dataUrl) : null;
+  const buffer = match ? Buffer.from(match[1], "base64") : null;
+  if (!buffer || !detectImageFormat(buffer)) {
+    throw new UploadError("Format gambar tidak didukung.", "Unggah foto JPEG, PNG atau WebP.");
+  }
+
+  const baseName = `img_${Date.now()}_${crypto.randomBytes(4).toString("hex")}`;
   try {
-    const [header, data] = base64Data.split(",");
-    const extensionMatch = header.match(/data:image\/([A-Za-z-+\/]+);base64/);
-    if (!extensionMatch || !data) return null;
-
-    const extension = extensionMatch[1] === 'jpeg' ? 'jpg' : extensionMatch[1];
-    const buffer = Buffer.from(data, "base64");
-    const fileName = `img_${Date.now()}_${Math.random().toString(36).substring(7)}.${extension}`;
-    const filePath = path.join(IMAGE_DIR, fileName);
-    
-    fs.writeFileSync(filePath, buffer);
-    return `/images/${fileName}`;
+    const image = sharp(buffer, { limitInputPixels: 50_000_000 }).rotate();
+    await image.clone()
+      .resize(IMAGE_MAX_SIZE, IMAGE_MAX_SIZE, { fit: "inside", withoutEnlargement: true })
+      .webp({ quality: 82 })
+      .toFile(path.join(IMAGE_DIR, `${baseName}.webp`));
+    return { image: `/images/${baseName}.webp`, thumbnail: await writeThumbnail(buffer, baseName) };
   } catch (error) {
-    console.error("Error saving image:", error);
-    return null;
+    console.error("Error processing image:", error);
+    throw new UploadError("Gambar tidak dapat diproses.", "File mungkin rusak atau terlalu besar.");
   }
 }
 
-function initDb() {
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS categories (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL UNIQUE
-    );
-    CREATE TABLE IF NOT EXISTS locations (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL UNIQUE
-    );
-    CREATE TABLE IF NOT EXISTS materials (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL,
-      category_id INTEGER,
-      unit TEXT NOT NULL,
-      stock INTEGER DEFAULT 0,
-      min_stock INTEGER DEFAULT 5,
-      location TEXT,
-      image TEXT,
-      FOREIGN KEY (category_id) REFERENCES categories (id)
-    );
-    CREATE TABLE IF NOT EXISTS transactions (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      material_id INTEGER,
-      type TEXT CHECK(type IN ('IN', 'OUT')) NOT NULL,
-      quantity INTEGER NOT NULL,
-      date DATETIME DEFAULT CURRENT_TIMESTAMP,
-      notes TEXT,
-      FOREIGN KEY (material_id) REFERENCES materials (id)
+// Only files saveImage wrote are touched; external image URLs are left alone
+function removeImage(stored: { image: string | null, thumbnail: string | null }) {
+  [stored.image, stored.thumbnail]
+    .filter((url): url is string => typeof url === 'string' && url.startsWith("/images/"))
+    .forEach(url => fs.rmSync(path.join(IMAGE_DIR, path.basename(url)), { force: true }));
+}
+
+// Material images uploaded before thumbnails existed get one at startup; until then lists fall back to the full image
+async function backfillThumbnails() {
+  const materials = db.prepare("SELECT id, image FROM materials WHERE image LIKE '/images/%' AND thumbnail IS NULL").all() as { id: number, image: string }[];
+  for (const material of materials) {
+    try {
+      const source = fs.readFileSync(path.join(IMAGE_DIR, path.basename(material.image)));
+      const thumbnail = await writeThumbnail(source, path.basename(material.image, path.extname(material.image)));
+      db.prepare("UPDATE materials SET thumbnail = ? WHERE id = ?").run(thumbnail, material.id);
+    } catch (error) {
+      console.error(`Error creating thumbnail for material ${material.id}:`, error);
+    }
+  }
+}
+
+// Like images, certificates are recognised by their content rather than the MIME type the client sent
+const CERTIFICATE_EXTENSIONS: Record<string, string> = {
+  pdf: "pdf",
+  png: "png",
+  jpeg: "jpg"
+};
+const PDF_SIGNATURE = Buffer.from("%PDF-");
+
+// Calibration certificates arrive as data URLs like images do, but may also be PDFs
+function saveCertificate(dataUrl: unknown): string | null {
+  if (typeof dataUrl !== 'string' || !dataUrl) return null;
+  const match = /^data:[^,]*;base64,(.+)$/s.exec(dataUrl);
+  const buffer = match ? Buffer.from(match[1], "base64") : null;
+  const format = !buffer ? null : buffer.subarray(0, PDF_SIGNATURE.length).equals(PDF_SIGNATURE) ? "pdf" : detectImageFormat(buffer);
+  const extension = format ? CERTIFICATE_EXTENSIONS[format] : undefined;
+  if (!buffer || !extension) {
+    throw new UploadError("Sertifikat harus berupa berkas PDF, PNG atau JPG.");
+  }
+  const fileName = `cert_${Date.now()}_${Math.random().toString(36).substring(7)}.${extension}`;
+  fs.writeFileSync(path.join(CERTIFICATE_DIR, fileName), buffer);
+  return `/certificates/${fileName}`;
+}
+
+function removeCertificate(url: string | null) {
+  if (typeof url === 'string' && url.startsWith("/certificates/")) {
+    fs.rmSync(path.join(CERTIFICATE_DIR, path.basename(url)), { force: true });
+  }
+}
+
+class TransactionError extends Error {
+  status: number;
+  details?: string;
+  currentStock?: number;
+
+  constructor(status: number, message: string, extra: { details?: string, currentStock?: number } = {}) {
+    super(message);
+    this.status = status;
+    this.details = extra.details;
+    this.currentStock = extra.currentStock;
+  }
+}
+
+type TransactionType = 'IN' | 'OUT' | 'ADJUSTMENT' | 'TRANSFER' | 'DAMAGED' | 'LOST' | 'DISPOSED' | 'RETURN';
+
+const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  IN: "Masuk",
+  OUT: "Keluar",
+  ADJUSTMENT: "Penyesuaian",
+  TRANSFER: "Pindah Lokasi",
+  DAMAGED: "Rusak",
+  LOST: "Hilang",
+  DISPOSED: "Dimusnahkan",
+  RETURN: "Pengembalian"
+};
+
+// Which way each type moves stock; ADJUSTMENT carries its own sign and TRANSFER only goes through recordTransfer
+const TRANSACTION_DIRECTIONS: Partial<Record<TransactionType, 1 | -1>> = {
+  IN: 1,
+  RETURN: 1,
+  OUT: -1,
+  DAMAGED: -1,
+  LOST: -1,
+  DISPOSED: -1
+};
+
+// Stock that left without being used: reported apart from consumption (OUT)
+const SHRINKAGE_TYPES: TransactionType[] = ['DAMAGED', 'LOST', 'DISPOSED'];
+
+// Net usage of a ledger row: what went OUT less what came back; service trips are excluded separately (maintenance_record_id)
+const CONSUMPTION_SQL = "CASE t.type WHEN 'OUT' THEN t.quantity WHEN 'RETURN' THEN -t.quantity ELSE 0 END";
+
+// Types that must say why; the code is stored and the label shown
+const REASON_CODES: Partial<Record<TransactionType, Record<string, string>>> = {
+  DAMAGED: {
+    rusak_pemakaian: "Rusak saat dipakai/praktikum",
+    rusak_penyimpanan: "Rusak di penyimpanan",
+    cacat_pemasok: "Cacat dari pemasok"
+  },
+  LOST: {
+    hilang_peminjaman: "Hilang saat dipinjam",
+    hilang_penyimpanan: "Tidak ditemukan di penyimpanan",
+    dicuri: "Dicuri"
+  },
+  DISPOSED: {
+    kedaluwarsa: "Kedaluwarsa",
+    rusak_total: "Rusak tidak dapat diperbaiki",
+    usang: "Usang / tidak terpakai",
+    penghapusan_bmn: "Penghapusan BMN"
+  },
+  ADJUSTMENT: {
+    stock_opname: "Selisih stock opname",
+    koreksi_input: "Koreksi kesalahan input",
+    temuan: "Stok ditemukan / belum tercatat"
+  },
+  RETURN: {
+    pengembalian_pinjaman: "Pengembalian pinjaman",
+    sisa_praktikum: "Sisa praktikum",
+    batal_pakai: "Batal dipakai"
+  }
+};
+
+interface TransactionInput {
+  material_id: unknown;
+  type: unknown;
+  quantity: unknown;
+  notes?: unknown;
+  reason_code?: unknown;
+  location_id?: unknown;
+  lot_id?: unknown;
+  lot_number?: unknown;
+  expiry_date?: unknown;
+  asset_ids?: unknown;
+  serial_numbers?: unknown;
+}
+
+interface StockBucket {
+  location_id: number | null;
+  quantity: number;
+}
+
+/**
+ * Per-location quantities of a material. Stock that was never assigned to a
+ * location (legacy rows, materials without a home location) is reported as
+ * location_id null, so the buckets always add up to materials.stock.
+ */
+function getStockBuckets(materialId: number): StockBucket[] {
+  const { stock } = db.prepare("SELECT stock FROM materials WHERE id = ?").get(materialId) as { stock: number };
+  const buckets = db.prepare("SELECT location_id, quantity FROM material_stocks WHERE material_id = ? AND quantity != 0").all(materialId) as StockBucket[];
+  const unassigned = stock - buckets.reduce((sum, b) => sum + b.quantity, 0);
+  return unassigned !== 0 ? [...buckets, { location_id: null, quantity: unassigned }] : buckets;
+}
+
+/**
+ * Chooses the bucket for a movement that did not name a location: receipts
+ * go to the home location, removals to the home location when it holds
+ * enough and otherwise to the fullest location that does.
+ */
+function pickStockLocation(buckets: StockBucket[], homeLocationId: number | null, delta: number): number | null {
+  if (delta > 0) return homeLocationId;
+  const home = buckets.find(b => b.location_id === homeLocationId);
+  if (home && home.quantity >= -delta) return homeLocationId;
+  const fullest = [...buckets].sort((a, b) => b.quantity - a.quantity).find(b => b.quantity >= -delta);
+  return fullest ? fullest.location_id : homeLocationId;
+}
+
+// The unassigned bucket is derived from materials.stock, so only real locations have a row
+function adjustLocationStock(materialId: number, locationId: number | null, delta: number) {
+  if (locationId === null) return;
+  db.prepare(`
+    INSERT INTO material_stocks (material_id, location_id, quantity) VALUES (?, ?, ?)
+    ON CONFLICT (material_id, location_id) DO UPDATE SET quantity = quantity + excluded.quantity
+  `).run(materialId, locationId, delta);
+}
+
+function describeBuckets(buckets: StockBucket[], unit: string): string {
+  const names = new Map((db.prepare("SELECT id, name FROM locations").all() as { id: number, name: string }[]).map(l => [l.id, l.name]));
+  return buckets.map(b => `${b.location_id === null ? "Tanpa lokasi" : names.get(b.location_id)} ${b.quantity} ${unit}`).join(", ");
+}
+
+// Book stock of a stock take count's bucket (alias c), with the unassigned bucket derived as in getStockBuckets
+const STOCK_TAKE_BOOK_SQL = `
+  CASE WHEN c.location_id IS NULL
+    THEN (SELECT stock FROM materials WHERE id = c.material_id) - COALESCE((SELECT SUM(quantity) FROM material_stocks WHERE material_id = c.material_id), 0)
+    ELSE COALESCE((SELECT quantity FROM material_stocks WHERE material_id = c.material_id AND location_id = c.location_id), 0)
+  END
+`;
+
+const EXPIRY_WARNING_DAYS = 30;
+
+// FEFO order: earliest expiry first, lots without an expiry date last
+const FEFO_ORDER_SQL = "expiry_date IS NULL, expiry_date, received_date, id";
+
+interface LotInput {
+  lotId: number | null;
+  lotNumber: string | null;
+  expiryDate: string | null;
+}
+
+function parseLotInput(input: TransactionInput): LotInput {
+  const lotId = input.lot_id === undefined || input.lot_id === null || input.lot_id === '' ? null : Number(input.lot_id);
+  const lotNumber = typeof input.lot_number === 'string' && input.lot_number.trim() ? input.lot_number.trim() : null;
+  const expiryDate = typeof input.expiry_date === 'string' && input.expiry_date ? input.expiry_date : null;
+  if (lotId !== null && !Number.isInteger(lotId)) {
+    throw new TransactionError(400, "ID Lot tidak valid.");
+  }
+  if (expiryDate && !/^\d{4}-\d{2}-\d{2}$/.test(expiryDate)) {
+    throw new TransactionError(400, "Tanggal kedaluwarsa tidak valid.");
+  }
+  return { lotId, lotNumber, expiryDate };
+}
+
+/**
+ * Spreads a movement of a lot-tracked material over its lots and records the
+ * split in transaction_lots. Receipts go to the named lot (created on first
+ * use); receipts without a lot stay outside any lot. Removals take the named
+ * lot, or else follow FEFO over unexpired lots, then stock outside any lot,
+ * and only then expired lots.
+ */
+function applyLotMovement(materialId: number, transactionId: number | bigint, delta: number, stockBefore: number, lot: LotInput, allowNegative?: boolean) {
+  const recordSplit = db.prepare("INSERT INTO transaction_lots (transaction_id, lot_id, quantity) VALUES (?, ?, ?)");
+  const adjustLot = db.prepare("UPDATE material_lots SET quantity = quantity + ? WHERE id = ?");
+
+  if (lot.lotId !== null) {
+    const named = db.prepare("SELECT id, lot_number, quantity FROM material_lots WHERE id = ? AND material_id = ?").get(lot.lotId, materialId) as
+      { id: number, lot_number: string, quantity: number } | undefined;
+    if (!named) {
+      throw new TransactionError(400, "Lot tidak ditemukan untuk bahan ini.");
+    }
+    if (delta < 0 && named.quantity < -delta && !allowNegative) {
+      throw new TransactionError(409, `Sisa lot ${named.lot_number} tidak mencukupi.`, {
+        details: `Sisa lot ${named.quantity}, diminta ${-delta}.`
+      });
+    }
+    adjustLot.run(delta, named.id);
+    recordSplit.run(transactionId, named.id, delta);
+    return;
+  }
+
+  if (delta > 0) {
+    if (!lot.lotNumber) return;
+    db.prepare(`
+      INSERT INTO material_lots (material_id, lot_number, expiry_date, quantity) VALUES (?, ?, ?, 0)
+      ON CONFLICT (material_id, lot_number) DO UPDATE SET expiry_date = COALESCE(excluded.expiry_date, expiry_date)
+    `).run(materialId, lot.lotNumber, lot.expiryDate);
+    const { id } = db.prepare("SELECT id FROM material_lots WHERE material_id = ? AND lot_number = ?").get(materialId, lot.lotNumber) as { id: number };
+    adjustLot.run(delta, id);
+    recordSplit.run(transactionId, id, delta);
+    return;
+  }
+
+  const lots = db.prepare(`
+    SELECT id, quantity, expiry_date IS NOT NULL AND expiry_date < date('now') as expired
+    FROM material_lots WHERE material_id = ? AND quantity > 0 ORDER BY ${FEFO_ORDER_SQL}
+  `).all(materialId) as { id: number, quantity: number, expired: number }[];
+  const outsideLots = Math.max(stockBefore - lots.reduce((sum, l) => sum + l.quantity, 0), 0);
+  const sources: { id: number | null, quantity: number }[] = [
+    ...lots.filter(l => !l.expired),
+    { id: null, quantity: outsideLots },
+    ...lots.filter(l => l.expired)
+  ];
+  let remaining = -delta;
+  for (const source of sources) {
+    if (remaining === 0) break;
+    const taken = Math.min(remaining, source.quantity);
+    if (taken > 0 && source.id !== null) {
+      adjustLot.run(-taken, source.id);
+      recordSplit.run(transactionId, source.id, -taken);
+    }
+    remaining -= taken;
+  }
+}
+
+type AssetCondition = 'baik' | 'rusak_ringan' | 'rusak_berat';
+
+const ASSET_CONDITIONS: AssetCondition[] = ['baik', 'rusak_ringan', 'rusak_berat'];
+
+interface AssetInput {
+  assetIds: number[];
+  serialNumbers: string[];
+}
+
+function parseAssetInput(input: { asset_ids?: unknown, serial_numbers?: unknown }): AssetInput {
+  if (input.asset_ids !== undefined && input.asset_ids !== null && !Array.isArray(input.asset_ids)) {
+    throw new TransactionError(400, "Daftar unit tidak valid.");
+  }
+  if (input.serial_numbers !== undefined && input.serial_numbers !== null && !Array.isArray(input.serial_numbers)) {
+    throw new TransactionError(400, "Daftar nomor seri tidak valid.");
+  }
+  const assetIds = [...new Set(((input.asset_ids as unknown[]) || []).map(Number))];
+  if (assetIds.some(id => !Number.isInteger(id))) {
+    throw new TransactionError(400, "ID Unit tidak valid.");
+  }
+  const serialNumbers = [...new Set(((input.serial_numbers as unknown[]) || [])
+    .map(sn => typeof sn === 'string' ? sn.trim() : '')
+    .filter(Boolean))];
+  return { assetIds, serialNumbers };
+}
+
+// Units with their location and, while on loan, who holds them
+const ASSET_LIST_SQL = `
+  SELECT a.*, l.name as location_name, b.name as holder_name, b.nim as holder_nim, h.due_date as loan_due_date,
+    (SELECT MAX(completed_date) FROM maintenance_records r WHERE r.asset_id = a.id AND r.type = 'kalibrasi' AND r.status = 'completed') as last_calibrated_at
+  FROM material_assets a
+  LEFT JOIN locations l ON a.location_id = l.id
+  LEFT JOIN (
+    SELECT la.asset_id, lo.borrower_id, lo.due_date FROM loan_assets la JOIN loans lo ON la.loan_id = lo.id WHERE lo.return_date IS NULL
+  ) h ON h.asset_id = a.id
+  LEFT JOIN borrowers b ON h.borrower_id = b.id
+`;
+
+interface AssetSelection {
+  locationId: number | null;
+  assetIds: number[];
+  serialNumbers: string[];
+}
+
+/**
+ * Decides which units of a serialized material a movement touches. Removals
+ * take the named units (which must sit together at one location) or else the
+ * first available units at the chosen location, good condition first.
+ * Receipts bring back named units that are out of stock and/or register new
+ * ones by serial number. Quantities always have to match the unit count,
+ * since the stock of a serialized material is its number of available units.
+ */
+function selectAssets(materialId: number, material: { name: string, unit: string, location_id: number | null }, delta: number, requestedLocationId: number | null, input: AssetInput, buckets: StockBucket[]): AssetSelection {
+  const count = Math.abs(delta);
+  const placeholders = input.assetIds.map(() => "?").join(", ");
+  const named = input.assetIds.length === 0 ? [] : db.prepare(`
+    SELECT id, serial_number, status, location_id FROM material_assets WHERE material_id = ? AND id IN (${placeholders})
+  `).all(materialId, ...input.assetIds) as { id: number, serial_number: string, status: string, location_id: number | null }[];
+  if (named.length !== input.assetIds.length) {
+    throw new TransactionError(400, "Unit tidak ditemukan untuk bahan ini.");
+  }
+
+  if (delta < 0) {
+    if (input.serialNumbers.length > 0) {
+      throw new TransactionError(400, "Nomor seri baru hanya dapat dicatat pada transaksi masuk.");
+    }
+    if (named.length > 0) {
+      if (named.length !== count) {
+        throw new TransactionError(400, `Jumlah unit yang dipilih (${named.length}) tidak sama dengan jumlah transaksi (${count}).`);
+      }
+      const unavailable = named.filter(a => a.status !== 'available');
+      if (unavailable.length > 0) {
+        throw new TransactionError(409, "Sebagian unit yang dipilih sedang tidak tersedia.", {
+          details: `Unit: ${unavailable.map(a => a.serial_number).join(", ")}.`
+        });
+      }
+      const locations = [...new Set(named.map(a => a.location_id))];
+      if (locations.length > 1 || (requestedLocationId !== null && locations[0] !== requestedLocationId)) {
+        throw new TransactionError(400, "Unit yang dipilih harus berada di lokasi yang sama dengan transaksi.", {
+          details: "Catat unit dari lokasi yang berbeda sebagai transaksi terpisah."
+        });
+      }
+      return { locationId: locations[0], assetIds: input.assetIds, serialNumbers: [] };
+    }
+    const locationId = requestedLocationId ?? pickStockLocation(buckets, material.location_id, delta);
+    const picked = db.prepare(`
+      SELECT id FROM material_assets WHERE material_id = ? AND status = 'available' AND location_id IS ?
+      ORDER BY condition = 'baik' DESC, id LIMIT ?
+    `).all(materialId, locationId, count) as { id: number }[];
+    if (picked.length < count) {
+      throw new TransactionError(409, `Unit ${material.name} yang tersedia di lokasi ini tidak mencukupi.`, {
+        details: `Diminta ${count} unit, tersedia ${picked.length}. Stok per lokasi: ${describeBuckets(buckets, material.unit)}.`
+      });
+    }
+    return { locationId, assetIds: picked.map(a => a.id), serialNumbers: [] };
+  }
+
+  if (named.length + input.serialNumbers.length !== count) {
+    throw new TransactionError(400, `${material.name} dicatat per unit.`, {
+      details: `Pilih unit yang kembali atau isi nomor seri untuk ${count} unit yang masuk.`
+    });
+  }
+  const present = named.filter(a => a.status === 'available');
+  if (present.length > 0) {
+    throw new TransactionError(409, "Sebagian unit yang dipilih sudah berada di stok.", {
+      details: `Unit: ${present.map(a => a.serial_number).join(", ")}.`
+    });
+  }
+  if (input.serialNumbers.length > 0) {
+    const taken = db.prepare(`
+      SELECT serial_number FROM material_assets WHERE material_id = ? AND serial_number IN (${input.serialNumbers.map(() => "?").join(", ")})
+    `).all(materialId, ...input.serialNumbers) as { serial_number: string }[];
+    if (taken.length > 0) {
+      throw new TransactionError(409, "Nomor seri sudah terdaftar.", { details: taken.map(a => a.serial_number).join(", ") });
+    }
+  }
+  return { locationId: requestedLocationId ?? material.location_id, assetIds: input.assetIds, serialNumbers: input.serialNumbers };
+}
+
+// Units leaving stock lose their location; loans and service trips mark them 'loaned'/'service' afterwards
+function applyAssetMovement(materialId: number, transactionId: number | bigint, delta: number, selection: AssetSelection) {
+  const recordUnit = db.prepare("INSERT INTO transaction_assets (transaction_id, asset_id) VALUES (?, ?)");
+  const move = delta < 0
+    ? db.prepare("UPDATE material_assets SET status = 'out', location_id = NULL WHERE id = ?")
+    : db.prepare("UPDATE material_assets SET status = 'available', location_id = ? WHERE id = ?");
+  selection.assetIds.forEach(id => {
+    if (delta < 0) move.run(id); else move.run(selection.locationId, id);
+    recordUnit.run(transactionId, id);
+  });
+  const register = db.prepare("INSERT INTO material_assets (material_id, serial_number, location_id) VALUES (?, ?, ?)");
+  selection.serialNumbers.forEach(serialNumber => {
+    recordUnit.run(transactionId, register.run(materialId, serialNumber, selection.locationId).lastInsertRowid);
+  });
+}
+
+type MaintenanceType = 'kalibrasi' | 'perbaikan' | 'perawatan';
+
+const MAINTENANCE_TYPE_LABELS: Record<MaintenanceType, string> = {
+  kalibrasi: "Kalibrasi",
+  perbaikan: "Perbaikan",
+  perawatan: "Perawatan"
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// undefined marks an invalid value; null clears the interval
+function parseCalibrationInterval(value: unknown): number | null | undefined {
+  if (value === undefined || value === null || value === '') return null;
+  const days = Number(value);
+  return Number.isInteger(days) && days > 0 ? days : undefined;
+}
+
+/**
+ * One row per thing that needs calibrating: each unit still held by the lab
+ * for serialized materials, the material itself otherwise. The next due date
+ * counts from the last completed calibration, or from the purchase date for a
+ * unit that was never calibrated; without either it is due right away.
+ */
+const CALIBRATION_DUE_SQL = `
+  SELECT *,
+    date(COALESCE(last_calibrated_at, purchase_date), '+' || calibration_interval_days || ' days') as next_due,
+    CAST(julianday(date(COALESCE(last_calibrated_at, purchase_date), '+' || calibration_interval_days || ' days')) - julianday(date('now')) AS INTEGER) as days_left
+  FROM (
+    SELECT m.id as material_id, m.name as material_name, m.calibration_interval_days,
+      a.id as asset_id, a.serial_number, a.inventory_number, a.status as asset_status, a.purchase_date,
+      (SELECT MAX(r.completed_date) FROM maintenance_records r
+        WHERE r.material_id = m.id AND r.asset_id IS a.id AND r.type = 'kalibrasi' AND r.status = 'completed') as last_calibrated_at,
+      EXISTS (SELECT 1 FROM maintenance_records r WHERE r.material_id = m.id AND r.asset_id IS a.id AND r.status = 'in_service') as in_service
+    FROM materials m
+    LEFT JOIN material_assets a ON a.material_id = m.id AND m.track_serials = 1 AND a.status != 'out'
+    WHERE m.calibration_interval_days IS NOT NULL AND (m.track_serials = 0 OR a.id IS NOT NULL)
+  )
+`;
+
+// How far ahead /api/maintenance/due looks for calibrations when no ?days= is given
+const CALIBRATION_WARNING_DAYS = 30;
+
+function parseLocationId(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const id = Number(value);
+  if (!Number.isInteger(id) || !db.prepare("SELECT id FROM locations WHERE id = ?").get(id)) {
+    throw new TransactionError(400, "Lokasi tidak ditemukan.");
+  }
+  return id;
+}
+
+/**
+ * Validates a stock movement and posts it to the ledger, keeping
+ * materials.stock in sync. Throws TransactionError for anything the
+ * caller should report back as a 4xx.
+ */
+function recordTransaction(input: TransactionInput, options: {
+  allowNegative?: boolean,
+  userId?: number,
+  purchaseOrderLineId?: number,
+  kitCheckoutId?: number | bigint,
+  practicumSessionId?: number,
+  maintenanceRecordId?: number | bigint,
+  photo?: StoredImage | null
+} = {}) {
+  const materialId = Number(input.material_id);
+  // Number() would also accept booleans, empty strings and arrays, so only numbers and digit strings count
+  const quantity = typeof input.quantity === 'number' || (typeof input.quantity === 'string' && /^\s*-?\d+\s*$/.test(input.quantity))
+    ? Number(input.quantity)
+    : NaN;
+  const type = input.type as TransactionType;
+  const notes = typeof input.notes === 'string' && input.notes.trim() ? input.notes.trim() : null;
+  const reasonCode = typeof input.reason_code === 'string' && input.reason_code ? input.reason_code : null;
+
+  if (type !== 'ADJUSTMENT' && (typeof type !== 'string' || !Object.hasOwn(TRANSACTION_DIRECTIONS, type))) {
+    throw new TransactionError(400, "Tipe transaksi tidak valid.");
+  }
+  const reasons = REASON_CODES[type];
+  if (reasons && (!reasonCode || !Object.hasOwn(reasons, reasonCode))) {
+    throw new TransactionError(400, `Alasan wajib dipilih untuk transaksi ${TRANSACTION_TYPE_LABELS[type].toLowerCase()}.`);
+  }
+  if (!reasons && reasonCode) {
+    throw new TransactionError(400, `Transaksi ${TRANSACTION_TYPE_LABELS[type].toLowerCase()} tidak memakai kode alasan.`);
+  }
+  // Adjustments carry a signed quantity (surplus positive, shortage negative)
+  if (type === 'ADJUSTMENT' ? !Number.isInteger(quantity) || quantity === 0 : !Number.isInteger(quantity) || quantity <= 0) {
+    throw new TransactionError(400, "Jumlah harus bilangan bulat positif.");
+  }
+  if (!Number.isInteger(materialId)) {
+    throw new TransactionError(400, "ID Bahan tidak valid.");
+  }
+  const requestedLocationId = parseLocationId(input.location_id);
+  const lot = parseLotInput(input);
+  const assetInput = parseAssetInput(input);
+
+  const run = db.transaction(() => {
+    const material = db.prepare("SELECT name, unit, stock, location_id, track_lots, track_serials FROM materials WHERE id = ?").get(materialId) as
+      { name: string, unit: string, stock: number, location_id: number | null, track_lots: number, track_serials: number } | undefined;
+    if (!material) {
+      throw new TransactionError(404, "Bahan tidak ditemukan.");
+    }
+    if (!material.track_lots && (lot.lotId !== null || lot.lotNumber)) {
+      throw new TransactionError(400, `${material.name} tidak menggunakan pelacakan lot.`);
+    }
+    if (!material.track_serials && (assetInput.assetIds.length > 0 || assetInput.serialNumbers.length > 0)) {
+      throw new TransactionError(400, `${material.name} tidak menggunakan pelacakan nomor seri.`);
+    }
+    const adjustment = type === 'ADJUSTMENT' ? quantity : TRANSACTION_DIRECTIONS[type]! * quantity;
+    // Stock takes set stock to what was counted, so only real removals are checked against what is on hand
+    const removal = type !== 'ADJUSTMENT' && adjustment < 0;
+    const buckets = getStockBuckets(materialId);
+    const assets = material.track_serials ? selectAssets(materialId, material, adjustment, requestedLocationId, assetInput, buckets) : null;
+    const locationId = assets ? assets.locationId : requestedLocationId ?? pickStockLocation(buckets, material.location_id, adjustment);
+    const available = buckets.find(b => b.location_id === locationId)?.quantity ?? 0;
+    if (removal && material.stock < quantity && !options.allowNegative) {
+      throw new TransactionError(409, `Stok ${material.name} tidak mencukupi.`, {
+        details: `Stok saat ini ${material.stock} ${material.unit}, diminta ${quantity} ${material.unit}.`,
+        currentStock: material.stock
+      });
+    }
+    if (removal && available < quantity && !options.allowNegative) {
+      throw new TransactionError(409, `Stok ${material.name} di lokasi ini tidak mencukupi.`, {
+        details: `Diminta ${quantity} ${material.unit}. Stok per lokasi: ${describeBuckets(buckets, material.unit)}. Pilih lokasi lain atau pindahkan stok terlebih dahulu.`,
+        currentStock: material.stock
+      });
+    }
+
+    const result = db.prepare(`
+      INSERT INTO transactions (material_id, type, quantity, notes, reason_code, photo, photo_thumbnail, user_id, location_id, purchase_order_line_id, kit_checkout_id, practicum_session_id, maintenance_record_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      materialId, type, quantity, notes, reasonCode, options.photo?.image ?? null, options.photo?.thumbnail ?? null, options.userId ?? null, locationId,
+      options.purchaseOrderLineId ?? null, options.kitCheckoutId ?? null, options.practicumSessionId ?? null,
+      options.maintenanceRecordId ?? null
     );
-  `);
+    db.prepare("UPDATE materials SET stock = stock + ? WHERE id = ?").run(adjustment, materialId);
+    adjustLocationStock(materialId, locationId, adjustment);
+    if (material.track_lots) {
+      applyLotMovement(materialId, result.lastInsertRowid, adjustment, material.stock, lot, options.allowNegative);
+    }
+    if (assets) {
+      applyAssetMovement(materialId, result.lastInsertRowid, adjustment, assets);
+    }
+    const created = db.prepare("SELECT * FROM transactions WHERE id = ?").get(result.lastInsertRowid);
+    writeAudit('transaction', result.lastInsertRowid, 'create', null, created, options.userId);
+    trackLowStock(materialId, material.stock, material.stock + adjustment, result.lastInsertRowid);
+    return result.lastInsertRowid;
+  });
+
+  return run();
+}
+
+interface TransferInput {
+  material_id: unknown;
+  from_location_id: unknown;
+  to_location_id: unknown;
+  quantity: unknown;
+  notes?: unknown;
+  asset_ids?: unknown;
+}
+
+/**
+ * Moves stock between two locations as a paired ledger entry: a negative
+ * TRANSFER row at the source and a positive one at the destination, linked
+ * through stock_transfers. The material's total stock does not change.
+ */
+function recordTransfer(input: TransferInput, options: { userId?: number } = {}) {
+  const materialId = Number(input.material_id);
+  const quantity = Number(input.quantity);
+  const notes = typeof input.notes === 'string' && input.notes.trim() ? input.notes.trim() : null;
+
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    throw new TransactionError(400, "Jumlah harus bilangan bulat positif.");
+  }
+  const fromLocationId = parseLocationId(input.from_location_id);
+  const toLocationId = parseLocationId(input.to_location_id);
+  const assetInput = parseAssetInput(input);
+  if (toLocationId === null) {
+    throw new TransactionError(400, "Lokasi tujuan wajib dipilih.");
+  }
+  if (fromLocationId === toLocationId) {
+    throw new TransactionError(400, "Lokasi asal dan tujuan tidak boleh sama.");
+  }
+
+  const run = db.transaction(() => {
+    const material = db.prepare("SELECT name, unit, location_id, track_serials FROM materials WHERE id = ?").get(materialId) as
+      { name: string, unit: string, location_id: number | null, track_serials: number } | undefined;
+    if (!material) {
+      throw new TransactionError(404, "Bahan tidak ditemukan.");
+    }
+    if (!material.track_serials && assetInput.assetIds.length > 0) {
+      throw new TransactionError(400, `${material.name} tidak menggunakan pelacakan nomor seri.`);
+    }
+    const buckets = getStockBuckets(materialId);
+    const available = buckets.find(b => b.location_id === fromLocationId)?.quantity ?? 0;
+    if (available < quantity) {
+      throw new TransactionError(409, `Stok ${material.name} di lokasi asal tidak mencukupi.`, {
+        details: `Tersedia ${available} ${material.unit}, dipindahkan ${quantity} ${material.unit}. Stok per lokasi: ${describeBuckets(buckets, material.unit)}.`
+      });
+    }
+    // A transfer is a removal at the source as far as unit selection goes
+    const assets = material.track_serials ? selectAssets(materialId, material, -quantity, fromLocationId, assetInput, buckets) : null;
+
+    const transfer = db.prepare(`
+      INSERT INTO stock_transfers (material_id, from_location_id, to_location_id, quantity, notes, user_id) VALUES (?, ?, ?, ?, ?, ?)
+    `).run(materialId, fromLocationId, toLocationId, quantity, notes, options.userId ?? null);
+    const insertLeg = db.prepare(`
+      INSERT INTO transactions (material_id, type, quantity, notes, user_id, location_id, transfer_id) VALUES (?, 'TRANSFER', ?, ?, ?, ?, ?)
+    `);
+    [[fromLocationId, -quantity], [toLocationId, quantity]].forEach(([locationId, delta]) => {
+      const leg = insertLeg.run(materialId, delta, notes, options.userId ?? null, locationId, transfer.lastInsertRowid);
+      adjustLocationStock(materialId, locationId, delta as number);
+      assets?.assetIds.forEach(assetId => db.prepare("INSERT INTO transaction_assets (transaction_id, asset_id) VALUES (?, ?)").run(leg.lastInsertRowid, assetId));
+      writeAudit('transaction', leg.lastInsertRowid, 'create', null, db.prepare("SELECT * FROM transactions WHERE id = ?").get(leg.lastInsertRowid), options.userId);
+    });
+    assets?.assetIds.forEach(assetId => db.prepare("UPDATE material_assets SET location_id = ? WHERE id = ?").run(toLocationId, assetId));
+    return transfer.lastInsertRowid;
+  });
+
+  return run();
+}
+
+type NotificationChannelName = 'email' | 'webhook';
+
+interface LowStockNotice {
+  material_id: number;
+  material: string;
+  unit: string;
+  stock: number;
+  min_stock: number;
+  category: string | null;
+  location: string | null;
+  test?: boolean;
+}
+
+interface NotificationChannel {
+  isValidTarget: (target: string) => boolean;
+  send: (target: string, notice: LowStockNotice) => Promise<void>;
+}
+
+// Without SMTP_URL messages are rendered but only logged, so alerts can be exercised locally
+const mailer = process.env.SMTP_URL
+  ? nodemailer.createTransport(process.env.SMTP_URL)
+  : nodemailer.createTransport({ jsonTransport: true });
+
+function describeNotice(notice: LowStockNotice): string {
+  return `${notice.test ? "[UJI] " : ""}Stok ${notice.material} tinggal ${notice.stock} ${notice.unit} (minimal ${notice.min_stock})`;
+}
+
+const NOTIFICATION_CHANNELS: Record<NotificationChannelName, NotificationChannel> = {
+  email: {
+    isValidTarget: target => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(target),
+    send: async (target, notice) => {
+      const info = await mailer.sendMail({
+        from: process.env.SMTP_FROM || "Inventaris Lab <no-reply@localhost>",
+        to: target,
+        subject: describeNotice(notice),
+        text: [
+          describeNotice(notice),
+          `Kategori: ${notice.category || "-"}`,
+          `Lokasi: ${notice.location || "-"}`,
+          "",
+          "Segera lakukan pengadaan atau pengisian ulang stok."
+        ].join("\n")
+      });
+      if (!process.env.SMTP_URL) {
+        console.log(`Email not sent (SMTP_URL not set): ${info.message}`);
+      }
+    }
+  },
+  webhook: {
+    isValidTarget: target => /^https?:\/\/\S+$/.test(target),
+    send: async (target, notice) => {
+      const response = await fetch(target, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ event: "low_stock", text: describeNotice(notice), ...notice }),
+        signal: AbortSignal.timeout(10000)
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook membalas HTTP ${response.status}`);
+      }
+    }
+  }
+};
+
+/**
+ * Opens a low-stock alert when a movement takes a material from above
+ * min_stock to at or below it. Only one alert stays open per material, and
+ * it is resolved once stock climbs back above the threshold, so repeated
+ * OUTs while stock is low don't alert again. Runs inside recordTransaction.
+ */
+function trackLowStock(materialId: number, stockBefore: number, stockAfter: number, transactionId: number | bigint) {
+  const { min_stock: minStock } = db.prepare("SELECT min_stock FROM materials WHERE id = ?").get(materialId) as { min_stock: number };
+  const open = db.prepare("SELECT id FROM low_stock_alerts WHERE material_id = ? AND resolved_at IS NULL").get(materialId);
 
-  // Ensure 'image' column exists (for existing databases)
+  if (stockAfter > minStock) {
+    if (open) db.prepare("UPDATE low_stock_alerts SET resolved_at = CURRENT_TIMESTAMP WHERE material_id = ? AND resolved_at IS NULL").run(materialId);
+    return;
+  }
+  if (open || stockBefore <= minStock) return;
+
+  db.prepare("INSERT INTO low_stock_alerts (material_id, stock, min_stock, transaction_id) VALUES (?, ?, ?, ?)")
+    .run(materialId, stockAfter, minStock, transactionId);
+  // Deliver after the surrounding db.transaction commits; a rollback leaves nothing to send
+  setImmediate(dispatchLowStockAlerts);
+}
+
+let isDispatchingAlerts = false;
+
+async function dispatchLowStockAlerts() {
+  if (isDispatchingAlerts) return;
+  isDispatchingAlerts = true;
   try {
-    db.prepare("SELECT image FROM materials LIMIT 1").get();
-  } catch (e) {
-    console.log("Adding 'image' column to materials table...");
-    db.prepare("ALTER TABLE materials ADD COLUMN image TEXT").run();
+    while (true) {
+      const alert = db.prepare(`
+        SELECT a.id, a.material_id, a.stock, a.min_stock, m.name as material, m.unit, m.category_id,
+          c.name as category, l.name as location
+        FROM low_stock_alerts a
+        JOIN materials m ON a.material_id = m.id
+        LEFT JOIN categories c ON m.category_id = c.id
+        LEFT JOIN locations l ON m.location_id = l.id
+        WHERE a.dispatched_at IS NULL
+        ORDER BY a.id
+        LIMIT 1
+      `).get() as (LowStockNotice & { id: number, category_id: number | null }) | undefined;
+      if (!alert) break;
+
+      db.prepare("UPDATE low_stock_alerts SET dispatched_at = CURRENT_TIMESTAMP WHERE id = ?").run(alert.id);
+      const subscriptions = db.prepare(`
+        SELECT s.id, s.channel, s.target
+        FROM notification_subscriptions s
+        JOIN users u ON s.user_id = u.id
+        WHERE s.active = 1 AND u.active = 1 AND (s.category_id IS NULL OR s.category_id = ?)
+      `).all(alert.category_id) as { id: number, channel: NotificationChannelName, target: string }[];
+
+      const { id, category_id, ...notice } = alert;
+      for (const subscription of subscriptions) {
+        try {
+          await NOTIFICATION_CHANNELS[subscription.channel].send(subscription.target, notice);
+          db.prepare("INSERT INTO notification_deliveries (alert_id, subscription_id, status) VALUES (?, ?, 'sent')").run(id, subscription.id);
+        } catch (error: any) {
+          console.error(`Error delivering low-stock alert ${id} via ${subscription.channel}:`, error);
+          db.prepare("INSERT INTO notification_deliveries (alert_id, subscription_id, status, error) VALUES (?, ?, 'failed', ?)")
+            .run(id, subscription.id, String(error?.message || error));
+        }
+      }
+    }
+  } catch (error) {
+    console.error("Error dispatching low-stock alerts:", error);
+  } finally {
+    isDispatchingAlerts = false;
   }
+}
 
-  const categoryCount = db.prepare("SELECT COUNT(*) as count FROM categories").get() as { count: number };
-  if (categoryCount.count === 0) {
-    const insertCategory = db.prepare("INSERT INTO categories (name) VALUES (?)");
-    ["Komponen Elektronika", "Kabel & Konektor", "Alat Ukur", "Modul Praktikum", "Lain-lain"].forEach(cat => insertCategory.run(cat));
+function sendTransactionError(res: express.Response, error: TransactionError) {
+  return res.status(error.status).json({
+    error: error.message,
+    details: error.details,
+    current_stock: error.currentStock
+  });
+}
+
+type AuditEntity = 'material' | 'category' | 'location' | 'transaction' | 'supplier' | 'kit' | 'asset' | 'maintenance';
 
-    const insertLocation = db.prepare("INSERT INTO locations (name) VALUES (?)");
-    ["Rak A1", "Rak A2", "Rak B1", "Rak B2", "Rak C1", "Lemari Alat", "Meja Kerja", "Gudang"].forEach(loc => insertLocation.run(loc));
+// Snapshots a change to master data or the ledger; call inside the same db.transaction as the change
+function writeAudit(entity: AuditEntity, entityId: number | bigint, action: 'create' | 'update' | 'delete', before: unknown, after: unknown, userId?: number) {
+  db.prepare("INSERT INTO audit_log (entity, entity_id, action, before_json, after_json, user_id) VALUES (?, ?, ?, ?, ?, ?)")
+    .run(entity, entityId, action, before ? JSON.stringify(before) : null, after ? JSON.stringify(after) : null, userId ?? null);
+}
+
+const TRANSACTION_SORT_COLUMNS: Record<string, string> = {
+  date: "t.date",
+  quantity: "t.quantity",
+  material: "m.name",
+  type: "t.type"
+};
+
+function getTransactionSort(query: express.Request["query"]) {
+  const sort = typeof query.sort === 'string' && Object.hasOwn(TRANSACTION_SORT_COLUMNS, query.sort) ? query.sort : 'date';
+  return {
+    sortColumn: TRANSACTION_SORT_COLUMNS[sort],
+    order: query.order === 'asc' ? 'ASC' : 'DESC'
+  };
+}
 
-    const insertMaterial = db.prepare("INSERT INTO materials (name, category_id, unit, stock, min_stock, location) VALUES (?, ?, ?, ?, ?, ?)");
-    insertMaterial.run("Resistor 220 Ohm", 1, "Pcs", 150, 50, "Rak A1");
-    insertMaterial.run("Kabel Jumper Male-Male", 2, "Set", 20, 10, "Rak B2");
-    insertMaterial.run("Multimeter Digital", 3, "Unit", 12, 5, "Lemari Alat");
-    insertMaterial.run("Arduino Uno R3", 4, "Unit", 8, 3, "Rak C1");
-    insertMaterial.run("Solder 40W", 5, "Unit", 15, 5, "Meja Kerja");
+// A history row with the names the list shows joined in; sort_value is the keyset column for the next cursor
+interface TransactionListRow {
+  id: number;
+  material_id: number;
+  type: TransactionType;
+  quantity: number;
+  date: string;
+  notes: string | null;
+  reason_code: string | null;
+  photo: string | null;
+  photo_thumbnail: string | null;
+  user_id: number | null;
+  location_id: number | null;
+  purchase_order_line_id: number | null;
+  kit_checkout_id: number | null;
+  practicum_session_id: number | null;
+  transfer_id: number | null;
+  maintenance_record_id: number | null;
+  material_name: string;
+  material_unit: string;
+  location_name: string | null;
+  category_name: string | null;
+  user_name: string | null;
+  purchase_order_id: number | null;
+  supplier_name: string | null;
+  kit_name: string | null;
+  practicum_course: string | null;
+  practicum_class: string | null;
+  transfer_counterpart: string | null;
+  lot_numbers: string | null;
+  serial_numbers: string | null;
+  sort_value: string | number;
+}
+
+// Shared by the history list and its export so both honour the same filters
+function buildTransactionFilters(query: express.Request["query"]) {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  const { material_id, category_id, location_id, type, from, to, q } = query;
+
+  if (material_id) {
+    conditions.push("t.material_id = ?");
+    params.push(Number(material_id));
+  }
+  if (category_id) {
+    conditions.push("m.category_id = ?");
+    params.push(Number(category_id));
   }
+  if (location_id) {
+    conditions.push("t.location_id = ?");
+    params.push(Number(location_id));
+  }
+  if (typeof type === 'string' && Object.hasOwn(TRANSACTION_TYPE_LABELS, type)) {
+    conditions.push("t.type = ?");
+    params.push(type);
+  }
+  if (from) {
+    conditions.push("date(t.date) >= date(?)");
+    params.push(String(from));
+  }
+  if (to) {
+    conditions.push("date(t.date) <= date(?)");
+    params.push(String(to));
+  }
+  if (q) {
+    conditions.push("t.notes LIKE ?");
+    params.push(`%${q}%`);
+  }
+  return { conditions, params };
 }
 
-async function startServer() {
-  initDb();
-  
-  const app = express();
-  const PORT = 3000;
+interface Semester {
+  key: string;
+  label: string;
+  from: string;
+  to: string;
+}
 
-  // Request logger
-  app.use((req, res, next) => {
-    console.log(`${req.method} ${req.url}`);
-    next();
+// Ganjil runs August to January and genap February to July; keys read "2025-ganjil" for the 2025/2026 year
+function parseSemester(key: string): Semester | null {
+  const match = /^(\d{4})-(ganjil|genap)$/.exec(key);
+  if (!match) return null;
+  const year = Number(match[1]);
+  return match[2] === 'ganjil'
+    ? { key, label: `Ganjil ${year}/${year + 1}`, from: `${year}-08-01`, to: `${year + 1}-01-31` }
+    : { key, label: `Genap ${year}/${year + 1}`, from: `${year + 1}-02-01`, to: `${year + 1}-07-31` };
+}
+
+function nextSemester(semester: Semester): Semester {
+  const [year, half] = semester.key.split("-");
+  return parseSemester(half === 'ganjil' ? `${year}-genap` : `${Number(year) + 1}-ganjil`)!;
+}
+
+function semesterOf(date: string): Semester {
+  const year = Number(date.slice(0, 4));
+  const month = Number(date.slice(5, 7));
+  if (month >= 8) return parseSemester(`${year}-ganjil`)!;
+  return parseSemester(month === 1 ? `${year - 1}-ganjil` : `${year - 1}-genap`)!;
+}
+
+// Start dates (YYYY-MM-DD, UTC) of the last `count` weeks (from Monday) or months, oldest first
+function periodStarts(interval: 'week' | 'month', count: number): string[] {
+  const now = new Date();
+  const starts: string[] = [];
+  for (let i = count - 1; i >= 0; i--) {
+    const start = interval === 'week'
+      ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - (now.getUTCDay() + 6) % 7 - i * 7))
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i, 1));
+    starts.push(start.toISOString().slice(0, 10));
+  }
+  return starts;
+}
+
+interface ReportColumn {
+  header: string;
+  key: string;
+  width: number;
+}
+
+interface Report {
+  title: string;
+  fileName: string;
+  subtitle?: string;
+  columns: ReportColumn[];
+  rows: Record<string, unknown>[];
+}
+
+function toCsv(report: Report): string {
+  const escape = (value: unknown) => {
+    const text = value === null || value === undefined ? "" : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = [
+    report.columns.map(c => escape(c.header)).join(","),
+    ...report.rows.map(row => report.columns.map(c => escape(row[c.key])).join(","))
+  ];
+  // BOM so Excel opens the UTF-8 file correctly
+  return "\uFEFF" + lines.join("\r\n");
+}
+
+async function toXlsx(report: Report): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(report.title.slice(0, 31));
+  sheet.columns = report.columns.map(c => ({ header: c.header, key: c.key, width: c.width }));
+  sheet.getRow(1).font = { bold: true };
+  report.rows.forEach(row => sheet.addRow(row));
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+function toPdf(report: Report): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", layout: "landscape", margin: 36 });
+    const chunks: Buffer[] = [];
+    doc.on("data", chunk => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const left = doc.page.margins.left;
+    const usableWidth = doc.page.width - left - doc.page.margins.right;
+    const totalWidth = report.columns.reduce((sum, c) => sum + c.width, 0);
+    const widths = report.columns.map(c => (c.width / totalWidth) * usableWidth);
+
+    doc.font("Helvetica-Bold").fontSize(13).text("POLITEKNIK NEGERI SAMARINDA", { align: "center" });
+    doc.fontSize(11).text("JURUSAN TEKNIK ELEKTRO", { align: "center" });
+    doc.font("Helvetica").fontSize(8).text("Laboratorium - Sistem Inventaris Bahan Praktik", { align: "center" });
+    doc.moveDown(0.3);
+    doc.moveTo(left, doc.y).lineTo(left + usableWidth, doc.y).lineWidth(1.5).stroke();
+    doc.moveDown(0.8);
+    doc.font("Helvetica-Bold").fontSize(11).text(report.title, left, doc.y, { align: "center", width: usableWidth });
+    doc.font("Helvetica").fontSize(8).text(
+      `${report.subtitle ? `${report.subtitle} | ` : ""}Dicetak: ${new Date().toLocaleString("id-ID")}`,
+      { align: "center", width: usableWidth }
+    );
+    doc.moveDown(0.8);
+
+    const drawRow = (values: string[], bold: boolean) => {
+      doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(8);
+      const height = Math.max(...values.map((v, i) => doc.heightOfString(v, { width: widths[i] - 6 }))) + 6;
+      if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+        doc.addPage();
+      }
+      const y = doc.y;
+      let x = left;
+      values.forEach((value, i) => {
+        doc.rect(x, y, widths[i], height).lineWidth(0.5).stroke();
+        doc.text(value, x + 3, y + 3, { width: widths[i] - 6 });
+        x += widths[i];
+      });
+      doc.x = left;
+      doc.y = y + height;
+    };
+
+    drawRow(report.columns.map(c => c.header), true);
+    report.rows.forEach(row => drawRow(report.columns.map(c => row[c.key] === null || row[c.key] === undefined ? "-" : String(row[c.key])), false));
+    doc.end();
+  });
+}
+
+async function sendReport(res: express.Response, format: unknown, report: Report) {
+  const stamp = new Date().toISOString().slice(0, 10);
+  if (format === 'xlsx') {
+    res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+    res.setHeader("Content-Disposition", `attachment; filename="${report.fileName}_${stamp}.xlsx"`);
+    res.send(await toXlsx(report));
+  } else if (format === 'pdf') {
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${report.fileName}_${stamp}.pdf"`);
+    res.send(await toPdf(report));
+  } else if (format === 'csv') {
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="${report.fileName}_${stamp}.csv"`);
+    res.send(toCsv(report));
+  } else {
+    res.status(400).json({ error: "Format ekspor harus csv, xlsx atau pdf." });
+  }
+}
+
+interface Label {
+  code: string;
+  title: string;
+  subtitle: string;
+}
+
+// QR payloads are kept short so they stay scannable when printed small; the UI parses the same format
+function labelCode(kind: 'material' | 'location', id: number): string {
+  return `INV:${kind === 'material' ? 'M' : 'L'}:${id}`;
+}
+
+// A4 sheet of 3 x 8 labels (70 x 37 mm), matching common self-adhesive label paper
+async function toLabelSheet(labels: Label[]): Promise<Buffer> {
+  const qrImages = await Promise.all(labels.map(l => QRCode.toBuffer(l.code, { margin: 2, width: 256, errorCorrectionLevel: 'M' })));
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: 0 });
+    const chunks: Buffer[] = [];
+    doc.on("data", chunk => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const columns = 3;
+    const rows = 8;
+    const width = doc.page.width / columns;
+    const height = doc.page.height / rows;
+    const padding = 8;
+    const qrSize = height - padding * 2;
+
+    labels.forEach((label, i) => {
+      const slot = i % (columns * rows);
+      if (i > 0 && slot === 0) doc.addPage();
+      const x = (slot % columns) * width;
+      const y = Math.floor(slot / columns) * height;
+      const textX = x + padding * 2 + qrSize;
+      const textWidth = width - qrSize - padding * 3;
+
+      doc.rect(x, y, width, height).lineWidth(0.25).dash(2, { space: 2 }).strokeColor("#cccccc").stroke().undash();
+      doc.image(qrImages[i], x + padding, y + padding, { width: qrSize, height: qrSize });
+      doc.fillColor("#000000").font("Helvetica-Bold").fontSize(9)
+        .text(label.title, textX, y + padding + 4, { width: textWidth, height: qrSize - 24, ellipsis: true });
+      doc.font("Helvetica").fontSize(7).fillColor("#555555")
+        .text(label.subtitle, textX, y + height - padding - 20, { width: textWidth, height: 10, ellipsis: true });
+      doc.fontSize(6).text(label.code, textX, y + height - padding - 9, { width: textWidth });
+    });
+    doc.end();
+  });
+}
+
+async function sendLabels(res: express.Response, fileName: string, labels: Label[]) {
+  if (labels.length === 0) {
+    return res.status(404).json({ error: "Tidak ada data untuk dicetak." });
+  }
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader("Content-Disposition", `inline; filename="${fileName}.pdf"`);
+  res.send(await toLabelSheet(labels));
+}
+
+// Optional ?ids=1,2,3 narrows a label sheet to specific rows
+function parseIdList(value: unknown): number[] {
+  if (typeof value !== 'string' || !value) return [];
+  return value.split(",").map(Number).filter(n => Number.isInteger(n) && n > 0);
+}
+
+function purchaseOrderNumber(id: number | bigint): string {
+  return `PO-${String(id).padStart(4, "0")}`;
+}
+
+type PurchaseRequestStatus = 'draft' | 'submitted' | 'ordered' | 'received';
+
+// Each status can only move forward one step; draft -> submitted is the approval
+const PURCHASE_REQUEST_NEXT_STATUS: Record<PurchaseRequestStatus, PurchaseRequestStatus | null> = {
+  draft: 'submitted',
+  submitted: 'ordered',
+  ordered: 'received',
+  received: null
+};
+
+const PURCHASE_REQUEST_STATUS_LABELS: Record<PurchaseRequestStatus, string> = {
+  draft: "Draf",
+  submitted: "Diajukan",
+  ordered: "Dipesan",
+  received: "Diterima"
+};
+
+// Reorder up to target_stock, or twice the minimum when no target is set
+const SUGGESTED_ORDER_SQL = "MAX(COALESCE(m.target_stock, m.min_stock * 2) - m.stock, 1)";
+
+interface KitRow {
+  id: number;
+  name: string;
+  description: string | null;
+  created_at: string;
+  component_count: number;
+  available_kits: number;
+}
+
+interface KitComponentRow {
+  id: number;
+  kit_id: number;
+  material_id: number;
+  material_name: string;
+  unit: string;
+  stock: number;
+  quantity: number;
+  available_kits: number;
+}
+
+/**
+ * Loads kits with their components. available_kits is the number of complete
+ * kits the current stock can build, i.e. the scarcest component decides.
+ */
+function getKits(id?: number): (KitRow & { components: KitComponentRow[] })[] {
+  const kits = db.prepare(`
+    SELECT k.*,
+      COUNT(kc.id) as component_count,
+      MAX(COALESCE(MIN(m.stock / kc.quantity), 0), 0) as available_kits
+    FROM kits k
+    LEFT JOIN kit_components kc ON kc.kit_id = k.id
+    LEFT JOIN materials m ON kc.material_id = m.id
+    ${id === undefined ? "" : "WHERE k.id = ?"}
+    GROUP BY k.id
+    ORDER BY k.name
+  `).all(...(id === undefined ? [] : [id])) as KitRow[];
+  const components = db.prepare(`
+    SELECT kc.*, m.name as material_name, m.unit, m.stock, MAX(m.stock / kc.quantity, 0) as available_kits
+    FROM kit_components kc
+    JOIN materials m ON kc.material_id = m.id
+    ${id === undefined ? "" : "WHERE kc.kit_id = ?"}
+    ORDER BY m.name
+  `).all(...(id === undefined ? [] : [id])) as KitComponentRow[];
+  return kits.map(kit => ({ ...kit, components: components.filter(c => c.kit_id === kit.id) }));
+}
+
+/**
+ * Validates a material/quantity list (kit components, session requirements),
+ * returning an error message or the normalised lines. Duplicate materials are
+ * rejected rather than summed so the editor never silently changes what was typed.
+ */
+function parseMaterialQuantities(lines: unknown, messages: { empty: string, quantity: string }): string | { material_id: number, quantity: number }[] {
+  if (!Array.isArray(lines) || lines.length === 0) {
+    return messages.empty;
+  }
+  const parsed = lines.map((c: { material_id?: unknown, quantity?: unknown } | null) => ({ material_id: Number(c?.material_id), quantity: Number(c?.quantity) }));
+  for (const component of parsed) {
+    if (!Number.isInteger(component.quantity) || component.quantity <= 0) {
+      return messages.quantity;
+    }
+    if (!db.prepare("SELECT id FROM materials WHERE id = ?").get(component.material_id)) {
+      return `Bahan dengan ID ${component.material_id} tidak ditemukan.`;
+    }
+  }
+  if (new Set(parsed.map(c => c.material_id)).size !== parsed.length) {
+    return "Setiap bahan hanya boleh muncul sekali.";
+  }
+  return parsed;
+}
+
+const KIT_COMPONENT_MESSAGES = {
+  empty: "Kit harus berisi minimal satu bahan.",
+  quantity: "Jumlah per kit harus bilangan bulat positif."
+};
+
+const SESSION_MATERIAL_MESSAGES = {
+  empty: "Sesi praktikum harus memerlukan minimal satu bahan.",
+  quantity: "Jumlah per kelompok harus bilangan bulat positif."
+};
+
+// Sort keys the materials list accepts; unknown keys fall back to name
+const MATERIAL_SORT_COLUMNS: Record<string, string> = {
+  name: "m.name COLLATE NOCASE",
+  category: "c.name COLLATE NOCASE",
+  location: "l.name COLLATE NOCASE",
+  unit: "m.unit COLLATE NOCASE",
+  stock: "m.stock",
+  min_stock: "m.min_stock",
+  reserved: "reserved"
+};
+
+// Every word has to prefix-match a word somewhere in the index; quotes are dropped so input can't become FTS syntax
+function toFtsQuery(text: string): string | null {
+  const terms = text.split(/\s+/).map(term => term.replace(/"/g, "")).filter(Boolean);
+  return terms.length > 0 ? terms.map(term => `"${term}"*`).join(" ") : null;
+}
+
+// A materials row as listed, with the category, home location and reserved stock joined in
+interface MaterialRow {
+  id: number;
+  name: string;
+  category_id: number | null;
+  unit: string;
+  stock: number;
+  min_stock: number;
+  target_stock: number | null;
+  location_id: number | null;
+  image: string | null;
+  thumbnail: string | null;
+  track_lots: number;
+  track_serials: number;
+  calibration_interval_days: number | null;
+  notes: string | null;
+  category_name: string | null;
+  location_name: string | null;
+  reserved: number;
+}
+
+// Per-location stock, open lots and registered units, fetched only for the materials being returned
+function withMaterialDetails(materials: MaterialRow[]) {
+  const ids = JSON.stringify(materials.map(m => m.id));
+  const stocks = db.prepare(`
+    SELECT ms.material_id, ms.location_id, l.name as location_name, ms.quantity
+    FROM material_stocks ms
+    JOIN locations l ON ms.location_id = l.id
+    WHERE ms.quantity != 0 AND ms.material_id IN (SELECT value FROM json_each(?))
+    ORDER BY l.name
+  `).all(ids) as { material_id: number, location_id: number, location_name: string, quantity: number }[];
+  const lots = db.prepare(`
+    SELECT id, material_id, lot_number, received_date, expiry_date, quantity,
+      CAST(julianday(expiry_date) - julianday(date('now')) AS INTEGER) as days_left
+    FROM material_lots
+    WHERE quantity > 0 AND material_id IN (SELECT value FROM json_each(?))
+    ORDER BY ${FEFO_ORDER_SQL}
+  `).all(ids) as { material_id: number }[];
+  const assets = db.prepare(`${ASSET_LIST_SQL} WHERE a.material_id IN (SELECT value FROM json_each(?)) ORDER BY a.serial_number`).all(ids) as { material_id: number }[];
+  return materials.map(m => {
+    const located = stocks.filter(s => s.material_id === m.id).map(({ material_id, ...s }) => s);
+    const unassigned = m.stock - located.reduce((sum, s) => sum + s.quantity, 0);
+    return {
+      ...m,
+      stocks: unassigned !== 0 ? [...located, { location_id: null, location_name: null, quantity: unassigned }] : located,
+      lots: m.track_lots ? lots.filter(l => l.material_id === m.id) : [],
+      assets: m.track_serials ? assets.filter(a => a.material_id === m.id) : []
+    };
+  });
+}
+
+// Stock held by practicum sessions that have not started yet
+const RESERVATIONS_SQL = `
+  SELECT psm.material_id, SUM(psm.quantity_per_group * ps.group_count) as reserved
+  FROM practicum_session_materials psm
+  JOIN practicum_sessions ps ON psm.session_id = ps.id
+  WHERE ps.status = 'scheduled'
+  GROUP BY psm.material_id
+`;
+
+interface PracticumSessionRow {
+  id: number;
+  course: string;
+  class_name: string | null;
+  session_date: string;
+  group_count: number;
+  status: 'scheduled' | 'started' | 'cancelled';
+  notes: string | null;
+  created_by: number | null;
+  created_by_name: string | null;
+  created_at: string;
+  started_by: number | null;
+  started_by_name: string | null;
+  started_at: string | null;
+}
+
+interface PracticumSessionLine {
+  id: number;
+  session_id: number;
+  material_id: number;
+  material_name: string;
+  unit: string;
+  stock: number;
+  quantity_per_group: number;
+  quantity: number;
+  shortage: number;
+}
+
+/**
+ * Loads practicum sessions with their required materials. For scheduled
+ * sessions each line carries a shortage: how far the stock falls short once
+ * this session and every earlier scheduled one have taken their share.
+ */
+function getPracticumSessions(id?: number): (PracticumSessionRow & { materials: PracticumSessionLine[] })[] {
+  const sessions = db.prepare(`
+    SELECT ps.*, cu.name as created_by_name, su.name as started_by_name
+    FROM practicum_sessions ps
+    LEFT JOIN users cu ON ps.created_by = cu.id
+    LEFT JOIN users su ON ps.started_by = su.id
+    ${id === undefined ? "" : "WHERE ps.id = ?"}
+    ORDER BY ps.session_date, ps.id
+  `).all(...(id === undefined ? [] : [id])) as PracticumSessionRow[];
+  const lines = db.prepare(`
+    SELECT psm.*, psm.quantity_per_group * ps.group_count as quantity, ps.status, ps.session_date,
+      m.name as material_name, m.unit, m.stock
+    FROM practicum_session_materials psm
+    JOIN practicum_sessions ps ON psm.session_id = ps.id
+    JOIN materials m ON psm.material_id = m.id
+    ORDER BY ps.session_date, ps.id, m.name
+  `).all() as (Omit<PracticumSessionLine, 'shortage'> & { status: PracticumSessionRow['status'], session_date: string })[];
+
+  const claimed = new Map<number, number>();
+  const materials = lines.map(({ status, session_date, ...line }) => {
+    if (status !== 'scheduled') {
+      return { ...line, shortage: 0 };
+    }
+    const total = (claimed.get(line.material_id) ?? 0) + line.quantity;
+    claimed.set(line.material_id, total);
+    return { ...line, shortage: Math.max(total - line.stock, 0) };
+  });
+  return sessions.map(session => ({ ...session, materials: materials.filter(m => m.session_id === session.id) }));
+}
+
+function sessionShortages(id: number | bigint) {
+  const [session] = getPracticumSessions(Number(id));
+  return session.materials
+    .filter(m => m.shortage > 0)
+    .map(m => `${m.material_name}: kurang ${m.shortage} ${m.unit}`);
+}
+
+function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const hash = crypto.scryptSync(password, salt, 64).toString("hex");
+  return `${salt}:${hash}`;
+}
+
+function verifyPassword(password: string, stored: string): boolean {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+  const candidate = crypto.scryptSync(password, salt, 64);
+  const expected = Buffer.from(hash, "hex");
+  return candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected);
+}
+
+function getCookie(req: express.Request, name: string): string | null {
+  const header = req.headers.cookie;
+  if (!header) return null;
+  for (const part of header.split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return null;
+}
+
+// Resolves the session cookie to a user; every /api route except login requires one
+function authenticate(req: express.Request, res: express.Response, next: express.NextFunction) {
+  if (req.path === "/auth/login") return next();
+
+  const token = getCookie(req, SESSION_COOKIE);
+  const user = token ? db.prepare(`
+    SELECT u.id, u.username, u.name, u.role
+    FROM sessions s JOIN users u ON s.user_id = u.id
+    WHERE s.token = ? AND s.expires_at > CURRENT_TIMESTAMP AND u.active = 1
+  `).get(token) as SessionUser | undefined : undefined;
+
+  if (!user) {
+    return res.status(401).json({ error: "Silakan login terlebih dahulu." });
+  }
+  req.user = user;
+  next();
+}
+
+// Students are read-only; any write needs at least lab staff
+function authorizeWrites(req: express.Request, res: express.Response, next: express.NextFunction) {
+  if (req.method === "GET" || req.path.startsWith("/auth/")) return next();
+  if (req.user?.role === 'student') {
+    return res.status(403).json({ error: "Akun mahasiswa hanya dapat melihat data." });
+  }
+  next();
+}
+
+function requireRole(...roles: Role[]) {
+  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (!req.user || !roles.includes(req.user.role)) {
+      return res.status(403).json({ error: "Anda tidak memiliki izin untuk tindakan ini." });
+    }
+    next();
+  };
+}
+
+type ImportField = 'name' | 'category' | 'unit' | 'stock' | 'min_stock' | 'location';
+
+// Header spellings recognised when no explicit mapping is sent, compared lowercased without spaces/underscores
+const IMPORT_HEADER_ALIASES: Record<ImportField, string[]> = {
+  name: ["name", "nama", "namabahan", "namabarang", "bahan"],
+  category: ["category", "kategori", "categoryname"],
+  unit: ["unit", "satuan"],
+  stock: ["stock", "stok", "stokawal", "jumlah"],
+  min_stock: ["minstock", "stokminimal", "stokmin", "minimum"],
+  location: ["location", "lokasi", "rak"]
+};
+
+interface ImportRow {
+  row: number;
+  name: string;
+  category: string;
+  unit: string;
+  stock: number;
+  min_stock: number;
+  location: string;
+  errors: string[];
+}
+
+function parseCsv(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ";" : ",";
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ""));
+}
+
+async function readSpreadsheet(fileName: string, buffer: Buffer): Promise<string[][]> {
+  if (/\.xlsx$/i.test(fileName)) {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(buffer);
+    const sheet = workbook.worksheets[0];
+    if (!sheet) return [];
+    const rows: string[][] = [];
+    sheet.eachRow({ includeEmpty: false }, (row) => {
+      const values: string[] = [];
+      for (let col = 1; col <= sheet.columnCount; col++) {
+        values.push(row.getCell(col).text ?? "");
+      }
+      rows.push(values);
+    });
+    return rows;
+  }
+  if (/\.csv$/i.test(fileName)) {
+    return parseCsv(buffer.toString("utf8").replace(/^\uFEFF/, ""));
+  }
+  throw new Error("UNSUPPORTED_FORMAT");
+}
+
+function detectImportMapping(headers: string[]): Partial<Record<ImportField, number>> {
+  const mapping: Partial<Record<ImportField, number>> = {};
+  const normalized = headers.map(h => h.toLowerCase().replace(/[\s_\-]/g, ""));
+  (Object.keys(IMPORT_HEADER_ALIASES) as ImportField[]).forEach(field => {
+    const index = normalized.findIndex(h => IMPORT_HEADER_ALIASES[field].includes(h));
+    if (index !== -1) mapping[field] = index;
+  });
+  return mapping;
+}
+
+/**
+ * Turns spreadsheet rows into validated import rows. Categories and
+ * locations are matched by name (case-insensitive); unknown ones are
+ * reported so the dry run can show what would be created.
+ */
+function validateImportRows(rows: string[][], mapping: Partial<Record<ImportField, number>>) {
+  const existingMaterials = new Set((db.prepare("SELECT name FROM materials").all() as { name: string }[]).map(m => m.name.toLowerCase()));
+  const categories = new Map((db.prepare("SELECT id, name FROM categories").all() as { id: number, name: string }[]).map(c => [c.name.toLowerCase(), c]));
+  const locations = new Map((db.prepare("SELECT id, name FROM locations").all() as { id: number, name: string }[]).map(l => [l.name.toLowerCase(), l]));
+  const newCategories = new Map<string, string>();
+  const newLocations = new Map<string, string>();
+  const seenNames = new Set<string>();
+
+  const cell = (values: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === undefined ? "" : String(values[index] ?? "").trim();
+  };
+
+  const parsed: ImportRow[] = rows.map((values, i) => {
+    const errors: string[] = [];
+    const name = cell(values, 'name');
+    const category = cell(values, 'category');
+    const unit = cell(values, 'unit');
+    const location = cell(values, 'location');
+    const stockText = cell(values, 'stock');
+    const minStockText = cell(values, 'min_stock');
+    const stock = stockText === "" ? 0 : Number(stockText);
+    const minStock = minStockText === "" ? 5 : Number(minStockText);
+
+    if (!name) {
+      errors.push("Nama bahan kosong.");
+    } else if (existingMaterials.has(name.toLowerCase())) {
+      errors.push("Bahan dengan nama ini sudah ada.");
+    } else if (seenNames.has(name.toLowerCase())) {
+      errors.push("Nama bahan duplikat dalam file.");
+    }
+    if (!unit) errors.push("Satuan kosong.");
+    if (!Number.isInteger(stock) || stock < 0) errors.push(`Stok "${stockText}" bukan bilangan bulat >= 0.`);
+    if (!Number.isInteger(minStock) || minStock < 0) errors.push(`Stok minimal "${minStockText}" bukan bilangan bulat >= 0.`);
+
+    if (name) seenNames.add(name.toLowerCase());
+    if (category && !categories.has(category.toLowerCase())) newCategories.set(category.toLowerCase(), category);
+    if (location && !locations.has(location.toLowerCase())) newLocations.set(location.toLowerCase(), location);
+
+    // Row numbers are 1-based and account for the header line
+    return { row: i + 2, name, category, unit, stock, min_stock: minStock, location, errors };
+  });
+
+  return {
+    rows: parsed,
+    newCategories: [...newCategories.values()],
+    newLocations: [...newLocations.values()],
+    categories,
+    locations
+  };
+}
+
+interface Migration {
+  version: number;
+  name: string;
+  up: () => void;
+}
+
+function hasColumn(table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  return columns.some(c => c.name === column);
+}
+
+// Append-only: never edit a migration that has shipped, add a new one instead.
+// Early migrations are written defensively because databases created before
+// schema_version existed may already contain some of their tables and columns.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial_schema",
+    up: () => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS categories (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE
+        );
+        CREATE TABLE IF NOT EXISTS locations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE
+        );
+        CREATE TABLE IF NOT EXISTS materials (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          category_id INTEGER,
+          unit TEXT NOT NULL,
+          stock INTEGER DEFAULT 0,
+          min_stock INTEGER DEFAULT 5,
+          location TEXT,
+          image TEXT,
+          FOREIGN KEY (category_id) REFERENCES categories (id)
+        );
+        CREATE TABLE IF NOT EXISTS transactions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          material_id INTEGER,
+          type TEXT CHECK(type IN ('IN', 'OUT')) NOT NULL,
+          quantity INTEGER NOT NULL,
+          date DATETIME DEFAULT CURRENT_TIMESTAMP,
+          notes TEXT,
+          FOREIGN KEY (material_id) REFERENCES materials (id)
+        );
+      `);
+      if (!hasColumn("materials", "image")) {
+        db.exec("ALTER TABLE materials ADD COLUMN image TEXT");
+      }
+    }
+  },
+  {
+    version: 2,
+    name: "loans",
+    up: () => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS borrowers (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          nim TEXT NOT NULL UNIQUE,
+          class_name TEXT
+        );
+        CREATE TABLE IF NOT EXISTS loans (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          borrower_id INTEGER NOT NULL,
+          material_id INTEGER NOT NULL,
+          quantity INTEGER NOT NULL,
+          loan_date DATETIME DEFAULT CURRENT_TIMESTAMP,
+          due_date DATETIME NOT NULL,
+          return_date DATETIME,
+          notes TEXT,
+          FOREIGN KEY (borrower_id) REFERENCES borrowers (id),
+          FOREIGN KEY (material_id) REFERENCES materials (id)
+        );
+      `);
+    }
+  },
+  {
+    version: 3,
+    name: "users_and_sessions",
+    up: () => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          username TEXT NOT NULL UNIQUE,
+          name TEXT NOT NULL,
+          role TEXT CHECK(role IN ('admin', 'laboran', 'student')) NOT NULL,
+          password_hash TEXT NOT NULL,
+          active INTEGER DEFAULT 1,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE TABLE IF NOT EXISTS sessions (
+          token TEXT PRIMARY KEY,
+          user_id INTEGER NOT NULL,
+          expires_at DATETIME NOT NULL,
+          FOREIGN KEY (user_id) REFERENCES users (id)
+        );
+      `);
+      if (!hasColumn("transactions", "user_id")) {
+        db.exec("ALTER TABLE transactions ADD COLUMN user_id INTEGER REFERENCES users (id)");
+      }
+    }
+  },
+  {
+    version: 4,
+    name: "audit_log",
+    up: () => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS audit_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          entity TEXT NOT NULL,
+          entity_id INTEGER NOT NULL,
+          action TEXT CHECK(action IN ('create', 'update', 'delete')) NOT NULL,
+          before_json TEXT,
+          after_json TEXT,
+          user_id INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users (id)
+        );
+        CREATE INDEX IF NOT EXISTS idx_audit_entity ON audit_log (entity, entity_id);
+      `);
+    }
+  },
+  {
+    version: 5,
+    name: "stock_takes",
+    up: () => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS stock_takes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          title TEXT NOT NULL,
+          scope_json TEXT,
+          status TEXT CHECK(status IN ('open', 'approved', 'cancelled')) NOT NULL DEFAULT 'open',
+          created_by INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          approved_by INTEGER,
+          approved_at DATETIME,
+          FOREIGN KEY (created_by) REFERENCES users (id),
+          FOREIGN KEY (approved_by) REFERENCES users (id)
+        );
+        CREATE TABLE IF NOT EXISTS stock_take_counts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          stock_take_id INTEGER NOT NULL,
+          material_id INTEGER NOT NULL,
+          counted_quantity INTEGER,
+          system_stock INTEGER,
+          counted_by INTEGER,
+          counted_at DATETIME,
+          UNIQUE (stock_take_id, material_id),
+          FOREIGN KEY (stock_take_id) REFERENCES stock_takes (id),
+          FOREIGN KEY (material_id) REFERENCES materials (id),
+          FOREIGN KEY (counted_by) REFERENCES users (id)
+        );
+      `);
+      // SQLite can't alter a CHECK constraint, so the transactions table is rebuilt to allow ADJUSTMENT
+      const transactionsSchema = db.prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'transactions'").get() as { sql: string };
+      if (!transactionsSchema.sql.includes("'ADJUSTMENT'")) {
+        db.exec(`
+          CREATE TABLE transactions_new (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            material_id INTEGER,
+            type TEXT CHECK(type IN ('IN', 'OUT', 'ADJUSTMENT')) NOT NULL,
+            quantity INTEGER NOT NULL,
+            date DATETIME DEFAULT CURRENT_TIMESTAMP,
+            notes TEXT,
+            user_id INTEGER,
+            FOREIGN KEY (material_id) REFERENCES materials (id),
+            FOREIGN KEY (user_id) REFERENCES users (id)
+          );
+          INSERT INTO transactions_new (id, material_id, type, quantity, date, notes, user_id)
+            SELECT id, material_id, type, quantity, date, notes, user_id FROM transactions;
+          DROP TABLE transactions;
+          ALTER TABLE transactions_new RENAME TO transactions;
+        `);
+      }
+    }
+  },
+  {
+    version: 6,
+    name: "materials_location_id",
+    up: () => {
+      // Materials used to store the location name as free text; link each one to a locations row instead
+      if (hasColumn("materials", "location_id")) return;
+      db.exec(`
+        INSERT OR IGNORE INTO locations (name)
+          SELECT DISTINCT TRIM(location) FROM materials WHERE location IS NOT NULL AND TRIM(location) != '';
+        CREATE TABLE materials_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          category_id INTEGER,
+          unit TEXT NOT NULL,
+          stock INTEGER DEFAULT 0,
+          min_stock INTEGER DEFAULT 5,
+          location_id INTEGER,
+          image TEXT,
+          FOREIGN KEY (category_id) REFERENCES categories (id),
+          FOREIGN KEY (location_id) REFERENCES locations (id)
+        );
+        INSERT INTO materials_new (id, name, category_id, unit, stock, min_stock, location_id, image)
+          SELECT m.id, m.name, m.category_id, m.unit, m.stock, m.min_stock, l.id, m.image
+          FROM materials m LEFT JOIN locations l ON l.name = TRIM(m.location);
+        DROP TABLE materials;
+        ALTER TABLE materials_new RENAME TO materials;
+      `);
+    }
+  },
+  {
+    version: 7,
+    name: "low_stock_notifications",
+    up: () => {
+      db.exec(`
+        CREATE TABLE notification_subscriptions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          channel TEXT CHECK(channel IN ('email', 'webhook')) NOT NULL,
+          target TEXT NOT NULL,
+          category_id INTEGER,
+          active INTEGER DEFAULT 1,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users (id),
+          FOREIGN KEY (category_id) REFERENCES categories (id)
+        );
+        CREATE TABLE low_stock_alerts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          material_id INTEGER NOT NULL,
+          stock INTEGER NOT NULL,
+          min_stock INTEGER NOT NULL,
+          transaction_id INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          dispatched_at DATETIME,
+          resolved_at DATETIME,
+          FOREIGN KEY (material_id) REFERENCES materials (id),
+          FOREIGN KEY (transaction_id) REFERENCES transactions (id)
+        );
+        CREATE INDEX idx_low_stock_alerts_open ON low_stock_alerts (material_id) WHERE resolved_at IS NULL;
+        CREATE TABLE notification_deliveries (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          alert_id INTEGER NOT NULL,
+          subscription_id INTEGER NOT NULL,
+          status TEXT CHECK(status IN ('sent', 'failed')) NOT NULL,
+          error TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (alert_id) REFERENCES low_stock_alerts (id),
+          FOREIGN KEY (subscription_id) REFERENCES notification_subscriptions (id)
+        );
+      `);
+    }
+  },
+  {
+    version: 8,
+    name: "purchase_requests",
+    up: () => {
+      db.exec(`
+        ALTER TABLE materials ADD COLUMN target_stock INTEGER;
+        CREATE TABLE purchase_requests (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          title TEXT NOT NULL,
+          notes TEXT,
+          status TEXT CHECK(status IN ('draft', 'submitted', 'ordered', 'received')) NOT NULL DEFAULT 'draft',
+          created_by INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          approved_by INTEGER,
+          submitted_at DATETIME,
+          ordered_at DATETIME,
+          received_at DATETIME,
+          FOREIGN KEY (created_by) REFERENCES users (id),
+          FOREIGN KEY (approved_by) REFERENCES users (id)
+        );
+        CREATE TABLE purchase_request_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          purchase_request_id INTEGER NOT NULL,
+          material_id INTEGER NOT NULL,
+          quantity INTEGER NOT NULL CHECK(quantity > 0),
+          stock_at_request INTEGER NOT NULL,
+          notes TEXT,
+          UNIQUE (purchase_request_id, material_id),
+          FOREIGN KEY (purchase_request_id) REFERENCES purchase_requests (id),
+          FOREIGN KEY (material_id) REFERENCES materials (id)
+        );
+      `);
+    }
+  },
+  {
+    version: 9,
+    name: "suppliers_and_purchase_orders",
+    up: () => {
+      db.exec(`
+        CREATE TABLE suppliers (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE,
+          contact_person TEXT,
+          phone TEXT,
+          email TEXT,
+          address TEXT
+        );
+        CREATE TABLE purchase_orders (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          supplier_id INTEGER NOT NULL,
+          reference TEXT,
+          purchase_request_id INTEGER,
+          status TEXT CHECK(status IN ('open', 'partial', 'received', 'cancelled')) NOT NULL DEFAULT 'open',
+          order_date DATE DEFAULT CURRENT_DATE,
+          expected_date DATE,
+          notes TEXT,
+          created_by INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (supplier_id) REFERENCES suppliers (id),
+          FOREIGN KEY (purchase_request_id) REFERENCES purchase_requests (id),
+          FOREIGN KEY (created_by) REFERENCES users (id)
+        );
+        CREATE TABLE purchase_order_lines (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          purchase_order_id INTEGER NOT NULL,
+          material_id INTEGER NOT NULL,
+          quantity_ordered INTEGER NOT NULL CHECK(quantity_ordered > 0),
+          quantity_received INTEGER NOT NULL DEFAULT 0,
+          unit_price REAL,
+          FOREIGN KEY (purchase_order_id) REFERENCES purchase_orders (id),
+          FOREIGN KEY (material_id) REFERENCES materials (id)
+        );
+        ALTER TABLE transactions ADD COLUMN purchase_order_line_id INTEGER REFERENCES purchase_order_lines (id);
+      `);
+    }
+  },
+  {
+    version: 10,
+    name: "kits",
+    up: () => {
+      db.exec(`
+        CREATE TABLE kits (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE,
+          description TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE TABLE kit_components (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          kit_id INTEGER NOT NULL,
+          material_id INTEGER NOT NULL,
+          quantity INTEGER NOT NULL CHECK(quantity > 0),
+          UNIQUE (kit_id, material_id),
+          FOREIGN KEY (kit_id) REFERENCES kits (id),
+          FOREIGN KEY (material_id) REFERENCES materials (id)
+        );
+        CREATE TABLE kit_checkouts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          kit_id INTEGER NOT NULL,
+          quantity INTEGER NOT NULL CHECK(quantity > 0),
+          notes TEXT,
+          user_id INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (kit_id) REFERENCES kits (id),
+          FOREIGN KEY (user_id) REFERENCES users (id)
+        );
+        ALTER TABLE transactions ADD COLUMN kit_checkout_id INTEGER REFERENCES kit_checkouts (id);
+      `);
+    }
+  },
+  {
+    version: 11,
+    name: "practicum_sessions",
+    up: () => {
+      db.exec(`
+        CREATE TABLE practicum_sessions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          course TEXT NOT NULL,
+          class_name TEXT,
+          session_date DATE NOT NULL,
+          group_count INTEGER NOT NULL CHECK(group_count > 0),
+          status TEXT CHECK(status IN ('scheduled', 'started', 'cancelled')) NOT NULL DEFAULT 'scheduled',
+          notes TEXT,
+          created_by INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          started_by INTEGER,
+          started_at DATETIME,
+          FOREIGN KEY (created_by) REFERENCES users (id),
+          FOREIGN KEY (started_by) REFERENCES users (id)
+        );
+        CREATE TABLE practicum_session_materials (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id INTEGER NOT NULL,
+          material_id INTEGER NOT NULL,
+          quantity_per_group INTEGER NOT NULL CHECK(quantity_per_group > 0),
+          UNIQUE (session_id, material_id),
+          FOREIGN KEY (session_id) REFERENCES practicum_sessions (id),
+          FOREIGN KEY (material_id) REFERENCES materials (id)
+        );
+        CREATE INDEX idx_practicum_sessions_status ON practicum_sessions (status, session_date);
+        ALTER TABLE transactions ADD COLUMN practicum_session_id INTEGER REFERENCES practicum_sessions (id);
+      `);
+    }
+  },
+  {
+    version: 12,
+    name: "per_location_stock",
+    up: () => {
+      // Until now a material's whole stock sat at its single location, so that is where it starts out
+      db.exec(`
+        CREATE TABLE material_stocks (
+          material_id INTEGER NOT NULL,
+          location_id INTEGER NOT NULL,
+          quantity INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (material_id, location_id),
+          FOREIGN KEY (material_id) REFERENCES materials (id),
+          FOREIGN KEY (location_id) REFERENCES locations (id)
+        );
+        INSERT INTO material_stocks (material_id, location_id, quantity)
+          SELECT id, location_id, stock FROM materials WHERE location_id IS NOT NULL AND stock != 0;
+        CREATE TABLE stock_transfers (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          material_id INTEGER NOT NULL,
+          from_location_id INTEGER,
+          to_location_id INTEGER NOT NULL,
+          quantity INTEGER NOT NULL CHECK(quantity > 0),
+          notes TEXT,
+          user_id INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (material_id) REFERENCES materials (id),
+          FOREIGN KEY (from_location_id) REFERENCES locations (id),
+          FOREIGN KEY (to_location_id) REFERENCES locations (id),
+          FOREIGN KEY (user_id) REFERENCES users (id)
+        );
+      `);
+      // Rebuilt (as in migration 5) to allow TRANSFER; every ledger row now records its location
+      db.exec(`
+        CREATE TABLE transactions_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          material_id INTEGER,
+          type TEXT CHECK(type IN ('IN', 'OUT', 'ADJUSTMENT', 'TRANSFER')) NOT NULL,
+          quantity INTEGER NOT NULL,
+          date DATETIME DEFAULT CURRENT_TIMESTAMP,
+          notes TEXT,
+          user_id INTEGER,
+          location_id INTEGER,
+          purchase_order_line_id INTEGER,
+          kit_checkout_id INTEGER,
+          practicum_session_id INTEGER,
+          transfer_id INTEGER,
+          FOREIGN KEY (material_id) REFERENCES materials (id),
+          FOREIGN KEY (user_id) REFERENCES users (id),
+          FOREIGN KEY (location_id) REFERENCES locations (id),
+          FOREIGN KEY (purchase_order_line_id) REFERENCES purchase_order_lines (id),
+          FOREIGN KEY (kit_checkout_id) REFERENCES kit_checkouts (id),
+          FOREIGN KEY (practicum_session_id) REFERENCES practicum_sessions (id),
+          FOREIGN KEY (transfer_id) REFERENCES stock_transfers (id)
+        );
+        INSERT INTO transactions_new (id, material_id, type, quantity, date, notes, user_id, location_id, purchase_order_line_id, kit_checkout_id, practicum_session_id)
+          SELECT t.id, t.material_id, t.type, t.quantity, t.date, t.notes, t.user_id, m.location_id, t.purchase_order_line_id, t.kit_checkout_id, t.practicum_session_id
+          FROM transactions t LEFT JOIN materials m ON t.material_id = m.id;
+        DROP TABLE transactions;
+        ALTER TABLE transactions_new RENAME TO transactions;
+      `);
+    }
+  },
+  {
+    version: 13,
+    name: "material_lots",
+    up: () => {
+      db.exec(`
+        ALTER TABLE materials ADD COLUMN track_lots INTEGER NOT NULL DEFAULT 0;
+        CREATE TABLE material_lots (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          material_id INTEGER NOT NULL,
+          lot_number TEXT NOT NULL,
+          received_date DATE DEFAULT CURRENT_DATE,
+          expiry_date DATE,
+          quantity INTEGER NOT NULL DEFAULT 0,
+          UNIQUE (material_id, lot_number),
+          FOREIGN KEY (material_id) REFERENCES materials (id)
+        );
+        CREATE TABLE transaction_lots (
+          transaction_id INTEGER NOT NULL,
+          lot_id INTEGER NOT NULL,
+          quantity INTEGER NOT NULL,
+          PRIMARY KEY (transaction_id, lot_id),
+          FOREIGN KEY (transaction_id) REFERENCES transactions (id),
+          FOREIGN KEY (lot_id) REFERENCES material_lots (id)
+        );
+        CREATE INDEX idx_material_lots_expiry ON material_lots (expiry_date) WHERE quantity > 0;
+      `);
+    }
+  },
+  {
+    version: 14,
+    name: "serialized_assets",
+    up: () => {
+      // status: 'available' units make up the stock, 'loaned' units are on an active loan, 'out' units have left
+      db.exec(`
+        ALTER TABLE materials ADD COLUMN track_serials INTEGER NOT NULL DEFAULT 0;
+        CREATE TABLE material_assets (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          material_id INTEGER NOT NULL,
+          serial_number TEXT NOT NULL,
+          inventory_number TEXT UNIQUE,
+          purchase_date DATE,
+          condition TEXT CHECK(condition IN ('baik', 'rusak_ringan', 'rusak_berat')) NOT NULL DEFAULT 'baik',
+          status TEXT CHECK(status IN ('available', 'loaned', 'out')) NOT NULL DEFAULT 'available',
+          location_id INTEGER,
+          notes TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (material_id, serial_number),
+          FOREIGN KEY (material_id) REFERENCES materials (id),
+          FOREIGN KEY (location_id) REFERENCES locations (id)
+        );
+        CREATE TABLE transaction_assets (
+          transaction_id INTEGER NOT NULL,
+          asset_id INTEGER NOT NULL,
+          PRIMARY KEY (transaction_id, asset_id),
+          FOREIGN KEY (transaction_id) REFERENCES transactions (id),
+          FOREIGN KEY (asset_id) REFERENCES material_assets (id)
+        );
+        CREATE TABLE loan_assets (
+          loan_id INTEGER NOT NULL,
+          asset_id INTEGER NOT NULL,
+          PRIMARY KEY (loan_id, asset_id),
+          FOREIGN KEY (loan_id) REFERENCES loans (id),
+          FOREIGN KEY (asset_id) REFERENCES material_assets (id)
+        );
+      `);
+    }
+  },
+  {
+    version: 15,
+    name: "maintenance_records",
+    up: () => {
+      db.exec(`
+        ALTER TABLE materials ADD COLUMN calibration_interval_days INTEGER;
+        CREATE TABLE maintenance_records (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          material_id INTEGER NOT NULL,
+          asset_id INTEGER,
+          type TEXT CHECK(type IN ('kalibrasi', 'perbaikan', 'perawatan')) NOT NULL,
+          status TEXT CHECK(status IN ('in_service', 'completed')) NOT NULL DEFAULT 'in_service',
+          sent_date DATE NOT NULL DEFAULT CURRENT_DATE,
+          completed_date DATE,
+          vendor TEXT,
+          result TEXT,
+          certificate TEXT,
+          notes TEXT,
+          created_by INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          completed_by INTEGER,
+          FOREIGN KEY (material_id) REFERENCES materials (id),
+          FOREIGN KEY (asset_id) REFERENCES material_assets (id),
+          FOREIGN KEY (created_by) REFERENCES users (id),
+          FOREIGN KEY (completed_by) REFERENCES users (id)
+        );
+        CREATE INDEX idx_maintenance_records_asset ON maintenance_records (asset_id, type, status);
+        ALTER TABLE transactions ADD COLUMN maintenance_record_id INTEGER REFERENCES maintenance_records (id);
+      `);
+      // Rebuilt to allow the 'service' status for units away for calibration or repair
+      db.exec(`
+        CREATE TABLE material_assets_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          material_id INTEGER NOT NULL,
+          serial_number TEXT NOT NULL,
+          inventory_number TEXT UNIQUE,
+          purchase_date DATE,
+          condition TEXT CHECK(condition IN ('baik', 'rusak_ringan', 'rusak_berat')) NOT NULL DEFAULT 'baik',
+          status TEXT CHECK(status IN ('available', 'loaned', 'out', 'service')) NOT NULL DEFAULT 'available',
+          location_id INTEGER,
+          notes TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (material_id, serial_number),
+          FOREIGN KEY (material_id) REFERENCES materials (id),
+          FOREIGN KEY (location_id) REFERENCES locations (id)
+        );
+        INSERT INTO material_assets_new SELECT * FROM material_assets;
+        DROP TABLE material_assets;
+        ALTER TABLE material_assets_new RENAME TO material_assets;
+      `);
+    }
+  },
+  {
+    version: 16,
+    name: "shrinkage_transaction_types",
+    up: () => {
+      // Rebuilt (as in migration 12) for the shrinkage and return types; until now only stock takes could adjust stock
+      db.exec(`
+        CREATE TABLE transactions_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          material_id INTEGER,
+          type TEXT CHECK(type IN ('IN', 'OUT', 'ADJUSTMENT', 'TRANSFER', 'DAMAGED', 'LOST', 'DISPOSED', 'RETURN')) NOT NULL,
+          quantity INTEGER NOT NULL,
+          date DATETIME DEFAULT CURRENT_TIMESTAMP,
+          notes TEXT,
+          reason_code TEXT,
+          photo TEXT,
+          user_id INTEGER,
+          location_id INTEGER,
+          purchase_order_line_id INTEGER,
+          kit_checkout_id INTEGER,
+          practicum_session_id INTEGER,
+          transfer_id INTEGER,
+          maintenance_record_id INTEGER,
+          FOREIGN KEY (material_id) REFERENCES materials (id),
+          FOREIGN KEY (user_id) REFERENCES users (id),
+          FOREIGN KEY (location_id) REFERENCES locations (id),
+          FOREIGN KEY (purchase_order_line_id) REFERENCES purchase_order_lines (id),
+          FOREIGN KEY (kit_checkout_id) REFERENCES kit_checkouts (id),
+          FOREIGN KEY (practicum_session_id) REFERENCES practicum_sessions (id),
+          FOREIGN KEY (transfer_id) REFERENCES stock_transfers (id),
+          FOREIGN KEY (maintenance_record_id) REFERENCES maintenance_records (id)
+        );
+        INSERT INTO transactions_new (
+          id, material_id, type, quantity, date, notes, reason_code, user_id, location_id,
+          purchase_order_line_id, kit_checkout_id, practicum_session_id, transfer_id, maintenance_record_id
+        )
+          SELECT id, material_id, type, quantity, date, notes, CASE WHEN type = 'ADJUSTMENT' THEN 'stock_opname' END, user_id, location_id,
+            purchase_order_line_id, kit_checkout_id, practicum_session_id, transfer_id, maintenance_record_id
+          FROM transactions;
+        DROP TABLE transactions;
+        ALTER TABLE transactions_new RENAME TO transactions;
+      `);
+    }
+  },
+  {
+    version: 17,
+    name: "materials_search",
+    up: () => {
+      // The index holds category and location names too, so renaming either has to reach it
+      db.exec(`
+        ALTER TABLE materials ADD COLUMN notes TEXT;
+        CREATE VIRTUAL TABLE materials_fts USING fts5(name, category, location, notes, tokenize = 'unicode61 remove_diacritics 2');
+        INSERT INTO materials_fts (rowid, name, category, location, notes)
+          SELECT m.id, m.name, c.name, l.name, m.notes
+          FROM materials m
+          LEFT JOIN categories c ON m.category_id = c.id
+          LEFT JOIN locations l ON m.location_id = l.id;
+        CREATE TRIGGER materials_fts_insert AFTER INSERT ON materials BEGIN
+          INSERT INTO materials_fts (rowid, name, category, location, notes) VALUES (
+            new.id, new.name,
+            (SELECT name FROM categories WHERE id = new.category_id),
+            (SELECT name FROM locations WHERE id = new.location_id),
+            new.notes
+          );
+        END;
+        CREATE TRIGGER materials_fts_update AFTER UPDATE OF name, category_id, location_id, notes ON materials BEGIN
+          UPDATE materials_fts SET
+            name = new.name,
+            category = (SELECT name FROM categories WHERE id = new.category_id),
+            location = (SELECT name FROM locations WHERE id = new.location_id),
+            notes = new.notes
+          WHERE rowid = new.id;
+        END;
+        CREATE TRIGGER materials_fts_delete AFTER DELETE ON materials BEGIN
+          DELETE FROM materials_fts WHERE rowid = old.id;
+        END;
+        CREATE TRIGGER categories_fts_rename AFTER UPDATE OF name ON categories BEGIN
+          UPDATE materials_fts SET category = new.name WHERE rowid IN (SELECT id FROM materials WHERE category_id = new.id);
+        END;
+        CREATE TRIGGER locations_fts_rename AFTER UPDATE OF name ON locations BEGIN
+          UPDATE materials_fts SET location = new.name WHERE rowid IN (SELECT id FROM materials WHERE location_id = new.id);
+        END;
+      `);
+    }
+  },
+  {
+    version: 18,
+    name: "image_thumbnails",
+    up: () => {
+      db.exec(`
+        ALTER TABLE materials ADD COLUMN thumbnail TEXT;
+        ALTER TABLE transactions ADD COLUMN photo_thumbnail TEXT;
+      `);
+    }
+  },
+  {
+    version: 19,
+    name: "stock_take_locations",
+    up: () => {
+      // Counts are taken per location now; earlier ones were taken at the material's home location
+      db.exec(`
+        CREATE TABLE stock_take_counts_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          stock_take_id INTEGER NOT NULL,
+          material_id INTEGER NOT NULL,
+          location_id INTEGER,
+          counted_quantity INTEGER,
+          system_stock INTEGER,
+          counted_by INTEGER,
+          counted_at DATETIME,
+          UNIQUE (stock_take_id, material_id, location_id),
+          FOREIGN KEY (stock_take_id) REFERENCES stock_takes (id),
+          FOREIGN KEY (material_id) REFERENCES materials (id),
+          FOREIGN KEY (location_id) REFERENCES locations (id),
+          FOREIGN KEY (counted_by) REFERENCES users (id)
+        );
+        INSERT INTO stock_take_counts_new (id, stock_take_id, material_id, location_id, counted_quantity, system_stock, counted_by, counted_at)
+          SELECT c.id, c.stock_take_id, c.material_id, m.location_id, c.counted_quantity, c.system_stock, c.counted_by, c.counted_at
+          FROM stock_take_counts c LEFT JOIN materials m ON c.material_id = m.id;
+        DROP TABLE stock_take_counts;
+        ALTER TABLE stock_take_counts_new RENAME TO stock_take_counts;
+      `);
+    }
+  }
+];
+
+function runMigrations() {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+
+  const current = (db.prepare("SELECT MAX(version) as version FROM schema_version").get() as { version: number | null }).version ?? 0;
+  const latest = MIGRATIONS[MIGRATIONS.length - 1].version;
+  if (current > latest) {
+    throw new Error(`Database schema version ${current} is newer than this build supports (${latest}). Upgrade the application before starting it against this database.`);
+  }
+
+  const pending = MIGRATIONS.filter(m => m.version > current);
+  if (pending.length === 0) return;
+
+  // Table rebuilds drop tables other tables point at, and foreign_keys can't be toggled inside a transaction
+  db.pragma('foreign_keys = OFF');
+  try {
+    for (const migration of pending) {
+      console.log(`Applying migration ${migration.version}: ${migration.name}...`);
+      db.transaction(() => {
+        migration.up();
+        const violations = db.pragma('foreign_key_check') as unknown[];
+        if (violations.length > 0) {
+          throw new Error(`Migration ${migration.version} (${migration.name}) left ${violations.length} foreign key violation(s).`);
+        }
+        db.prepare("INSERT INTO schema_version (version, name) VALUES (?, ?)").run(migration.version, migration.name);
+      })();
+    }
+  } finally {
+    db.pragma('foreign_keys = ON');
+  }
+}
+
+function seedDb() {
+  const userCount = db.prepare("SELECT COUNT(*) as count FROM users").get() as { count: number };
+  if (userCount.count === 0) {
+    const password = process.env.ADMIN_PASSWORD || "admin123";
+    db.prepare("INSERT INTO users (username, name, role, password_hash) VALUES (?, ?, 'admin', ?)")
+      .run("admin", "Administrator", hashPassword(password));
+    if (!process.env.ADMIN_PASSWORD) {
+      console.warn("Created default 'admin' account with password 'admin123'. Change it after first login.");
+    }
+  }
+
+  const categoryCount = db.prepare("SELECT COUNT(*) as count FROM categories").get() as { count: number };
+  if (categoryCount.count === 0) {
+    db.transaction(() => {
+      const insertCategory = db.prepare("INSERT INTO categories (name) VALUES (?)");
+      ["Komponen Elektronika", "Kabel & Konektor", "Alat Ukur", "Modul Praktikum", "Lain-lain"].forEach(cat => insertCategory.run(cat));
+
+      const insertLocation = db.prepare("INSERT INTO locations (name) VALUES (?)");
+      ["Rak A1", "Rak A2", "Rak B1", "Rak B2", "Rak C1", "Lemari Alat", "Meja Kerja", "Gudang"].forEach(loc => insertLocation.run(loc));
+
+      const insertMaterial = db.prepare(`
+        INSERT INTO materials (name, category_id, unit, stock, min_stock, location_id)
+        VALUES (?, ?, ?, ?, ?, (SELECT id FROM locations WHERE name = ?))
+      `);
+      insertMaterial.run("Resistor 220 Ohm", 1, "Pcs", 150, 50, "Rak A1");
+      insertMaterial.run("Kabel Jumper Male-Male", 2, "Set", 20, 10, "Rak B2");
+      insertMaterial.run("Multimeter Digital", 3, "Unit", 12, 5, "Lemari Alat");
+      insertMaterial.run("Arduino Uno R3", 4, "Unit", 8, 3, "Rak C1");
+      insertMaterial.run("Solder 40W", 5, "Unit", 15, 5, "Meja Kerja");
+      db.exec("INSERT INTO material_stocks (material_id, location_id, quantity) SELECT id, location_id, stock FROM materials WHERE location_id IS NOT NULL");
+    })();
+  }
+}
+
+async function startServer() {
+  runMigrations();
+  seedDb();
+  // Pick up alerts left undelivered by a previous run
+  dispatchLowStockAlerts();
+  
+  const app = express();
+  const PORT = 3000;
+
+  // Request logger
+  app.use((req, res, next) => {
+    console.log(`${req.method} ${req.url}`);
+    next();
+  });
+
+  app.use(express.json({ limit: '10mb' }));
+
+  // Serve images
+  app.use("/images", express.static(IMAGE_DIR));
+  app.use("/certificates", authenticate, express.static(CERTIFICATE_DIR));
+
+  app.use("/api", authenticate, authorizeWrites);
+
+  // API Routes
+  app.post("/api/auth/login", (req, res) => {
+    try {
+      const { username, password } = req.body;
+      if (!username || !password) {
+        return res.status(400).json({ error: "Username dan password wajib diisi." });
+      }
+      const user = db.prepare("SELECT * FROM users WHERE username = ? AND active = 1").get(username) as (SessionUser & { password_hash: string }) | undefined;
+      if (!user || !verifyPassword(password, user.password_hash)) {
+        return res.status(401).json({ error: "Username atau password salah." });
+      }
+
+      const token = crypto.randomBytes(32).toString("hex");
+      db.prepare("DELETE FROM sessions WHERE expires_at <= CURRENT_TIMESTAMP").run();
+      db.prepare(`INSERT INTO sessions (token, user_id, expires_at) VALUES (?, ?, datetime('now', '+${SESSION_TTL_DAYS} days'))`)
+        .run(token, user.id);
+
+      res.cookie(SESSION_COOKIE, token, {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        maxAge: SESSION_TTL_DAYS * 24 * 60 * 60 * 1000
+      });
+      res.json({ id: user.id, username: user.username, name: user.name, role: user.role });
+    } catch (error) {
+      console.error("Error logging in:", error);
+      res.status(500).json({ error: "Gagal login." });
+    }
+  });
+
+  app.post("/api/auth/logout", (req, res) => {
+    const token = getCookie(req, SESSION_COOKIE);
+    if (token) {
+      db.prepare("DELETE FROM sessions WHERE token = ?").run(token);
+    }
+    res.clearCookie(SESSION_COOKIE);
+    res.json({ success: true });
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    res.json(req.user);
+  });
+
+  app.get("/api/users", requireRole('admin'), (req, res) => {
+    const users = db.prepare("SELECT id, username, name, role, active, created_at FROM users ORDER BY username").all();
+    res.json(users);
+  });
+
+  app.post("/api/users", requireRole('admin'), (req, res) => {
+    try {
+      const { username, name, role, password } = req.body;
+      if (!username || !name || !password) {
+        return res.status(400).json({ error: "Username, nama dan password wajib diisi." });
+      }
+      if (!['admin', 'laboran', 'student'].includes(role)) {
+        return res.status(400).json({ error: "Peran pengguna tidak valid." });
+      }
+      const result = db.prepare("INSERT INTO users (username, name, role, password_hash) VALUES (?, ?, ?, ?)")
+        .run(username, name, role, hashPassword(password));
+      res.json({ id: result.lastInsertRowid });
+    } catch (error: any) {
+      console.error("Error creating user:", error);
+      if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+        return res.status(400).json({ error: "Username sudah digunakan." });
+      }
+      res.status(500).json({ error: "Gagal menambah pengguna." });
+    }
+  });
+
+  app.put("/api/users/:id", requireRole('admin'), (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const { name, role, password } = req.body;
+      const active = req.body.active === false || req.body.active === 0 ? 0 : 1;
+      if (!name) {
+        return res.status(400).json({ error: "Nama pengguna wajib diisi." });
+      }
+      if (!['admin', 'laboran', 'student'].includes(role)) {
+        return res.status(400).json({ error: "Peran pengguna tidak valid." });
+      }
+      if (id === req.user!.id && (role !== 'admin' || !active)) {
+        return res.status(400).json({ error: "Anda tidak dapat menurunkan peran atau menonaktifkan akun sendiri." });
+      }
+
+      const updateOp = db.transaction(() => {
+        db.prepare("UPDATE users SET name = ?, role = ?, active = ? WHERE id = ?").run(name, role, active, id);
+        if (password) {
+          db.prepare("UPDATE users SET password_hash = ? WHERE id = ?").run(hashPassword(password), id);
+        }
+        if (password || !active) {
+          db.prepare("DELETE FROM sessions WHERE user_id = ?").run(id);
+        }
+      });
+      updateOp();
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error updating user:", error);
+      res.status(500).json({ error: "Gagal memperbarui pengguna." });
+    }
+  });
+
+  app.delete("/api/users/:id", requireRole('admin'), (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "ID Pengguna tidak valid." });
+      }
+      if (id === req.user!.id) {
+        return res.status(400).json({ error: "Anda tidak dapat menghapus akun sendiri." });
+      }
+
+      const usage = db.prepare("SELECT COUNT(*) as count FROM transactions WHERE user_id = ?").get(id) as { count: number };
+      if (usage.count > 0) {
+        return res.status(400).json({
+          error: `Pengguna ini tercatat pada ${usage.count} transaksi.`,
+          details: "Nonaktifkan akun ini alih-alih menghapusnya agar riwayat transaksi tetap utuh."
+        });
+      }
+
+      // Any other table that points at the user (audit log, stock takes, procurement, loans, ...) keeps
+      // the account alive as well; sessions and notification subscriptions are removed along with it
+      const references = db.prepare(`
+        SELECT m.name as table_name, f."from" as column_name
+        FROM sqlite_master m, pragma_foreign_key_list(m.name) f
+        WHERE m.type = 'table' AND f."table" = 'users'
+          AND m.name NOT IN ('transactions', 'sessions', 'notification_subscriptions')
+      `).all() as { table_name: string; column_name: string }[];
+      const referenced = references.some(ref =>
+        db.prepare(`SELECT 1 FROM "${ref.table_name}" WHERE "${ref.column_name}" = ? LIMIT 1`).get(id)
+      );
+      if (referenced) {
+        return res.status(400).json({
+          error: "Pengguna ini masih tercatat pada riwayat aktivitas sistem.",
+          details: "Nonaktifkan akun ini alih-alih menghapusnya agar riwayat aktivitas tetap utuh."
+        });
+      }
+
+      const deleteOp = db.transaction(() => {
+        db.prepare("DELETE FROM sessions WHERE user_id = ?").run(id);
+        db.prepare("DELETE FROM notification_deliveries WHERE subscription_id IN (SELECT id FROM notification_subscriptions WHERE user_id = ?)").run(id);
+        db.prepare("DELETE FROM notification_subscriptions WHERE user_id = ?").run(id);
+        return db.prepare("DELETE FROM users WHERE id = ?").run(id).changes;
+      });
+      if (deleteOp() === 0) {
+        return res.status(404).json({ error: "Pengguna tidak ditemukan." });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting user:", error);
+      res.status(500).json({ error: "Gagal menghapus pengguna." });
+    }
+  });
+
+  app.get("/api/categories", (req, res) => {
+    const categories = db.prepare("SELECT * FROM categories").all();
+    res.json(categories);
+  });
+
+  app.get("/api/locations", (req, res) => {
+    const locations = db.prepare("SELECT * FROM locations").all();
+    res.json(locations);
+  });
+
+  app.post("/api/locations", (req, res) => {
+    try {
+      const { name } = req.body;
+      if (!name) {
+        return res.status(400).json({ error: "Nama lokasi wajib diisi." });
+      }
+      const createOp = db.transaction(() => {
+        const result = db.prepare("INSERT INTO locations (name) VALUES (?)").run(name);
+        writeAudit('location', result.lastInsertRowid, 'create', null, { id: result.lastInsertRowid, name }, req.user!.id);
+        return result.lastInsertRowid;
+      });
+      res.json({ id: createOp() });
+    } catch (error: any) {
+      console.error("Error creating location:", error);
+      if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+        return res.status(400).json({ error: "Nama lokasi sudah ada." });
+      }
+      res.status(500).json({ error: "Gagal menambah lokasi." });
+    }
+  });
+
+  app.put("/api/locations/:id", (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const { name } = req.body;
+      if (!name) {
+        return res.status(400).json({ error: "Nama lokasi wajib diisi." });
+      }
+      // Materials reference the location by id, so a rename shows up everywhere without touching them
+      const updateOp = db.transaction(() => {
+        const before = db.prepare("SELECT * FROM locations WHERE id = ?").get(id);
+        const result = db.prepare("UPDATE locations SET name = ? WHERE id = ?").run(name, id);
+        if (result.changes > 0) {
+          writeAudit('location', id, 'update', before, db.prepare("SELECT * FROM locations WHERE id = ?").get(id), req.user!.id);
+        }
+        return result.changes;
+      });
+      if (updateOp() === 0) {
+        return res.status(404).json({ error: "Lokasi tidak ditemukan." });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error updating location:", error);
+      if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+        return res.status(400).json({ error: "Nama lokasi sudah ada." });
+      }
+      res.status(500).json({ error: "Gagal memperbarui lokasi." });
+    }
+  });
+
+  app.delete("/api/locations/:id", requireRole('admin'), (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "ID Lokasi tidak valid." });
+      }
+      console.log(`Attempting to delete location with ID: ${id}`);
+      
+      // Check if location exists
+      const location = db.prepare("SELECT name FROM locations WHERE id = ?").get(id) as { name: string };
+      if (!location) {
+        return res.status(404).json({ error: "Lokasi tidak ditemukan." });
+      }
+
+      // Check if location is being used by any material
+      const usage = db.prepare("SELECT COUNT(*) as count FROM materials WHERE location_id = ?").get(id) as { count: number };
+      if (usage && usage.count > 0) {
+        return res.status(400).json({ 
+          error: `Lokasi ini masih digunakan oleh ${usage.count} barang.`,
+          details: "Anda harus memindahkan barang-barang tersebut ke lokasi lain sebelum bisa menghapus lokasi ini."
+        });
+      }
+
+      const stocked = db.prepare("SELECT COUNT(*) as count FROM material_stocks WHERE location_id = ? AND quantity != 0").get(id) as { count: number };
+      if (stocked.count > 0) {
+        return res.status(400).json({
+          error: `Lokasi ini masih menyimpan stok ${stocked.count} bahan.`,
+          details: "Pindahkan stok tersebut ke lokasi lain sebelum menghapus lokasi ini."
+        });
+      }
+
+      const history = db.prepare("SELECT COUNT(*) as count FROM transactions WHERE location_id = ?").get(id) as { count: number };
+      if (history.count > 0) {
+        return res.status(400).json({
+          error: `Lokasi ini tercatat pada ${history.count} transaksi.`,
+          details: "Lokasi yang memiliki riwayat transaksi tidak dapat dihapus agar riwayat stok per lokasi tetap utuh."
+        });
+      }
+      
+      const counted = db.prepare("SELECT COUNT(DISTINCT stock_take_id) as count FROM stock_take_counts WHERE location_id = ?").get(id) as { count: number };
+      if (counted.count > 0) {
+        return res.status(400).json({
+          error: `Lokasi ini tercatat pada ${counted.count} sesi stock opname.`,
+          details: "Lokasi yang pernah dihitung dalam stock opname tidak dapat dihapus agar hasil hitung tetap utuh."
+        });
+      }
+      
+      const deleteOp = db.transaction(() => {
+        db.prepare("DELETE FROM material_stocks WHERE location_id = ?").run(id);
+        writeAudit('location', id, 'delete', { id, name: location.name }, null, req.user!.id);
+        return db.prepare("DELETE FROM locations WHERE id = ?").run(id).changes;
+      });
+      console.log(`Deleted location. Changes: ${deleteOp()}`);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting location:", error);
+      res.status(500).json({ error: "Gagal menghapus lokasi." });
+    }
+  });
+
+  app.post("/api/categories", (req, res) => {
+    try {
+      const { name } = req.body;
+      if (!name) {
+        return res.status(400).json({ error: "Nama kategori wajib diisi." });
+      }
+      const createOp = db.transaction(() => {
+        const result = db.prepare("INSERT INTO categories (name) VALUES (?)").run(name);
+        writeAudit('category', result.lastInsertRowid, 'create', null, { id: result.lastInsertRowid, name }, req.user!.id);
+        return result.lastInsertRowid;
+      });
+      res.json({ id: createOp() });
+    } catch (error: any) {
+      console.error("Error creating category:", error);
+      if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+        return res.status(400).json({ error: "Nama kategori sudah ada." });
+      }
+      res.status(500).json({ error: "Gagal menambah kategori." });
+    }
+  });
+
+  app.put("/api/categories/:id", (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+      if (!name) {
+        return res.status(400).json({ error: "Nama kategori wajib diisi." });
+      }
+      const updateOp = db.transaction(() => {
+        const before = db.prepare("SELECT * FROM categories WHERE id = ?").get(id);
+        if (!before) return false;
+        db.prepare("UPDATE categories SET name = ? WHERE id = ?").run(name, id);
+        writeAudit('category', id, 'update', before, db.prepare("SELECT * FROM categories WHERE id = ?").get(id), req.user!.id);
+        return true;
+      });
+      if (!updateOp()) {
+        return res.status(404).json({ error: "Kategori tidak ditemukan." });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error updating category:", error);
+      if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+        return res.status(400).json({ error: "Nama kategori sudah ada." });
+      }
+      res.status(500).json({ error: "Gagal memperbarui kategori." });
+    }
+  });
+
+  app.delete("/api/categories/:id", requireRole('admin'), (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "ID Kategori tidak valid." });
+      }
+      console.log(`Attempting to delete category with ID: ${id}`);
+      
+      // Check if category exists
+      const category = db.prepare("SELECT * FROM categories WHERE id = ?").get(id);
+      if (!category) {
+        return res.status(404).json({ error: "Kategori tidak ditemukan." });
+      }
+
+      // Check if category is being used by any material
+      const usage = db.prepare("SELECT COUNT(*) as count FROM materials WHERE category_id = ?").get(id) as { count: number };
+      if (usage && usage.count > 0) {
+        return res.status(400).json({ 
+          error: `Kategori ini masih digunakan oleh ${usage.count} barang.`,
+          details: "Anda harus menghapus atau memindahkan barang-barang tersebut ke kategori lain sebelum bisa menghapus kategori ini."
+        });
+      }
+      
+      const deleteOp = db.transaction(() => {
+        db.prepare("DELETE FROM notification_deliveries WHERE subscription_id IN (SELECT id FROM notification_subscriptions WHERE category_id = ?)").run(id);
+        db.prepare("DELETE FROM notification_subscriptions WHERE category_id = ?").run(id);
+        writeAudit('category', id, 'delete', category, null, req.user!.id);
+        return db.prepare("DELETE FROM categories WHERE id = ?").run(id).changes;
+      });
+      console.log(`Deleted category. Changes: ${deleteOp()}`);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting category:", error);
+      res.status(500).json({ error: "Gagal menghapus kategori." });
+    }
+  });
+
+  app.get("/api/materials", (req, res) => {
+    try {
+      const { category_id, location_id, status } = req.query;
+      const conditions: string[] = [];
+      const params: (string | number)[] = [];
+      const match = typeof req.query.q === 'string' ? toFtsQuery(req.query.q) : null;
+      if (match) params.push(match);
+      if (category_id) {
+        conditions.push("m.category_id = ?");
+        params.push(Number(category_id));
+      }
+      if (location_id) {
+        // Either the home location or any shelf currently holding some of it
+        conditions.push("(m.location_id = ? OR EXISTS (SELECT 1 FROM material_stocks ms WHERE ms.material_id = m.id AND ms.location_id = ? AND ms.quantity != 0))");
+        params.push(Number(location_id), Number(location_id));
+      }
+      if (status === 'out') conditions.push("m.stock <= 0");
+      if (status === 'low') conditions.push("m.stock > 0 AND m.stock <= m.min_stock");
+      if (status === 'ok') conditions.push("m.stock > m.min_stock");
+
+      const from = `
+        FROM materials m 
+        LEFT JOIN categories c ON m.category_id = c.id
+        LEFT JOIN locations l ON m.location_id = l.id
+        LEFT JOIN (${RESERVATIONS_SQL}) r ON r.material_id = m.id
+        ${match ? "JOIN (SELECT rowid as material_id, bm25(materials_fts, 10.0, 2.0, 2.0, 1.0) as score FROM materials_fts WHERE materials_fts MATCH ?) s ON s.material_id = m.id" : ""}
+        ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+      `;
+      const sortKey = String(req.query.sort ?? (match ? 'relevance' : 'name'));
+      const sortColumn = sortKey === 'relevance' && match ? "s.score" : MATERIAL_SORT_COLUMNS[Object.hasOwn(MATERIAL_SORT_COLUMNS, sortKey) ? sortKey : 'name'];
+      const order = req.query.order === 'desc' ? 'DESC' : 'ASC';
+      const select = `SELECT m.*, c.name as category_name, l.name as location_name, COALESCE(r.reserved, 0) as reserved ${from} ORDER BY ${sortColumn} ${order}, m.id`;
+
+      if (req.query.page === undefined) {
+        return res.json(withMaterialDetails(db.prepare(select).all(...params) as MaterialRow[]));
+      }
+      const page = Math.max(parseInt(String(req.query.page)) || 1, 1);
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit)) || 25, 1), 100);
+      const { total } = db.prepare(`SELECT COUNT(*) as total ${from}`).get(...params) as { total: number };
+      const items = db.prepare(`${select} LIMIT ? OFFSET ?`).all(...params, limit, (page - 1) * limit) as MaterialRow[];
+      res.json({ items: withMaterialDetails(items), total, page, limit });
+    } catch (error) {
+      console.error("Error fetching materials:", error);
+      res.status(500).json({ error: "Gagal memuat daftar bahan." });
+    }
+  });
+
+  // Pickers and dashboard widgets only need the basics, not per-location stock, lots and units
+  app.get("/api/materials/options", (req, res) => {
+    try {
+      const materials = db.prepare(`
+        SELECT m.id, m.name, m.unit, m.category_id, c.name as category_name, m.stock, m.min_stock, m.target_stock, m.location_id,
+          m.image, m.thumbnail, m.track_lots, m.track_serials, COALESCE(r.reserved, 0) as reserved
+        FROM materials m
+        LEFT JOIN categories c ON m.category_id = c.id
+        LEFT JOIN (${RESERVATIONS_SQL}) r ON r.material_id = m.id
+        ORDER BY m.name, m.id
+      `).all();
+      res.json(materials);
+    } catch (error) {
+      console.error("Error fetching material options:", error);
+      res.status(500).json({ error: "Gagal memuat daftar bahan." });
+    }
+  });
+
+  // A single material with the same details as the list, e.g. for a scanned label
+  app.get("/api/materials/:id", (req, res) => {
+    try {
+      const material = db.prepare(`
+        SELECT m.*, c.name as category_name, l.name as location_name, COALESCE(r.reserved, 0) as reserved
+        FROM materials m
+        LEFT JOIN categories c ON m.category_id = c.id
+        LEFT JOIN locations l ON m.location_id = l.id
+        LEFT JOIN (${RESERVATIONS_SQL}) r ON r.material_id = m.id
+        WHERE m.id = ?
+      `).get(Number(req.params.id)) as MaterialRow | undefined;
+      if (!material) {
+        return res.status(404).json({ error: "Bahan tidak ditemukan." });
+      }
+      res.json(withMaterialDetails([material])[0]);
+    } catch (error) {
+      console.error("Error fetching material:", error);
+      res.status(500).json({ error: "Gagal memuat bahan." });
+    }
+  });
+
+  app.post("/api/materials", async (req, res) => {
+    try {
+      const { name, category_id, unit, min_stock, target_stock, location_id, image, track_lots, track_serials, notes } = req.body;
+      if (!name || !unit) {
+        return res.status(400).json({ error: "Nama dan Satuan wajib diisi." });
+      }
+      const calibrationInterval = parseCalibrationInterval(req.body.calibration_interval_days);
+      if (calibrationInterval === undefined) {
+        return res.status(400).json({ error: "Interval kalibrasi harus bilangan bulat positif (hari)." });
+      }
+      if (location_id && !db.prepare("SELECT id FROM locations WHERE id = ?").get(location_id)) {
+        return res.status(400).json({ error: "Lokasi tidak ditemukan." });
+      }
+      if (track_lots && track_serials) {
+        return res.status(400).json({ error: "Bahan tidak dapat dilacak per lot dan per nomor seri sekaligus." });
+      }
+      // Uploads arrive as data URLs; any other value is an image URL kept as given
+      const uploaded = typeof image === 'string' && image.startsWith("data:") ? await saveImage(image) : null;
+      const stored = uploaded ?? { image: image || null, thumbnail: null };
+      const createOp = db.transaction(() => {
+        const result = db.prepare(
+          "INSERT INTO materials (name, category_id, unit, min_stock, target_stock, location_id, image, thumbnail, track_lots, track_serials, calibration_interval_days, notes) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)"
+        ).run(name, category_id, unit, min_stock, target_stock || null, location_id || null, stored.image, stored.thumbnail, track_lots ? 1 : 0, track_serials ? 1 : 0, calibrationInterval, notes?.trim() || null);
+        writeAudit('material', result.lastInsertRowid, 'create', null, db.prepare("SELECT * FROM materials WHERE id = ?").get(result.lastInsertRowid), req.user!.id);
+        return result.lastInsertRowid;
+      });
+      let id: number | bigint;
+      try {
+        id = createOp();
+      } catch (error) {
+        if (uploaded) removeImage(uploaded);
+        throw error;
+      }
+      res.json({ id });
+    } catch (error) {
+      if (error instanceof UploadError) {
+        return res.status(400).json({ error: error.message, details: error.details });
+      }
+      console.error("Error creating material:", error);
+      res.status(500).json({ error: "Gagal membuat bahan baru." });
+    }
+  });
+
+  app.put("/api/materials/:id", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const { name, category_id, unit, min_stock, target_stock, location_id, image, track_lots, track_serials, notes } = req.body;
+      
+      if (!name || !unit) {
+        return res.status(400).json({ error: "Nama dan Satuan wajib diisi." });
+      }
+      const calibrationInterval = parseCalibrationInterval(req.body.calibration_interval_days);
+      if (calibrationInterval === undefined) {
+        return res.status(400).json({ error: "Interval kalibrasi harus bilangan bulat positif (hari)." });
+      }
+      if (location_id && !db.prepare("SELECT id FROM locations WHERE id = ?").get(location_id)) {
+        return res.status(400).json({ error: "Lokasi tidak ditemukan." });
+      }
+      if (track_lots && track_serials) {
+        return res.status(400).json({ error: "Bahan tidak dapat dilacak per lot dan per nomor seri sekaligus." });
+      }
+      const current = db.prepare("SELECT stock, track_serials, image, thumbnail FROM materials WHERE id = ?").get(id) as { stock: number, track_serials: number, image: string | null, thumbnail: string | null } | undefined;
+      if (!current) {
+        return res.status(404).json({ error: "Bahan tidak ditemukan." });
+      }
+      // Stock of a serialized material is its count of available units, so switching over has to start from zero
+      if (track_serials && !current.track_serials) {
+        const activeLoans = db.prepare("SELECT COUNT(*) as count FROM loans WHERE material_id = ? AND return_date IS NULL").get(id) as { count: number };
+        if (current.stock !== 0 || activeLoans.count > 0) {
+          return res.status(400).json({
+            error: `Stok bahan ini masih ${current.stock} dan belum terdaftar per unit.`,
+            details: "Selesaikan peminjaman aktif dan keluarkan atau sesuaikan stok hingga 0, aktifkan pelacakan nomor seri, lalu daftarkan setiap unit dengan nomor serinya."
+          });
+        }
+      }
+      if (!track_serials && current?.track_serials) {
+        const heldUnits = db.prepare("SELECT COUNT(*) as count FROM material_assets WHERE material_id = ? AND status != 'out'").get(id) as { count: number };
+        if (heldUnits.count > 0) {
+          return res.status(400).json({
+            error: `Bahan ini masih memiliki ${heldUnits.count} unit di stok atau dipinjam.`,
+            details: "Keluarkan semua unit sebelum menonaktifkan pelacakan nomor seri."
+          });
+        }
+      }
+      if (!track_lots) {
+        const openLots = db.prepare("SELECT COUNT(*) as count FROM material_lots WHERE material_id = ? AND quantity > 0").get(id) as { count: number };
+        if (openLots.count > 0) {
+          return res.status(400).json({
+            error: `Bahan ini masih memiliki ${openLots.count} lot bersisa.`,
+            details: "Habiskan atau sesuaikan stok lot tersebut sebelum menonaktifkan pelacakan lot."
+          });
+        }
+      }
+
+      // A new upload replaces both files; resending the current URL keeps its thumbnail
+      const uploaded = typeof image === 'string' && image.startsWith("data:") ? await saveImage(image) : null;
+      const stored = uploaded ?? { image: image || null, thumbnail: image && image === current.image ? current.thumbnail : null };
+
+      const updateOp = db.transaction(() => {
+        const before = db.prepare("SELECT * FROM materials WHERE id = ?").get(id);
+        db.prepare(
+          "UPDATE materials SET name = ?, category_id = ?, unit = ?, min_stock = ?, target_stock = ?, location_id = ?, image = ?, thumbnail = ?, track_lots = ?, track_serials = ?, calibration_interval_days = ?, notes = ? WHERE id = ?"
+        ).run(name, category_id, unit, min_stock, target_stock || null, location_id || null, stored.image, stored.thumbnail, track_lots ? 1 : 0, track_serials ? 1 : 0, calibrationInterval, notes?.trim() || null, id);
+        writeAudit('material', id, 'update', before, db.prepare("SELECT * FROM materials WHERE id = ?").get(id), req.user!.id);
+      });
+      try {
+        updateOp();
+      } catch (error) {
+        if (uploaded) removeImage(uploaded);
+        throw error;
+      }
+      // The old files go only once the row no longer points at them
+      if (current.image !== stored.image) {
+        removeImage(current);
+      }
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof UploadError) {
+        return res.status(400).json({ error: error.message, details: error.details });
+      }
+      console.error("Error updating material:", error);
+      res.status(500).json({ error: "Gagal memperbarui bahan." });
+    }
+  });
+
+  app.post("/api/materials/import", async (req, res) => {
+    try {
+      const { file_name, data, mapping: requestedMapping } = req.body;
+      const dryRun = req.body.dry_run !== false;
+      if (!file_name || !data) {
+        return res.status(400).json({ error: "File impor wajib diunggah." });
+      }
+
+      const base64 = String(data).includes(",") ? String(data).split(",")[1] : String(data);
+      let table: string[][];
+      try {
+        table = await readSpreadsheet(file_name, Buffer.from(base64, "base64"));
+      } catch (error: any) {
+        if (error.message === "UNSUPPORTED_FORMAT") {
+          return res.status(400).json({ error: "Format file tidak didukung. Gunakan CSV atau XLSX." });
+        }
+        console.error("Error reading import file:", error);
+        return res.status(400).json({ error: "File tidak dapat dibaca. Pastikan file CSV/XLSX valid." });
+      }
+      if (table.length < 2) {
+        return res.status(400).json({ error: "File tidak berisi baris data." });
+      }
+
+      const [headerRow, ...dataRows] = table;
+      const headers = headerRow.map(h => String(h).trim());
+      const mapping: Partial<Record<ImportField, number>> = requestedMapping && typeof requestedMapping === 'object'
+        ? Object.fromEntries(Object.entries(requestedMapping).filter(([, v]) => Number.isInteger(v) && (v as number) >= 0))
+        : detectImportMapping(headers);
+
+      if (mapping.name === undefined || mapping.unit === undefined) {
+        return res.status(400).json({
+          error: "Kolom nama bahan dan satuan tidak ditemukan.",
+          details: "Sesuaikan pemetaan kolom lalu coba lagi.",
+          headers,
+          mapping
+        });
+      }
+
+      const result = validateImportRows(dataRows, mapping);
+      const errorCount = result.rows.filter(r => r.errors.length > 0).length;
+      const summary = {
+        headers,
+        mapping,
+        rows: result.rows,
+        valid_count: result.rows.length - errorCount,
+        error_count: errorCount,
+        new_categories: result.newCategories,
+        new_locations: result.newLocations
+      };
+
+      if (dryRun) {
+        return res.json(summary);
+      }
+      if (errorCount > 0) {
+        return res.status(400).json({ ...summary, error: `Terdapat ${errorCount} baris bermasalah. Perbaiki file lalu impor ulang.` });
+      }
+
+      const userId = req.user!.id;
+      const importOp = db.transaction(() => {
+        const categoryIds = new Map<string, number | bigint>([...result.categories].map(([key, c]) => [key, c.id]));
+        const locationIds = new Map<string, number | bigint>([...result.locations].map(([key, l]) => [key, l.id]));
+
+        result.newCategories.forEach(name => {
+          const created = db.prepare("INSERT INTO categories (name) VALUES (?)").run(name);
+          writeAudit('category', created.lastInsertRowid, 'create', null, { id: created.lastInsertRowid, name }, userId);
+          categoryIds.set(name.toLowerCase(), created.lastInsertRowid);
+        });
+        result.newLocations.forEach(name => {
+          const created = db.prepare("INSERT INTO locations (name) VALUES (?)").run(name);
+          writeAudit('location', created.lastInsertRowid, 'create', null, { id: created.lastInsertRowid, name }, userId);
+          locationIds.set(name.toLowerCase(), created.lastInsertRowid);
+        });
+
+        const insertMaterial = db.prepare("INSERT INTO materials (name, category_id, unit, stock, min_stock, location_id) VALUES (?, ?, ?, 0, ?, ?)");
+        result.rows.forEach(row => {
+          const created = insertMaterial.run(
+            row.name,
+            row.category ? categoryIds.get(row.category.toLowerCase()) : null,
+            row.unit,
+            row.min_stock,
+            row.location ? locationIds.get(row.location.toLowerCase()) : null
+          );
+          writeAudit('material', created.lastInsertRowid, 'create', null, db.prepare("SELECT * FROM materials WHERE id = ?").get(created.lastInsertRowid), userId);
+          if (row.stock > 0) {
+            recordTransaction({ material_id: created.lastInsertRowid, type: 'IN', quantity: row.stock, notes: `Stok awal (impor ${file_name})` }, { userId });
+          }
+        });
+        return result.rows.length;
+      });
+
+      res.json({ ...summary, imported: importOp() });
+    } catch (error) {
+      console.error("Error importing materials:", error);
+      res.status(500).json({ error: "Gagal mengimpor bahan." });
+    }
+  });
+
+  app.delete("/api/materials/:id", requireRole('admin'), (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "ID Bahan tidak valid." });
+      }
+      console.log(`Attempting to delete material with ID: ${id}`);
+      
+      // Check if material exists
+      const material = db.prepare("SELECT * FROM materials WHERE id = ?").get(id) as { image: string | null, thumbnail: string | null } | undefined;
+      if (!material) {
+        return res.status(404).json({ error: "Bahan tidak ditemukan." });
+      }
+
+      // Check if material is still out on loan
+      const activeLoans = db.prepare("SELECT COUNT(*) as count FROM loans WHERE material_id = ? AND return_date IS NULL").get(id) as { count: number };
+      if (activeLoans.count > 0) {
+        return res.status(400).json({
+          error: `Bahan ini masih dipinjam dalam ${activeLoans.count} peminjaman aktif.`,
+          details: "Selesaikan pengembalian terlebih dahulu sebelum menghapus bahan ini."
+        });
+      }
+
+      // Purchase orders are supplier-facing records, so they are never deleted along with the material
+      const orderLines = db.prepare("SELECT COUNT(*) as count FROM purchase_order_lines WHERE material_id = ?").get(id) as { count: number };
+      if (orderLines.count > 0) {
+        return res.status(400).json({
+          error: `Bahan ini tercatat pada ${orderLines.count} baris pesanan pembelian.`,
+          details: "Bahan yang pernah dipesan dari pemasok tidak dapat dihapus agar riwayat penerimaan tetap utuh."
+        });
+      }
+
+      // Approved stock takes stay available for later audits, counts included
+      const approvedCounts = db.prepare(`
+        SELECT COUNT(DISTINCT c.stock_take_id) as count FROM stock_take_counts c
+        JOIN stock_takes s ON c.stock_take_id = s.id
+        WHERE c.material_id = ? AND s.status = 'approved'
+      `).get(id) as { count: number };
+      if (approvedCounts.count > 0) {
+        return res.status(400).json({
+          error: `Bahan ini tercatat pada ${approvedCounts.count} stock opname yang sudah disetujui.`,
+          details: "Bahan yang pernah dihitung dalam stock opname yang disetujui tidak dapat dihapus agar hasil hitung tetap utuh."
+        });
+      }
+
+      // Submitted requests are procurement documents too; only drafts may lose a line with the material
+      const requestItems = db.prepare(`
+        SELECT COUNT(DISTINCT pri.purchase_request_id) as count FROM purchase_request_items pri
+        JOIN purchase_requests pr ON pri.purchase_request_id = pr.id
+        WHERE pri.material_id = ? AND pr.status != 'draft'
+      `).get(id) as { count: number };
+      if (requestItems.count > 0) {
+        return res.status(400).json({
+          error: `Bahan ini tercatat pada ${requestItems.count} permintaan pembelian yang sudah diajukan.`,
+          details: "Bahan yang pernah diajukan untuk dibeli tidak dapat dihapus agar dokumen pengadaan tetap utuh."
+        });
+      }
+
+      const reservations = db.prepare(`
+        SELECT COUNT(*) as count FROM practicum_session_materials psm
+        JOIN practicum_sessions ps ON psm.session_id = ps.id
+        WHERE psm.material_id = ? AND ps.status = 'scheduled'
+      `).get(id) as { count: number };
+      if (reservations.count > 0) {
+        return res.status(400).json({
+          error: `Bahan ini dipesan oleh ${reservations.count} sesi praktikum terjadwal.`,
+          details: "Mulai, batalkan, atau ubah sesi tersebut terlebih dahulu."
+        });
+      }
+
+      const kitUsage = db.prepare(`
+        SELECT GROUP_CONCAT(k.name, ', ') as names FROM kit_components kc JOIN kits k ON kc.kit_id = k.id WHERE kc.material_id = ?
+      `).get(id) as { names: string | null };
+      if (kitUsage.names) {
+        return res.status(400).json({
+          error: "Bahan ini masih menjadi komponen kit praktikum.",
+          details: `Keluarkan bahan ini dari kit berikut terlebih dahulu: ${kitUsage.names}.`
+        });
+      }
+
+      // Also delete related transactions and loan history to maintain referential integrity
+      const deleteOp = db.transaction(() => {
+        const photos = db.prepare("SELECT photo as image, photo_thumbnail as thumbnail FROM transactions WHERE material_id = ? AND photo IS NOT NULL")
+          .all(id) as { image: string | null, thumbnail: string | null }[];
+        const certificates = db.prepare("SELECT certificate FROM maintenance_records WHERE material_id = ? AND certificate IS NOT NULL")
+          .all(id) as { certificate: string }[];
+        db.prepare("DELETE FROM loan_assets WHERE loan_id IN (SELECT id FROM loans WHERE material_id = ?)").run(id);
+        db.prepare("DELETE FROM loans WHERE material_id = ?").run(id);
+        db.prepare("DELETE FROM stock_take_counts WHERE material_id = ?").run(id);
+        db.prepare("DELETE FROM notification_deliveries WHERE alert_id IN (SELECT id FROM low_stock_alerts WHERE material_id = ?)").run(id);
+        db.prepare("DELETE FROM low_stock_alerts WHERE material_id = ?").run(id);
+        db.prepare("DELETE FROM purchase_request_items WHERE material_id = ?").run(id);
+        db.prepare("DELETE FROM practicum_session_materials WHERE material_id = ?").run(id);
+        db.prepare("DELETE FROM material_stocks WHERE material_id = ?").run(id);
+        db.prepare("DELETE FROM transaction_lots WHERE lot_id IN (SELECT id FROM material_lots WHERE material_id = ?)").run(id);
+        db.prepare("DELETE FROM material_lots WHERE material_id = ?").run(id);
+        db.prepare("UPDATE transactions SET maintenance_record_id = NULL WHERE material_id = ?").run(id);
+        db.prepare("DELETE FROM maintenance_records WHERE material_id = ?").run(id);
+        db.prepare("DELETE FROM transaction_assets WHERE asset_id IN (SELECT id FROM material_assets WHERE material_id = ?)").run(id);
+        db.prepare("DELETE FROM material_assets WHERE material_id = ?").run(id);
+        const transactions = db.prepare("SELECT * FROM transactions WHERE material_id = ?").all(id) as { id: number }[];
+        transactions.forEach(t => writeAudit('transaction', t.id, 'delete', t, null, req.user!.id));
+        db.prepare("DELETE FROM transactions WHERE material_id = ?").run(id);
+        db.prepare("DELETE FROM stock_transfers WHERE material_id = ?").run(id);
+        writeAudit('material', id, 'delete', material, null, req.user!.id);
+        const result = db.prepare("DELETE FROM materials WHERE id = ?").run(id);
+        return { changes: result.changes, photos, certificates };
+      });
+      
+      const { changes, photos, certificates } = deleteOp();
+      // Files go only after the rows pointing at them are gone
+      removeImage(material);
+      photos.forEach(removeImage);
+      certificates.forEach(c => removeCertificate(c.certificate));
+      console.log(`Deleted material. Changes: ${changes}`);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting material:", error);
+      res.status(500).json({ error: "Gagal menghapus bahan." });
+    }
+  });
+
+  app.get("/api/transactions", (req, res) => {
+    try {
+      const { sortColumn, order } = getTransactionSort(req.query);
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit), 10) || 25, 1), 100);
+      const { conditions, params } = buildTransactionFilters(req.query);
+      const { cursor } = req.query;
+
+      // Keyset cursor: the sort value and id of the last row on the previous page
+      if (typeof cursor === 'string' && cursor) {
+        let decoded: { v: string | number, id: number };
+        try {
+          decoded = JSON.parse(Buffer.from(cursor, "base64url").toString());
+        } catch {
+          return res.status(400).json({ error: "Cursor tidak valid." });
+        }
+        if (typeof decoded !== 'object' || decoded === null || !['string', 'number'].includes(typeof decoded.v) || !Number.isInteger(decoded.id)) {
+          return res.status(400).json({ error: "Cursor tidak valid." });
+        }
+        const op = order === 'ASC' ? '>' : '<';
+        conditions.push(`(${sortColumn} ${op} ? OR (${sortColumn} = ? AND t.id ${op} ?))`);
+        params.push(decoded.v, decoded.v, decoded.id);
+      }
+
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+      const rows = db.prepare(`
+        SELECT t.*, m.name as material_name, m.unit as material_unit, loc.name as location_name, c.name as category_name,
+          u.name as user_name, pol.purchase_order_id, sup.name as supplier_name, kit.name as kit_name,
+          ps.course as practicum_course, ps.class_name as practicum_class,
+          CASE WHEN t.quantity < 0 THEN tl_to.name ELSE tl_from.name END as transfer_counterpart,
+          (SELECT GROUP_CONCAT(ml.lot_number, ', ') FROM transaction_lots tlot JOIN material_lots ml ON tlot.lot_id = ml.id WHERE tlot.transaction_id = t.id) as lot_numbers,
+          (SELECT GROUP_CONCAT(a.serial_number, ', ') FROM transaction_assets ta JOIN material_assets a ON ta.asset_id = a.id WHERE ta.transaction_id = t.id) as serial_numbers,
+          ${sortColumn} as sort_value
+        FROM transactions t
+        JOIN materials m ON t.material_id = m.id
+        LEFT JOIN categories c ON m.category_id = c.id
+        LEFT JOIN locations loc ON t.location_id = loc.id
+        LEFT JOIN stock_transfers st ON t.transfer_id = st.id
+        LEFT JOIN locations tl_from ON st.from_location_id = tl_from.id
+        LEFT JOIN locations tl_to ON st.to_location_id = tl_to.id
+        LEFT JOIN purchase_order_lines pol ON t.purchase_order_line_id = pol.id
+        LEFT JOIN purchase_orders po ON pol.purchase_order_id = po.id
+        LEFT JOIN suppliers sup ON po.supplier_id = sup.id
+        LEFT JOIN kit_checkouts kco ON t.kit_checkout_id = kco.id
+        LEFT JOIN kits kit ON kco.kit_id = kit.id
+        LEFT JOIN practicum_sessions ps ON t.practicum_session_id = ps.id
+        LEFT JOIN users u ON t.user_id = u.id
+        ${where}
+        ORDER BY ${sortColumn} ${order}, t.id ${order}
+        LIMIT ?
+      `).all(...params, limit + 1) as TransactionListRow[];
+
+      const hasMore = rows.length > limit;
+      const items = rows.slice(0, limit).map(({ sort_value, ...row }) => row);
+      const last = hasMore ? rows[limit - 1] : null;
+      const nextCursor = last
+        ? Buffer.from(JSON.stringify({ v: last.sort_value, id: last.id })).toString("base64url")
+        : null;
+
+      res.json({ items, nextCursor });
+    } catch (error) {
+      console.error("Error fetching transactions:", error);
+      res.status(500).json({ error: "Gagal memuat riwayat transaksi." });
+    }
+  });
+
+  app.post("/api/transactions", async (req, res) => {
+    try {
+      if (req.body.type === 'ADJUSTMENT' && req.user!.role !== 'admin') {
+        return res.status(403).json({ error: "Hanya admin yang dapat membuat penyesuaian stok." });
+      }
+      if (req.body.reason_code === 'stock_opname') {
+        return res.status(400).json({ error: "Selisih stock opname hanya dicatat saat stock opname disetujui." });
+      }
+      const allowNegative = req.body.allow_negative === true;
+      if (allowNegative && req.user!.role !== 'admin') {
+        return res.status(403).json({ error: "Hanya admin yang dapat mengizinkan stok negatif." });
+      }
+      // Automatic receipts (returns, stock takes) may stay outside a lot, but a manual receipt has to name one
+      const tracked = db.prepare("SELECT track_lots FROM materials WHERE id = ?").get(Number(req.body.material_id)) as { track_lots: number } | undefined;
+      if ((req.body.type === 'IN' || req.body.type === 'RETURN') && tracked?.track_lots && !req.body.lot_number && !req.body.lot_id) {
+        return res.status(400).json({ error: "Nomor lot wajib diisi untuk bahan ini." });
+      }
+      const photo = req.body.photo ? await saveImage(req.body.photo) : null;
+      let id: number | bigint;
+      try {
+        id = recordTransaction(req.body, { allowNegative, userId: req.user!.id, photo });
+      } catch (error) {
+        // The client retries (e.g. with the negative-stock override) and uploads the photo again
+        if (photo) removeImage(photo);
+        throw error;
+      }
+      res.json({ success: true, id });
+    } catch (error) {
+      if (error instanceof TransactionError) {
+        return sendTransactionError(res, error);
+      }
+      if (error instanceof UploadError) {
+        return res.status(400).json({ error: error.message, details: error.details });
+      }
+      console.error("Error processing transaction:", error);
+      res.status(500).json({ error: "Gagal memproses transaksi." });
+    }
+  });
+
+  app.post("/api/transfers", (req, res) => {
+    try {
+      const id = recordTransfer(req.body, { userId: req.user!.id });
+      res.json({ success: true, id });
+    } catch (error) {
+      if (error instanceof TransactionError) {
+        return sendTransactionError(res, error);
+      }
+      console.error("Error processing transfer:", error);
+      res.status(500).json({ error: "Gagal memindahkan stok." });
+    }
+  });
+
+  app.get("/api/lots/expiring", (req, res) => {
+    const days = Math.max(parseInt(String(req.query.days), 10) || EXPIRY_WARNING_DAYS, 0);
+    const lots = db.prepare(`
+      SELECT ml.*, m.name as material_name, m.unit,
+        CAST(julianday(ml.expiry_date) - julianday(date('now')) AS INTEGER) as days_left
+      FROM material_lots ml
+      JOIN materials m ON ml.material_id = m.id
+      WHERE ml.quantity > 0 AND ml.expiry_date IS NOT NULL AND ml.expiry_date <= date('now', ?)
+      ORDER BY ml.expiry_date, m.name
+    `).all(`+${days} days`);
+    res.json(lots);
+  });
+
+  app.get("/api/materials/:id/assets", (req, res) => {
+    const assets = db.prepare(`${ASSET_LIST_SQL} WHERE a.material_id = ? ORDER BY a.serial_number`).all(Number(req.params.id));
+    res.json(assets);
+  });
+
+  // Registering a unit is its receipt into stock, so it goes through the ledger like any other IN
+  app.post("/api/materials/:id/assets", (req, res) => {
+    try {
+      const materialId = Number(req.params.id);
+      const { serial_number, inventory_number, purchase_date, condition, location_id, notes } = req.body;
+      const serialNumber = typeof serial_number === 'string' ? serial_number.trim() : '';
+      if (!serialNumber) {
+        return res.status(400).json({ error: "Nomor seri wajib diisi." });
+      }
+      if (condition !== undefined && !ASSET_CONDITIONS.includes(condition)) {
+        return res.status(400).json({ error: "Kondisi unit tidak valid." });
+      }
+      if (purchase_date && !/^\d{4}-\d{2}-\d{2}$/.test(purchase_date)) {
+        return res.status(400).json({ error: "Tanggal pembelian tidak valid." });
+      }
+      const material = db.prepare("SELECT name, track_serials FROM materials WHERE id = ?").get(materialId) as { name: string, track_serials: number } | undefined;
+      if (!material) {
+        return res.status(404).json({ error: "Bahan tidak ditemukan." });
+      }
+      if (!material.track_serials) {
+        return res.status(400).json({ error: `${material.name} tidak menggunakan pelacakan nomor seri.` });
+      }
+
+      const registerOp = db.transaction(() => {
+        const transactionId = recordTransaction({
+          material_id: materialId,
+          type: 'IN',
+          quantity: 1,
+          serial_numbers: [serialNumber],
+          location_id,
+          notes: notes || `Registrasi unit ${serialNumber}`
+        }, { userId: req.user!.id });
+        const { asset_id } = db.prepare("SELECT asset_id FROM transaction_assets WHERE transaction_id = ?").get(transactionId) as { asset_id: number };
+        db.prepare("UPDATE material_assets SET inventory_number = ?, purchase_date = ?, condition = ?, notes = ? WHERE id = ?")
+          .run(inventory_number || null, purchase_date || null, condition || 'baik', notes || null, asset_id);
+        writeAudit('asset', asset_id, 'create', null, db.prepare("SELECT * FROM material_assets WHERE id = ?").get(asset_id), req.user!.id);
+        return asset_id;
+      });
+      res.json({ id: registerOp() });
+    } catch (error: any) {
+      if (error instanceof TransactionError) {
+        return sendTransactionError(res, error);
+      }
+      console.error("Error registering asset:", error);
+      if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+        return res.status(400).json({ error: "Nomor inventaris sudah dipakai unit lain." });
+      }
+      res.status(500).json({ error: "Gagal mendaftarkan unit." });
+    }
+  });
+
+  app.put("/api/assets/:id", (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const { serial_number, inventory_number, purchase_date, condition, notes } = req.body;
+      const serialNumber = typeof serial_number === 'string' ? serial_number.trim() : '';
+      if (!serialNumber) {
+        return res.status(400).json({ error: "Nomor seri wajib diisi." });
+      }
+      if (!ASSET_CONDITIONS.includes(condition)) {
+        return res.status(400).json({ error: "Kondisi unit tidak valid." });
+      }
+      if (purchase_date && !/^\d{4}-\d{2}-\d{2}$/.test(purchase_date)) {
+        return res.status(400).json({ error: "Tanggal pembelian tidak valid." });
+      }
+      const before = db.prepare("SELECT * FROM material_assets WHERE id = ?").get(id);
+      if (!before) {
+        return res.status(404).json({ error: "Unit tidak ditemukan." });
+      }
+      const updateOp = db.transaction(() => {
+        db.prepare("UPDATE material_assets SET serial_number = ?, inventory_number = ?, purchase_date = ?, condition = ?, notes = ? WHERE id = ?")
+          .run(serialNumber, inventory_number || null, purchase_date || null, condition, notes || null, id);
+        writeAudit('asset', id, 'update', before, db.prepare("SELECT * FROM material_assets WHERE id = ?").get(id), req.user!.id);
+      });
+      updateOp();
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error updating asset:", error);
+      if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+        return res.status(400).json({ error: "Nomor seri atau nomor inventaris sudah ada." });
+      }
+      res.status(500).json({ error: "Gagal memperbarui unit." });
+    }
+  });
+
+  app.get("/api/maintenance", (req, res) => {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (req.query.material_id) {
+      conditions.push("r.material_id = ?");
+      params.push(Number(req.query.material_id));
+    }
+    if (req.query.asset_id) {
+      conditions.push("r.asset_id = ?");
+      params.push(Number(req.query.asset_id));
+    }
+    if (req.query.status === 'in_service' || req.query.status === 'completed') {
+      conditions.push("r.status = ?");
+      params.push(req.query.status);
+    }
+    const records = db.prepare(`
+      SELECT r.*, m.name as material_name, a.serial_number, uc.name as created_by_name, ud.name as completed_by_name
+      FROM maintenance_records r
+      JOIN materials m ON r.material_id = m.id
+      LEFT JOIN material_assets a ON r.asset_id = a.id
+      LEFT JOIN users uc ON r.created_by = uc.id
+      LEFT JOIN users ud ON r.completed_by = ud.id
+      ${conditions.length ? `WHERE ${conditions.join(" AND ")}` : ""}
+      ORDER BY r.status = 'in_service' DESC, r.sent_date DESC, r.id DESC
+    `).all(...params);
+    res.json(records);
+  });
+
+  app.get("/api/maintenance/due", (req, res) => {
+    const days = Math.max(parseInt(String(req.query.days), 10) || CALIBRATION_WARNING_DAYS, 0);
+    const due = db.prepare(`
+      ${CALIBRATION_DUE_SQL}
+      WHERE next_due IS NULL OR next_due <= date('now', ?)
+      ORDER BY next_due IS NOT NULL, next_due, material_name, serial_number
+    `).all(`+${days} days`);
+    res.json(due);
+  });
+
+  /**
+   * Logs a calibration, repair or service. A record without a completion date
+   * means the item is away: a serialized unit then leaves stock through an OUT
+   * and is marked 'service' until the record is completed.
+   */
+  app.post("/api/maintenance", (req, res) => {
+    try {
+      const { type, vendor, notes, result } = req.body;
+      const materialId = Number(req.body.material_id);
+      const assetId = req.body.asset_id ? Number(req.body.asset_id) : null;
+      const completedDate = req.body.completed_date || null;
+      const sentDate = req.body.sent_date || completedDate || new Date().toISOString().slice(0, 10);
+      if (typeof type !== 'string' || !Object.hasOwn(MAINTENANCE_TYPE_LABELS, type)) {
+        return res.status(400).json({ error: "Jenis pemeliharaan tidak valid." });
+      }
+      if (!DATE_PATTERN.test(sentDate) || (completedDate && !DATE_PATTERN.test(completedDate))) {
+        return res.status(400).json({ error: "Tanggal tidak valid." });
+      }
+      if (completedDate && completedDate < sentDate) {
+        return res.status(400).json({ error: "Tanggal selesai tidak boleh sebelum tanggal mulai." });
+      }
+      const material = db.prepare("SELECT name, track_serials FROM materials WHERE id = ?").get(materialId) as { name: string, track_serials: number } | undefined;
+      if (!material) {
+        return res.status(404).json({ error: "Bahan tidak ditemukan." });
+      }
+      if (material.track_serials && assetId === null) {
+        return res.status(400).json({ error: `Pilih unit ${material.name} yang dipelihara.` });
+      }
+      if (!material.track_serials && assetId !== null) {
+        return res.status(400).json({ error: `${material.name} tidak menggunakan pelacakan nomor seri.` });
+      }
+      const asset = assetId === null ? null : db.prepare("SELECT id, serial_number, status FROM material_assets WHERE id = ? AND material_id = ?").get(assetId, materialId) as
+        { id: number, serial_number: string, status: string } | undefined;
+      if (asset === undefined) {
+        return res.status(400).json({ error: "Unit tidak ditemukan untuk bahan ini." });
+      }
+      if (asset && !completedDate && asset.status !== 'available') {
+        return res.status(409).json({
+          error: `Unit ${asset.serial_number} tidak sedang berada di stok.`,
+          details: asset.status === 'service' ? "Unit ini masih dalam pemeliharaan." : "Unit yang dipinjam atau sudah keluar tidak dapat dikirim untuk pemeliharaan."
+        });
+      }
+      const certificate = saveCertificate(req.body.certificate);
+
+      const createOp = db.transaction(() => {
+        const created = db.prepare(`
+          INSERT INTO maintenance_records (material_id, asset_id, type, status, sent_date, completed_date, vendor, result, certificate, notes, created_by, completed_by)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+          materialId, assetId, type, completedDate ? 'completed' : 'in_service', sentDate, completedDate,
+          vendor || null, result || null, certificate, notes || null, req.user!.id, completedDate ? req.user!.id : null
+        );
+        if (asset && !completedDate) {
+          recordTransaction({
+            material_id: materialId,
+            type: 'OUT',
+            quantity: 1,
+            asset_ids: [asset.id],
+            notes: `${MAINTENANCE_TYPE_LABELS[type as MaintenanceType]}${vendor ? ` di ${vendor}` : ""}`
+          }, { userId: req.user!.id, maintenanceRecordId: created.lastInsertRowid });
+          db.prepare("UPDATE material_assets SET status = 'service' WHERE id = ?").run(asset.id);
+        }
+        writeAudit('maintenance', created.lastInsertRowid, 'create', null, db.prepare("SELECT * FROM maintenance_records WHERE id = ?").get(created.lastInsertRowid), req.user!.id);
+        return created.lastInsertRowid;
+      });
+      let id: number | bigint;
+      try {
+        id = createOp();
+      } catch (error) {
+        removeCertificate(certificate);
+        throw error;
+      }
+      res.json({ id });
+    } catch (error) {
+      if (error instanceof TransactionError) {
+        return sendTransactionError(res, error);
+      }
+      if (error instanceof UploadError) {
+        return res.status(400).json({ error: error.message, details: error.details });
+      }
+      console.error("Error creating maintenance record:", error);
+      res.status(500).json({ error: "Gagal mencatat pemeliharaan." });
+    }
+  });
+
+  app.post("/api/maintenance/:id/complete", (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const { result, notes, condition } = req.body;
+      const completedDate = req.body.completed_date || new Date().toISOString().slice(0, 10);
+      const record = db.prepare("SELECT * FROM maintenance_records WHERE id = ?").get(id) as
+        { material_id: number, asset_id: number | null, type: MaintenanceType, status: string, sent_date: string, vendor: string | null, certificate: string | null, notes: string | null } | undefined;
+      if (!record) {
+        return res.status(404).json({ error: "Catatan pemeliharaan tidak ditemukan." });
+      }
+      if (record.status !== 'in_service') {
+        return res.status(400).json({ error: "Pemeliharaan ini sudah selesai." });
+      }
+      if (!DATE_PATTERN.test(completedDate) || completedDate < record.sent_date) {
+        return res.status(400).json({ error: "Tanggal selesai tidak valid." });
+      }
+      if (condition !== undefined && condition !== '' && !ASSET_CONDITIONS.includes(condition)) {
+        return res.status(400).json({ error: "Kondisi unit tidak valid." });
+      }
+      const certificate = saveCertificate(req.body.certificate);
+
+      const completeOp = db.transaction(() => {
+        db.prepare(`
+          UPDATE maintenance_records SET status = 'completed', completed_date = ?, result = ?, certificate = COALESCE(?, certificate), notes = ?, completed_by = ?
+          WHERE id = ?
+        `).run(completedDate, result || null, certificate, notes || record.notes, req.user!.id, id);
+        if (record.asset_id !== null) {
+          recordTransaction({
+            material_id: record.material_id,
+            type: 'IN',
+            quantity: 1,
+            asset_ids: [record.asset_id],
+            notes: `Kembali dari ${MAINTENANCE_TYPE_LABELS[record.type].toLowerCase()}${record.vendor ? ` di ${record.vendor}` : ""}`
+          }, { userId: req.user!.id, maintenanceRecordId: id });
+          if (condition) {
+            db.prepare("UPDATE material_assets SET condition = ? WHERE id = ?").run(condition, record.asset_id);
+          }
+        }
+        writeAudit('maintenance', id, 'update', record, db.prepare("SELECT * FROM maintenance_records WHERE id = ?").get(id), req.user!.id);
+      });
+      try {
+        completeOp();
+      } catch (error) {
+        removeCertificate(certificate);
+        throw error;
+      }
+      // A newly uploaded certificate replaces the one stored when the record was created
+      if (certificate && record.certificate) {
+        removeCertificate(record.certificate);
+      }
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof TransactionError) {
+        return sendTransactionError(res, error);
+      }
+      if (error instanceof UploadError) {
+        return res.status(400).json({ error: error.message, details: error.details });
+      }
+      console.error("Error completing maintenance record:", error);
+      res.status(500).json({ error: "Gagal menyelesaikan pemeliharaan." });
+    }
+  });
+
+  app.get("/api/labels/materials", async (req, res) => {
+    try {
+      const ids = parseIdList(req.query.ids);
+      const where = ids.length > 0 ? `WHERE m.id IN (${ids.map(() => "?").join(", ")})` : "";
+      const materials = db.prepare(`
+        SELECT m.id, m.name, m.unit, l.name as location_name
+        FROM materials m
+        LEFT JOIN locations l ON m.location_id = l.id
+        ${where}
+        ORDER BY l.name, m.name
+      `).all(...ids) as { id: number, name: string, unit: string, location_name: string | null }[];
+      await sendLabels(res, "label_bahan", materials.map(m => ({
+        code: labelCode('material', m.id),
+        title: m.name,
+        subtitle: `Satuan: ${m.unit}${m.location_name ? ` | ${m.location_name}` : ""}`
+      })));
+    } catch (error) {
+      console.error("Error generating material labels:", error);
+      res.status(500).json({ error: "Gagal membuat label bahan." });
+    }
+  });
+
+  app.get("/api/labels/locations", async (req, res) => {
+    try {
+      const ids = parseIdList(req.query.ids);
+      const where = ids.length > 0 ? `WHERE l.id IN (${ids.map(() => "?").join(", ")})` : "";
+      const locations = db.prepare(`
+        SELECT l.id, l.name, COUNT(m.id) as material_count
+        FROM locations l
+        LEFT JOIN materials m ON m.location_id = l.id
+        ${where}
+        GROUP BY l.id
+        ORDER BY l.name
+      `).all(...ids) as { id: number, name: string, material_count: number }[];
+      await sendLabels(res, "label_lokasi", locations.map(l => ({
+        code: labelCode('location', l.id),
+        title: l.name,
+        subtitle: `Lokasi penyimpanan | ${l.material_count} jenis bahan`
+      })));
+    } catch (error) {
+      console.error("Error generating location labels:", error);
+      res.status(500).json({ error: "Gagal membuat label lokasi." });
+    }
+  });
+
+  app.get("/api/export/materials", async (req, res) => {
+    try {
+      const materials = db.prepare(`
+        SELECT m.name, c.name as category_name, m.unit, m.stock, m.min_stock, l.name as location_name,
+          CASE WHEN m.stock <= m.min_stock THEN 'Ya' ELSE 'Tidak' END as low_stock
+        FROM materials m
+        LEFT JOIN categories c ON m.category_id = c.id
+        LEFT JOIN locations l ON m.location_id = l.id
+        ORDER BY c.name, m.name
+      `).all() as Record<string, unknown>[];
+
+      await sendReport(res, req.query.format, {
+        title: "Daftar Stok Bahan Praktik",
+        fileName: "stok_bahan",
+        subtitle: `${materials.length} bahan`,
+        columns: [
+          { header: "Nama Bahan", key: "name", width: 30 },
+          { header: "Kategori", key: "category_name", width: 20 },
+          { header: "Satuan", key: "unit", width: 10 },
+          { header: "Stok", key: "stock", width: 10 },
+          { header: "Stok Minimal", key: "min_stock", width: 12 },
+          { header: "Lokasi", key: "location_name", width: 16 },
+          { header: "Stok Rendah", key: "low_stock", width: 12 }
+        ],
+        rows: materials
+      });
+    } catch (error) {
+      console.error("Error exporting materials:", error);
+      res.status(500).json({ error: "Gagal mengekspor daftar bahan." });
+    }
+  });
+
+  app.get("/api/export/transactions", async (req, res) => {
+    try {
+      const { sortColumn, order } = getTransactionSort(req.query);
+      const { conditions, params } = buildTransactionFilters(req.query);
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+      const transactions = db.prepare(`
+        SELECT t.date, m.name as material_name, c.name as category_name, loc.name as location_name,
+          t.type, t.reason_code, t.quantity, m.unit, t.notes, u.name as user_name
+        FROM transactions t
+        JOIN materials m ON t.material_id = m.id
+        LEFT JOIN categories c ON m.category_id = c.id
+        LEFT JOIN locations loc ON t.location_id = loc.id
+        LEFT JOIN users u ON t.user_id = u.id
+        ${where}
+        ORDER BY ${sortColumn} ${order}, t.id ${order}
+      `).all(...params) as (Record<string, unknown> & { type: TransactionType, reason_code: string | null })[];
+      const rows = transactions.map(t => ({
+        ...t,
+        type_label: TRANSACTION_TYPE_LABELS[t.type],
+        reason_label: t.reason_code ? REASON_CODES[t.type]?.[t.reason_code] ?? t.reason_code : null
+      }));
+
+      const { from, to } = req.query;
+      await sendReport(res, req.query.format, {
+        title: "Riwayat Data Masuk & Keluar",
+        fileName: "riwayat_transaksi",
+        subtitle: from || to ? `Periode ${from || "awal"} s.d. ${to || "sekarang"}` : `${transactions.length} transaksi`,
+        columns: [
+          { header: "Tanggal", key: "date", width: 18 },
+          { header: "Bahan", key: "material_name", width: 26 },
+          { header: "Kategori", key: "category_name", width: 18 },
+          { header: "Lokasi", key: "location_name", width: 14 },
+          { header: "Tipe", key: "type_label", width: 12 },
+          { header: "Alasan", key: "reason_label", width: 22 },
+          { header: "Jumlah", key: "quantity", width: 10 },
+          { header: "Satuan", key: "unit", width: 10 },
+          { header: "Catatan", key: "notes", width: 30 },
+          { header: "Oleh", key: "user_name", width: 16 }
+        ],
+        rows
+      });
+    } catch (error) {
+      console.error("Error exporting transactions:", error);
+      res.status(500).json({ error: "Gagal mengekspor riwayat transaksi." });
+    }
+  });
+
+  // Consumption (what was used up, net of returns) against shrinkage (what was damaged, lost, thrown away or missing at a stock take)
+  app.get("/api/export/movement-summary", async (req, res) => {
+    try {
+      const { conditions, params } = buildTransactionFilters({ ...req.query, type: undefined });
+      // Units sent out for service come back, so they are neither used up nor lost
+      conditions.push("t.maintenance_record_id IS NULL");
+      const shrinkage = SHRINKAGE_TYPES.map(type => `'${type}'`).join(", ");
+      const rows = db.prepare(`
+        SELECT m.name as material_name, c.name as category_name, m.unit,
+          SUM(CASE WHEN t.type = 'IN' THEN t.quantity ELSE 0 END) as received,
+          SUM(${CONSUMPTION_SQL}) as consumed,
+          SUM(CASE WHEN t.type = 'DAMAGED' THEN t.quantity ELSE 0 END) as damaged,
+          SUM(CASE WHEN t.type = 'LOST' THEN t.quantity ELSE 0 END) as lost,
+          SUM(CASE WHEN t.type = 'DISPOSED' THEN t.quantity ELSE 0 END) as disposed,
+          SUM(CASE WHEN t.type = 'ADJUSTMENT' THEN t.quantity ELSE 0 END) as adjusted,
+          SUM(CASE WHEN t.type IN (${shrinkage}) THEN t.quantity WHEN t.type = 'ADJUSTMENT' AND t.quantity < 0 THEN -t.quantity ELSE 0 END) as shrinkage
+        FROM transactions t
+        JOIN materials m ON t.material_id = m.id
+        LEFT JOIN categories c ON m.category_id = c.id
+        WHERE ${conditions.join(" AND ")} AND t.type != 'TRANSFER'
+        GROUP BY m.id
+        ORDER BY c.name, m.name
+      `).all(...params) as Record<string, unknown>[];
+
+      const { from, to } = req.query;
+      await sendReport(res, req.query.format, {
+        title: "Ringkasan Pemakaian & Penyusutan",
+        fileName: "pemakaian_penyusutan",
+        subtitle: `Periode ${from || "awal"} s.d. ${to || "sekarang"}`,
+        columns: [
+          { header: "Bahan", key: "material_name", width: 26 },
+          { header: "Kategori", key: "category_name", width: 18 },
+          { header: "Satuan", key: "unit", width: 10 },
+          { header: "Masuk", key: "received", width: 10 },
+          { header: "Pemakaian", key: "consumed", width: 12 },
+          { header: "Rusak", key: "damaged", width: 10 },
+          { header: "Hilang", key: "lost", width: 10 },
+          { header: "Dimusnahkan", key: "disposed", width: 12 },
+          { header: "Penyesuaian", key: "adjusted", width: 12 },
+          { header: "Total Susut", key: "shrinkage", width: 12 }
+        ],
+        rows
+      });
+    } catch (error) {
+      console.error("Error exporting movement summary:", error);
+      res.status(500).json({ error: "Gagal mengekspor ringkasan pemakaian." });
+    }
+  });
+
+  app.get("/api/audit", requireRole('admin', 'laboran'), (req, res) => {
+    try {
+      const conditions: string[] = [];
+      const params: (string | number)[] = [];
+      const { entity, entity_id, user_id, action, from, to } = req.query;
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit), 10) || 50, 1), 200);
+      const offset = Math.max(parseInt(String(req.query.offset), 10) || 0, 0);
+
+      if (entity) {
+        conditions.push("a.entity = ?");
+        params.push(String(entity));
+      }
+      if (entity_id) {
+        conditions.push("a.entity_id = ?");
+        params.push(Number(entity_id));
+      }
+      if (user_id) {
+        conditions.push("a.user_id = ?");
+        params.push(Number(user_id));
+      }
+      if (action) {
+        conditions.push("a.action = ?");
+        params.push(String(action));
+      }
+      if (from) {
+        conditions.push("date(a.created_at) >= date(?)");
+        params.push(String(from));
+      }
+      if (to) {
+        conditions.push("date(a.created_at) <= date(?)");
+        params.push(String(to));
+      }
+
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+      const rows = db.prepare(`
+        SELECT a.*, u.name as user_name
+        FROM audit_log a
+        LEFT JOIN users u ON a.user_id = u.id
+        ${where}
+        ORDER BY a.created_at DESC, a.id DESC
+        LIMIT ? OFFSET ?
+      `).all(...params, limit, offset) as { before_json: string | null, after_json: string | null }[];
+
+      res.json(rows.map(({ before_json, after_json, ...row }) => ({
+        ...row,
+        before: before_json ? JSON.parse(before_json) : null,
+        after: after_json ? JSON.parse(after_json) : null
+      })));
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      res.status(500).json({ error: "Gagal memuat riwayat perubahan." });
+    }
+  });
+
+  // Subscriptions belong to the signed-in user; admins can see and manage everyone's
+  const findSubscription = (req: express.Request) => {
+    const subscription = db.prepare("SELECT * FROM notification_subscriptions WHERE id = ?").get(Number(req.params.id)) as { id: number, user_id: number, channel: NotificationChannelName, target: string } | undefined;
+    if (!subscription || (subscription.user_id !== req.user!.id && req.user!.role !== 'admin')) return null;
+    return subscription;
+  };
+
+  const validateSubscription = (channel: unknown, target: unknown, categoryId: unknown): string | null => {
+    if (channel !== 'email' && channel !== 'webhook') {
+      return "Kanal notifikasi harus email atau webhook.";
+    }
+    if (typeof target !== 'string' || !NOTIFICATION_CHANNELS[channel].isValidTarget(target.trim())) {
+      return channel === 'email' ? "Alamat email tidak valid." : "URL webhook harus diawali http:// atau https://.";
+    }
+    if (categoryId && !db.prepare("SELECT id FROM categories WHERE id = ?").get(categoryId)) {
+      return "Kategori tidak ditemukan.";
+    }
+    return null;
+  };
+
+  app.get("/api/notifications/subscriptions", requireRole('admin', 'laboran'), (req, res) => {
+    const all = req.user!.role === 'admin' && req.query.all === '1';
+    const subscriptions = db.prepare(`
+      SELECT s.*, c.name as category_name, u.name as user_name
+      FROM notification_subscriptions s
+      LEFT JOIN categories c ON s.category_id = c.id
+      JOIN users u ON s.user_id = u.id
+      ${all ? "" : "WHERE s.user_id = ?"}
+      ORDER BY s.created_at DESC
+    `).all(...(all ? [] : [req.user!.id]));
+    res.json(subscriptions);
+  });
+
+  app.post("/api/notifications/subscriptions", requireRole('admin', 'laboran'), (req, res) => {
+    try {
+      const { channel, target, category_id } = req.body;
+      const invalid = validateSubscription(channel, target, category_id);
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+      const result = db.prepare("INSERT INTO notification_subscriptions (user_id, channel, target, category_id) VALUES (?, ?, ?, ?)")
+        .run(req.user!.id, channel, target.trim(), category_id || null);
+      res.json({ id: result.lastInsertRowid });
+    } catch (error) {
+      console.error("Error creating subscription:", error);
+      res.status(500).json({ error: "Gagal menambah langganan notifikasi." });
+    }
+  });
+
+  app.put("/api/notifications/subscriptions/:id", requireRole('admin', 'laboran'), (req, res) => {
+    try {
+      const subscription = findSubscription(req);
+      if (!subscription) {
+        return res.status(404).json({ error: "Langganan notifikasi tidak ditemukan." });
+      }
+      const { channel, target, category_id, active } = req.body;
+      const invalid = validateSubscription(channel, target, category_id);
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+      db.prepare("UPDATE notification_subscriptions SET channel = ?, target = ?, category_id = ?, active = ? WHERE id = ?")
+        .run(channel, target.trim(), category_id || null, active === false ? 0 : 1, subscription.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error updating subscription:", error);
+      res.status(500).json({ error: "Gagal memperbarui langganan notifikasi." });
+    }
+  });
+
+  app.delete("/api/notifications/subscriptions/:id", requireRole('admin', 'laboran'), (req, res) => {
+    try {
+      const subscription = findSubscription(req);
+      if (!subscription) {
+        return res.status(404).json({ error: "Langganan notifikasi tidak ditemukan." });
+      }
+      db.transaction(() => {
+        db.prepare("DELETE FROM notification_deliveries WHERE subscription_id = ?").run(subscription.id);
+        db.prepare("DELETE FROM notification_subscriptions WHERE id = ?").run(subscription.id);
+      })();
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting subscription:", error);
+      res.status(500).json({ error: "Gagal menghapus langganan notifikasi." });
+    }
+  });
+
+  app.post("/api/notifications/subscriptions/:id/test", requireRole('admin', 'laboran'), async (req, res) => {
+    const subscription = findSubscription(req);
+    if (!subscription) {
+      return res.status(404).json({ error: "Langganan notifikasi tidak ditemukan." });
+    }
+    try {
+      await NOTIFICATION_CHANNELS[subscription.channel].send(subscription.target, {
+        material_id: 0,
+        material: "Contoh Bahan",
+        unit: "Pcs",
+        stock: 2,
+        min_stock: 5,
+        category: null,
+        location: null,
+        test: true
+      });
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error sending test notification:", error);
+      res.status(502).json({ error: "Notifikasi uji gagal dikirim.", details: String(error?.message || error) });
+    }
+  });
+
+  app.get("/api/notifications/alerts", requireRole('admin', 'laboran'), (req, res) => {
+    const alerts = db.prepare(`
+      SELECT a.*, m.name as material_name, m.unit,
+        SUM(d.status = 'sent') as sent_count, SUM(d.status = 'failed') as failed_count
+      FROM low_stock_alerts a
+      JOIN materials m ON a.material_id = m.id
+      LEFT JOIN notification_deliveries d ON d.alert_id = a.id
+      GROUP BY a.id
+      ORDER BY a.created_at DESC, a.id DESC
+      LIMIT 50
+    `).all();
+    res.json(alerts);
+  });
+
+  app.get("/api/stock-takes", (req, res) => {
+    const stockTakes = db.prepare(`
+      SELECT s.*, cu.name as created_by_name, au.name as approved_by_name,
+        COUNT(c.id) as item_count,
+        SUM(CASE WHEN c.counted_quantity IS NOT NULL THEN 1 ELSE 0 END) as counted_count
+      FROM stock_takes s
+      LEFT JOIN stock_take_counts c ON c.stock_take_id = s.id
+      LEFT JOIN users cu ON s.created_by = cu.id
+      LEFT JOIN users au ON s.approved_by = au.id
+      GROUP BY s.id
+      ORDER BY s.created_at DESC, s.id DESC
+    `).all() as { scope_json: string | null }[];
+    res.json(stockTakes.map(({ scope_json, ...row }) => ({ ...row, scope: scope_json ? JSON.parse(scope_json) : null })));
+  });
+
+  app.post("/api/stock-takes", (req, res) => {
+    try {
+      const { title } = req.body;
+      const locationIds: number[] = Array.isArray(req.body.location_ids) ? req.body.location_ids.map(Number) : [];
+      const categoryIds: number[] = Array.isArray(req.body.category_ids) ? req.body.category_ids.map(Number) : [];
+      if (!title) {
+        return res.status(400).json({ error: "Judul stock opname wajib diisi." });
+      }
+
+      const where = categoryIds.length > 0 ? `WHERE category_id IN (${categoryIds.map(() => "?").join(", ")})` : "";
+      const materials = db.prepare(`SELECT id, location_id FROM materials ${where}`).all(...categoryIds) as { id: number, location_id: number | null }[];
+      // One count per place a material is stocked, plus its home location even when that is empty
+      const pairs = materials.flatMap(m => {
+        const locations = new Set<number | null>([m.location_id, ...getStockBuckets(m.id).map(b => b.location_id)]);
+        return [...locations]
+          .filter(locationId => locationIds.length === 0 || (locationId !== null && locationIds.includes(locationId)))
+          .map(locationId => ({ materialId: m.id, locationId }));
+      });
+      if (pairs.length === 0) {
+        return res.status(400).json({ error: "Tidak ada bahan dalam cakupan yang dipilih." });
+      }
+
+      const createOp = db.transaction(() => {
+        const result = db.prepare("INSERT INTO stock_takes (title, scope_json, created_by) VALUES (?, ?, ?)")
+          .run(title, JSON.stringify({ location_ids: locationIds, category_ids: categoryIds }), req.user!.id);
+        const insertCount = db.prepare("INSERT INTO stock_take_counts (stock_take_id, material_id, location_id) VALUES (?, ?, ?)");
+        pairs.forEach(p => insertCount.run(result.lastInsertRowid, p.materialId, p.locationId));
+        return result.lastInsertRowid;
+      });
+      res.json({ id: createOp() });
+    } catch (error) {
+      console.error("Error creating stock take:", error);
+      res.status(500).json({ error: "Gagal membuat sesi stock opname." });
+    }
+  });
+
+  app.get("/api/stock-takes/:id", (req, res) => {
+    const id = Number(req.params.id);
+    const stockTake = db.prepare("SELECT * FROM stock_takes WHERE id = ?").get(id) as { id: number, scope_json: string | null } | undefined;
+    if (!stockTake) {
+      return res.status(404).json({ error: "Sesi stock opname tidak ditemukan." });
+    }
+    // Open sessions compare against live stock; approved ones against the stock snapshotted at approval
+    const items = db.prepare(`
+      SELECT c.*, m.name as material_name, m.unit, loc.name as location_name, cat.name as category_name,
+        COALESCE(c.system_stock, ${STOCK_TAKE_BOOK_SQL}) as book_stock,
+        CASE WHEN c.counted_quantity IS NULL THEN NULL ELSE c.counted_quantity - COALESCE(c.system_stock, ${STOCK_TAKE_BOOK_SQL}) END as variance,
+        u.name as counted_by_name
+      FROM stock_take_counts c
+      JOIN materials m ON c.material_id = m.id
+      LEFT JOIN categories cat ON m.category_id = cat.id
+      LEFT JOIN locations loc ON c.location_id = loc.id
+      LEFT JOIN users u ON c.counted_by = u.id
+      WHERE c.stock_take_id = ?
+      ORDER BY loc.name, m.name
+    `).all(id);
+    const { scope_json, ...session } = stockTake;
+    res.json({ ...session, scope: scope_json ? JSON.parse(scope_json) : null, items });
+  });
+
+  app.put("/api/stock-takes/:id/counts/:countId", (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const countId = Number(req.params.countId);
+      const raw = req.body.counted_quantity;
+      const counted = raw === null || raw === "" ? null : Number(raw);
+      if (counted !== null && (!Number.isInteger(counted) || counted < 0)) {
+        return res.status(400).json({ error: "Jumlah hitung harus bilangan bulat >= 0." });
+      }
+
+      const stockTake = db.prepare("SELECT status FROM stock_takes WHERE id = ?").get(id) as { status: string } | undefined;
+      if (!stockTake) {
+        return res.status(404).json({ error: "Sesi stock opname tidak ditemukan." });
+      }
+      if (stockTake.status !== 'open') {
+        return res.status(400).json({ error: "Sesi stock opname sudah ditutup." });
+      }
+
+      const result = db.prepare(`
+        UPDATE stock_take_counts
+        SET counted_quantity = ?, counted_by = ?, counted_at = CURRENT_TIMESTAMP
+        WHERE stock_take_id = ? AND id = ?
+      `).run(counted, counted === null ? null : req.user!.id, id, countId);
+      if (result.changes === 0) {
+        return res.status(404).json({ error: "Bahan tidak termasuk dalam sesi ini." });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error saving stock take count:", error);
+      res.status(500).json({ error: "Gagal menyimpan hasil hitung." });
+    }
+  });
+
+  app.post("/api/stock-takes/:id/approve", requireRole('admin'), (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const stockTake = db.prepare("SELECT * FROM stock_takes WHERE id = ?").get(id) as { title: string, status: string } | undefined;
+      if (!stockTake) {
+        return res.status(404).json({ error: "Sesi stock opname tidak ditemukan." });
+      }
+      if (stockTake.status !== 'open') {
+        return res.status(400).json({ error: "Sesi stock opname sudah ditutup." });
+      }
+
+      const uncounted = db.prepare("SELECT COUNT(*) as count FROM stock_take_counts WHERE stock_take_id = ? AND counted_quantity IS NULL").get(id) as { count: number };
+      if (uncounted.count > 0) {
+        return res.status(400).json({
+          error: `Masih ada ${uncounted.count} bahan yang belum dihitung.`,
+          details: "Lengkapi semua hasil hitung sebelum menyetujui stock opname."
+        });
+      }
+
+      const approveOp = db.transaction(() => {
+        const counts = db.prepare(`
+          SELECT c.id, c.material_id, c.location_id, c.counted_quantity, ${STOCK_TAKE_BOOK_SQL} as stock
+          FROM stock_take_counts c JOIN materials m ON c.material_id = m.id
+          WHERE c.stock_take_id = ?
+        `).all(id) as { id: number, material_id: number, location_id: number | null, counted_quantity: number, stock: number }[];
+
+        let adjusted = 0;
+        counts.forEach(c => {
+          db.prepare("UPDATE stock_take_counts SET system_stock = ? WHERE id = ?").run(c.stock, c.id);
+          const variance = c.counted_quantity - c.stock;
+          if (variance !== 0) {
+            recordTransaction({
+              material_id: c.material_id,
+              type: 'ADJUSTMENT',
+              quantity: variance,
+              reason_code: 'stock_opname',
+              location_id: c.location_id,
+              notes: `Stock opname #${id}: ${stockTake.title} (sistem ${c.stock}, fisik ${c.counted_quantity})`
+            }, { userId: req.user!.id });
+            adjusted++;
+          }
+        });
+        db.prepare("UPDATE stock_takes SET status = 'approved', approved_by = ?, approved_at = CURRENT_TIMESTAMP WHERE id = ?")
+          .run(req.user!.id, id);
+        return adjusted;
+      });
+
+      res.json({ success: true, adjusted: approveOp() });
+    } catch (error) {
+      // e.g. a surplus on a serialized material, whose extra units have to be registered by serial number
+      if (error instanceof TransactionError) {
+        return sendTransactionError(res, error);
+      }
+      console.error("Error approving stock take:", error);
+      res.status(500).json({ error: "Gagal menyetujui stock opname." });
+    }
+  });
+
+  app.post("/api/stock-takes/:id/cancel", (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const result = db.prepare("UPDATE stock_takes SET status = 'cancelled' WHERE id = ? AND status = 'open'").run(id);
+      if (result.changes === 0) {
+        return res.status(400).json({ error: "Sesi stock opname tidak ditemukan atau sudah ditutup." });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error cancelling stock take:", error);
+      res.status(500).json({ error: "Gagal membatalkan stock opname." });
+    }
+  });
+
+  app.get("/api/purchase-requests", (req, res) => {
+    const purchaseRequests = db.prepare(`
+      SELECT pr.*, cu.name as created_by_name, au.name as approved_by_name,
+        (SELECT COUNT(*) FROM purchase_request_items i WHERE i.purchase_request_id = pr.id) as item_count
+      FROM purchase_requests pr
+      LEFT JOIN users cu ON pr.created_by = cu.id
+      LEFT JOIN users au ON pr.approved_by = au.id
+      ORDER BY pr.created_at DESC, pr.id DESC
+    `).all();
+    res.json(purchaseRequests);
+  });
+
+  app.post("/api/purchase-requests", (req, res) => {
+    try {
+      const title = typeof req.body.title === 'string' && req.body.title.trim()
+        ? req.body.title.trim()
+        : `Permintaan Pembelian ${new Date().toLocaleDateString("id-ID")}`;
+      const lowStock = db.prepare(`
+        SELECT m.id, m.stock, ${SUGGESTED_ORDER_SQL} as suggested
+        FROM materials m
+        WHERE m.stock <= m.min_stock
+        ORDER BY m.name
+      `).all() as { id: number, stock: number, suggested: number }[];
+      if (lowStock.length === 0) {
+        return res.status(400).json({ error: "Tidak ada bahan dengan stok di bawah minimal." });
+      }
+
+      const createOp = db.transaction(() => {
+        const result = db.prepare("INSERT INTO purchase_requests (title, created_by) VALUES (?, ?)").run(title, req.user!.id);
+        const insertItem = db.prepare("INSERT INTO purchase_request_items (purchase_request_id, material_id, quantity, stock_at_request) VALUES (?, ?, ?, ?)");
+        lowStock.forEach(m => insertItem.run(result.lastInsertRowid, m.id, m.suggested, m.stock));
+        return result.lastInsertRowid;
+      });
+      res.json({ id: createOp() });
+    } catch (error) {
+      console.error("Error creating purchase request:", error);
+      res.status(500).json({ error: "Gagal membuat permintaan pembelian." });
+    }
+  });
+
+  const getPurchaseRequest = (id: number) => {
+    const purchaseRequest = db.prepare(`
+      SELECT pr.*, cu.name as created_by_name, au.name as approved_by_name
+      FROM purchase_requests pr
+      LEFT JOIN users cu ON pr.created_by = cu.id
+      LEFT JOIN users au ON pr.approved_by = au.id
+      WHERE pr.id = ?
+    `).get(id) as { id: number, title: string, status: PurchaseRequestStatus, approved_by_name: string | null } | undefined;
+    if (!purchaseRequest) return null;
+    const items = db.prepare(`
+      SELECT i.*, m.name as material_name, m.unit, m.stock, m.min_stock, m.target_stock, c.name as category_name
+      FROM purchase_request_items i
+      JOIN materials m ON i.material_id = m.id
+      LEFT JOIN categories c ON m.category_id = c.id
+      WHERE i.purchase_request_id = ?
+      ORDER BY c.name, m.name
+    `).all(id) as Record<string, unknown>[];
+    return { ...purchaseRequest, items };
+  };
+
+  app.get("/api/purchase-requests/:id", (req, res) => {
+    const purchaseRequest = getPurchaseRequest(Number(req.params.id));
+    if (!purchaseRequest) {
+      return res.status(404).json({ error: "Permintaan pembelian tidak ditemukan." });
+    }
+    res.json(purchaseRequest);
+  });
+
+  app.put("/api/purchase-requests/:id", (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const { title, notes, items } = req.body;
+      const purchaseRequest = db.prepare("SELECT status FROM purchase_requests WHERE id = ?").get(id) as { status: PurchaseRequestStatus } | undefined;
+      if (!purchaseRequest) {
+        return res.status(404).json({ error: "Permintaan pembelian tidak ditemukan." });
+      }
+      if (purchaseRequest.status !== 'draft') {
+        return res.status(400).json({ error: "Hanya permintaan berstatus draf yang dapat diubah." });
+      }
+      if (!title || !Array.isArray(items) || items.length === 0) {
+        return res.status(400).json({ error: "Judul dan minimal satu bahan wajib diisi." });
+      }
+      const invalid = (items as { quantity: unknown }[]).find(item => !Number.isInteger(Number(item.quantity)) || Number(item.quantity) <= 0);
+      if (invalid) {
+        return res.status(400).json({ error: "Jumlah permintaan harus bilangan bulat positif." });
+      }
+      const stockById = new Map<number, number>();
+      for (const item of items) {
+        const material = db.prepare("SELECT stock FROM materials WHERE id = ?").get(Number(item.material_id)) as { stock: number } | undefined;
+        if (!material) {
+          return res.status(400).json({ error: `Bahan dengan ID ${item.material_id} tidak ditemukan.` });
+        }
+        stockById.set(Number(item.material_id), material.stock);
+      }
+
+      // Lines are replaced wholesale; the stock snapshot is kept for lines that already existed
+      const updateOp = db.transaction(() => {
+        const previous = new Map((db.prepare("SELECT material_id, stock_at_request FROM purchase_request_items WHERE purchase_request_id = ?").all(id) as { material_id: number, stock_at_request: number }[])
+          .map(i => [i.material_id, i.stock_at_request]));
+        db.prepare("UPDATE purchase_requests SET title = ?, notes = ? WHERE id = ?").run(title, notes || null, id);
+        db.prepare("DELETE FROM purchase_request_items WHERE purchase_request_id = ?").run(id);
+        const insertItem = db.prepare("INSERT INTO purchase_request_items (purchase_request_id, material_id, quantity, stock_at_request, notes) VALUES (?, ?, ?, ?, ?)");
+        (items as { material_id: unknown, quantity: unknown, notes?: string }[]).forEach(item => {
+          const materialId = Number(item.material_id);
+          insertItem.run(id, materialId, Number(item.quantity), previous.get(materialId) ?? stockById.get(materialId), item.notes || null);
+        });
+      });
+      updateOp();
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error updating purchase request:", error);
+      if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+        return res.status(400).json({ error: "Setiap bahan hanya boleh muncul sekali dalam permintaan." });
+      }
+      res.status(500).json({ error: "Gagal memperbarui permintaan pembelian." });
+    }
+  });
+
+  app.post("/api/purchase-requests/:id/status", (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const { status } = req.body;
+      const purchaseRequest = db.prepare("SELECT status FROM purchase_requests WHERE id = ?").get(id) as { status: PurchaseRequestStatus } | undefined;
+      if (!purchaseRequest) {
+        return res.status(404).json({ error: "Permintaan pembelian tidak ditemukan." });
+      }
+      const next = PURCHASE_REQUEST_NEXT_STATUS[purchaseRequest.status];
+      if (!next || status !== next) {
+        return res.status(400).json({
+          error: "Perubahan status tidak valid.",
+          details: next
+            ? `Permintaan berstatus ${PURCHASE_REQUEST_STATUS_LABELS[purchaseRequest.status]} hanya dapat diubah menjadi ${PURCHASE_REQUEST_STATUS_LABELS[next]}.`
+            : "Permintaan ini sudah selesai."
+        });
+      }
+      if (next === 'submitted' && req.user!.role !== 'admin') {
+        return res.status(403).json({ error: "Hanya admin yang dapat menyetujui permintaan pembelian." });
+      }
+
+      if (next === 'submitted') {
+        db.prepare("UPDATE purchase_requests SET status = ?, approved_by = ?, submitted_at = CURRENT_TIMESTAMP WHERE id = ?").run(next, req.user!.id, id);
+      } else {
+        db.prepare(`UPDATE purchase_requests SET status = ?, ${next}_at = CURRENT_TIMESTAMP WHERE id = ?`).run(next, id);
+      }
+      res.json({ success: true, status: next });
+    } catch (error) {
+      console.error("Error updating purchase request status:", error);
+      res.status(500).json({ error: "Gagal memperbarui status permintaan pembelian." });
+    }
+  });
+
+  app.delete("/api/purchase-requests/:id", (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const purchaseRequest = db.prepare("SELECT status FROM purchase_requests WHERE id = ?").get(id) as { status: PurchaseRequestStatus } | undefined;
+      if (!purchaseRequest) {
+        return res.status(404).json({ error: "Permintaan pembelian tidak ditemukan." });
+      }
+      if (purchaseRequest.status !== 'draft') {
+        return res.status(400).json({ error: "Hanya permintaan berstatus draf yang dapat dihapus." });
+      }
+      db.transaction(() => {
+        db.prepare("DELETE FROM purchase_request_items WHERE purchase_request_id = ?").run(id);
+        db.prepare("DELETE FROM purchase_requests WHERE id = ?").run(id);
+      })();
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting purchase request:", error);
+      res.status(500).json({ error: "Gagal menghapus permintaan pembelian." });
+    }
   });
 
-  app.use(express.json({ limit: '10mb' }));
-
-  // Serve images
-  app.use("/images", express.static(IMAGE_DIR));
-
-  // API Routes
-  app.get("/api/categories", (req, res) => {
-    const categories = db.prepare("SELECT * FROM categories").all();
-    res.json(categories);
+  app.get("/api/purchase-requests/:id/export", async (req, res) => {
+    try {
+      const purchaseRequest = getPurchaseRequest(Number(req.params.id));
+      if (!purchaseRequest) {
+        return res.status(404).json({ error: "Permintaan pembelian tidak ditemukan." });
+      }
+      const status = PURCHASE_REQUEST_STATUS_LABELS[purchaseRequest.status];
+      await sendReport(res, req.query.format, {
+        title: `Permintaan Pembelian Bahan Praktik`,
+        fileName: `permintaan_pembelian_${purchaseRequest.id}`,
+        subtitle: `No. PP-${String(purchaseRequest.id).padStart(4, "0")} | ${purchaseRequest.title} | Status: ${status}${purchaseRequest.approved_by_name ? ` | Disetujui: ${purchaseRequest.approved_by_name}` : ""}`,
+        columns: [
+          { header: "No", key: "no", width: 5 },
+          { header: "Nama Bahan", key: "material_name", width: 28 },
+          { header: "Kategori", key: "category_name", width: 18 },
+          { header: "Satuan", key: "unit", width: 10 },
+          { header: "Stok Saat Diajukan", key: "stock_at_request", width: 14 },
+          { header: "Stok Minimal", key: "min_stock", width: 12 },
+          { header: "Jumlah Diminta", key: "quantity", width: 14 },
+          { header: "Keterangan", key: "notes", width: 24 }
+        ],
+        rows: purchaseRequest.items.map((item, i) => ({ ...item, no: i + 1 }))
+      });
+    } catch (error) {
+      console.error("Error exporting purchase request:", error);
+      res.status(500).json({ error: "Gagal mengekspor permintaan pembelian." });
+    }
   });
 
-  app.get("/api/locations", (req, res) => {
-    const locations = db.prepare("SELECT * FROM locations").all();
-    res.json(locations);
+  app.get("/api/suppliers", (req, res) => {
+    const suppliers = db.prepare("SELECT * FROM suppliers ORDER BY name").all();
+    res.json(suppliers);
   });
 
-  app.post("/api/locations", (req, res) => {
+  app.post("/api/suppliers", (req, res) => {
     try {
-      const { name } = req.body;
+      const { name, contact_person, phone, email, address } = req.body;
       if (!name) {
-        return res.status(400).json({ error: "Nama lokasi wajib diisi." });
+        return res.status(400).json({ error: "Nama pemasok wajib diisi." });
       }
-      const result = db.prepare("INSERT INTO locations (name) VALUES (?)").run(name);
-      res.json({ id: result.lastInsertRowid });
+      const createOp = db.transaction(() => {
+        const result = db.prepare("INSERT INTO suppliers (name, contact_person, phone, email, address) VALUES (?, ?, ?, ?, ?)")
+          .run(name, contact_person || null, phone || null, email || null, address || null);
+        writeAudit('supplier', result.lastInsertRowid, 'create', null, db.prepare("SELECT * FROM suppliers WHERE id = ?").get(result.lastInsertRowid), req.user!.id);
+        return result.lastInsertRowid;
+      });
+      res.json({ id: createOp() });
     } catch (error: any) {
-      console.error("Error creating location:", error);
+      console.error("Error creating supplier:", error);
       if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
-        return res.status(400).json({ error: "Nama lokasi sudah ada." });
+        return res.status(400).json({ error: "Nama pemasok sudah ada." });
       }
-      res.status(500).json({ error: "Gagal menambah lokasi." });
+      res.status(500).json({ error: "Gagal menambah pemasok." });
     }
   });
 
-  app.put("/api/locations/:id", (req, res) => {
+  app.put("/api/suppliers/:id", (req, res) => {
     try {
       const id = Number(req.params.id);
-      const { name } = req.body;
-      db.prepare("UPDATE locations SET name = ? WHERE id = ?").run(name, id);
+      const { name, contact_person, phone, email, address } = req.body;
+      if (!name) {
+        return res.status(400).json({ error: "Nama pemasok wajib diisi." });
+      }
+      const updateOp = db.transaction(() => {
+        const before = db.prepare("SELECT * FROM suppliers WHERE id = ?").get(id);
+        db.prepare("UPDATE suppliers SET name = ?, contact_person = ?, phone = ?, email = ?, address = ? WHERE id = ?")
+          .run(name, contact_person || null, phone || null, email || null, address || null, id);
+        writeAudit('supplier', id, 'update', before, db.prepare("SELECT * FROM suppliers WHERE id = ?").get(id), req.user!.id);
+      });
+      updateOp();
       res.json({ success: true });
-    } catch (error) {
-      console.error("Error updating location:", error);
-      res.status(500).json({ error: "Gagal memperbarui lokasi." });
+    } catch (error: any) {
+      console.error("Error updating supplier:", error);
+      if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+        return res.status(400).json({ error: "Nama pemasok sudah ada." });
+      }
+      res.status(500).json({ error: "Gagal memperbarui pemasok." });
     }
   });
 
-  app.delete("/api/locations/:id", (req, res) => {
+  app.delete("/api/suppliers/:id", requireRole('admin'), (req, res) => {
     try {
       const id = parseInt(req.params.id, 10);
       if (isNaN(id)) {
-        return res.status(400).json({ error: "ID Lokasi tidak valid." });
+        return res.status(400).json({ error: "ID Pemasok tidak valid." });
       }
-      console.log(`Attempting to delete location with ID: ${id}`);
-      
-      // Check if location exists
-      const location = db.prepare("SELECT name FROM locations WHERE id = ?").get(id) as { name: string };
-      if (!location) {
-        return res.status(404).json({ error: "Lokasi tidak ditemukan." });
+      const supplier = db.prepare("SELECT * FROM suppliers WHERE id = ?").get(id);
+      if (!supplier) {
+        return res.status(404).json({ error: "Pemasok tidak ditemukan." });
+      }
+      const usage = db.prepare("SELECT COUNT(*) as count FROM purchase_orders WHERE supplier_id = ?").get(id) as { count: number };
+      if (usage.count > 0) {
+        return res.status(400).json({
+          error: `Pemasok ini memiliki ${usage.count} pesanan pembelian.`,
+          details: "Pemasok yang sudah memiliki riwayat pesanan tidak dapat dihapus."
+        });
       }
+      const deleteOp = db.transaction(() => {
+        writeAudit('supplier', id, 'delete', supplier, null, req.user!.id);
+        return db.prepare("DELETE FROM suppliers WHERE id = ?").run(id).changes;
+      });
+      deleteOp();
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting supplier:", error);
+      res.status(500).json({ error: "Gagal menghapus pemasok." });
+    }
+  });
 
-      // Check if location is being used by any material
-      const usage = db.prepare("SELECT COUNT(*) as count FROM materials WHERE location = ?").get(location.name) as { count: number };
-      if (usage && usage.count > 0) {
-        return res.status(400).json({ 
-          error: `Lokasi ini masih digunakan oleh ${usage.count} barang.`,
-          details: "Anda harus memindahkan barang-barang tersebut ke lokasi lain sebelum bisa menghapus lokasi ini."
+  app.get("/api/purchase-orders", (req, res) => {
+    const purchaseOrders = db.prepare(`
+      SELECT po.*, s.name as supplier_name, u.name as created_by_name,
+        COUNT(l.id) as line_count,
+        COALESCE(SUM(l.quantity_ordered), 0) as quantity_ordered,
+        COALESCE(SUM(l.quantity_received), 0) as quantity_received,
+        SUM(l.quantity_ordered * l.unit_price) as total_price
+      FROM purchase_orders po
+      JOIN suppliers s ON po.supplier_id = s.id
+      LEFT JOIN users u ON po.created_by = u.id
+      LEFT JOIN purchase_order_lines l ON l.purchase_order_id = po.id
+      GROUP BY po.id
+      ORDER BY po.created_at DESC, po.id DESC
+    `).all();
+    res.json(purchaseOrders);
+  });
+
+  app.post("/api/purchase-orders", (req, res) => {
+    try {
+      const { supplier_id, reference, purchase_request_id, expected_date, notes, lines } = req.body;
+      if (!db.prepare("SELECT id FROM suppliers WHERE id = ?").get(supplier_id)) {
+        return res.status(400).json({ error: "Pemasok wajib dipilih." });
+      }
+      if (!Array.isArray(lines) || lines.length === 0) {
+        return res.status(400).json({ error: "Pesanan harus berisi minimal satu bahan." });
+      }
+      for (const line of lines) {
+        if (!Number.isInteger(Number(line.quantity)) || Number(line.quantity) <= 0) {
+          return res.status(400).json({ error: "Jumlah pesanan harus bilangan bulat positif." });
+        }
+        if (!db.prepare("SELECT id FROM materials WHERE id = ?").get(Number(line.material_id))) {
+          return res.status(400).json({ error: `Bahan dengan ID ${line.material_id} tidak ditemukan.` });
+        }
+      }
+      const purchaseRequest = purchase_request_id
+        ? db.prepare("SELECT id, status FROM purchase_requests WHERE id = ?").get(purchase_request_id) as { id: number, status: PurchaseRequestStatus } | undefined
+        : undefined;
+      if (purchase_request_id && (!purchaseRequest || purchaseRequest.status === 'draft')) {
+        return res.status(400).json({ error: "Permintaan pembelian harus sudah disetujui sebelum dipesan." });
+      }
+
+      const createOp = db.transaction(() => {
+        const result = db.prepare(`
+          INSERT INTO purchase_orders (supplier_id, reference, purchase_request_id, expected_date, notes, created_by)
+          VALUES (?, ?, ?, ?, ?, ?)
+        `).run(supplier_id, reference || null, purchaseRequest?.id ?? null, expected_date || null, notes || null, req.user!.id);
+        const insertLine = db.prepare("INSERT INTO purchase_order_lines (purchase_order_id, material_id, quantity_ordered, unit_price) VALUES (?, ?, ?, ?)");
+        lines.forEach((line: { material_id: unknown, quantity: unknown, unit_price?: unknown }) => insertLine.run(result.lastInsertRowid, Number(line.material_id), Number(line.quantity), line.unit_price ? Number(line.unit_price) : null));
+        if (purchaseRequest?.status === 'submitted') {
+          db.prepare("UPDATE purchase_requests SET status = 'ordered', ordered_at = CURRENT_TIMESTAMP WHERE id = ?").run(purchaseRequest.id);
+        }
+        return result.lastInsertRowid;
+      });
+      res.json({ id: createOp() });
+    } catch (error) {
+      console.error("Error creating purchase order:", error);
+      res.status(500).json({ error: "Gagal membuat pesanan pembelian." });
+    }
+  });
+
+  app.get("/api/purchase-orders/:id", (req, res) => {
+    const id = Number(req.params.id);
+    const purchaseOrder = db.prepare(`
+      SELECT po.*, s.name as supplier_name, s.contact_person, s.phone, s.email, u.name as created_by_name
+      FROM purchase_orders po
+      JOIN suppliers s ON po.supplier_id = s.id
+      LEFT JOIN users u ON po.created_by = u.id
+      WHERE po.id = ?
+    `).get(id) as { id: number, status: string, supplier_name: string } | undefined;
+    if (!purchaseOrder) {
+      return res.status(404).json({ error: "Pesanan pembelian tidak ditemukan." });
+    }
+    const lines = db.prepare(`
+      SELECT l.*, m.name as material_name, m.unit
+      FROM purchase_order_lines l
+      JOIN materials m ON l.material_id = m.id
+      WHERE l.purchase_order_id = ?
+      ORDER BY l.id
+    `).all(id);
+    const receipts = db.prepare(`
+      SELECT t.id, t.purchase_order_line_id, t.quantity, t.date, t.notes, u.name as user_name
+      FROM transactions t
+      JOIN purchase_order_lines l ON t.purchase_order_line_id = l.id
+      LEFT JOIN users u ON t.user_id = u.id
+      WHERE l.purchase_order_id = ?
+      ORDER BY t.date, t.id
+    `).all(id);
+    res.json({ ...purchaseOrder, lines, receipts });
+  });
+
+  /**
+   * Checks in a (partial) delivery. Every line with a quantity posts its own
+   * IN transaction tied to the PO line, so stock history shows the source.
+   */
+  app.post("/api/purchase-orders/:id/receive", (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const { lines, notes } = req.body;
+      const purchaseOrder = db.prepare(`
+        SELECT po.*, s.name as supplier_name FROM purchase_orders po JOIN suppliers s ON po.supplier_id = s.id WHERE po.id = ?
+      `).get(id) as { id: number, status: string, supplier_name: string, purchase_request_id: number | null } | undefined;
+      if (!purchaseOrder) {
+        return res.status(404).json({ error: "Pesanan pembelian tidak ditemukan." });
+      }
+      if (purchaseOrder.status === 'received' || purchaseOrder.status === 'cancelled') {
+        return res.status(400).json({ error: "Pesanan ini sudah ditutup." });
+      }
+      const received = ((Array.isArray(lines) ? lines : []) as (Pick<TransactionInput, 'quantity' | 'lot_number' | 'expiry_date' | 'serial_numbers'> & { line_id: unknown })[])
+        .filter(l => Number(l?.quantity) > 0);
+      if (received.length === 0) {
+        return res.status(400).json({ error: "Isi jumlah yang diterima untuk minimal satu bahan." });
+      }
+
+      const userId = req.user!.id;
+      const receiveOp = db.transaction(() => {
+        received.forEach(entry => {
+          const line = db.prepare(`
+            SELECT pol.*, m.name as material_name, m.track_serials FROM purchase_order_lines pol JOIN materials m ON pol.material_id = m.id
+            WHERE pol.id = ? AND pol.purchase_order_id = ?
+          `).get(Number(entry.line_id), id) as
+            { id: number, material_id: number, material_name: string, track_serials: number, quantity_ordered: number, quantity_received: number } | undefined;
+          if (!line) {
+            throw new TransactionError(400, "Baris pesanan tidak ditemukan.");
+          }
+          const quantity = Number(entry.quantity);
+          const outstanding = line.quantity_ordered - line.quantity_received;
+          if (!Number.isInteger(quantity) || quantity > outstanding) {
+            throw new TransactionError(400, "Jumlah diterima melebihi sisa pesanan.", {
+              details: `Sisa pesanan untuk baris ini ${outstanding}, diterima ${entry.quantity}.`
+            });
+          }
+          // Serialized materials arrive as new units, one serial number each
+          if (line.track_serials) {
+            const { serialNumbers } = parseAssetInput({ serial_numbers: entry.serial_numbers });
+            if (serialNumbers.length !== quantity) {
+              throw new TransactionError(400, `${line.material_name} dicatat per unit.`, {
+                details: `Isi ${quantity} nomor seri berbeda untuk unit yang diterima (terisi ${serialNumbers.length}).`
+              });
+            }
+          }
+          recordTransaction({
+            material_id: line.material_id,
+            type: 'IN',
+            quantity,
+            notes: `Penerimaan ${purchaseOrderNumber(id)} dari ${purchaseOrder.supplier_name}${notes ? ` - ${notes}` : ""}`,
+            lot_number: entry.lot_number,
+            expiry_date: entry.expiry_date,
+            serial_numbers: entry.serial_numbers
+          }, { userId, purchaseOrderLineId: line.id });
+          db.prepare("UPDATE purchase_order_lines SET quantity_received = quantity_received + ? WHERE id = ?").run(quantity, line.id);
         });
+
+        const { outstanding } = db.prepare("SELECT SUM(quantity_ordered - quantity_received) as outstanding FROM purchase_order_lines WHERE purchase_order_id = ?").get(id) as { outstanding: number };
+        const status = outstanding > 0 ? 'partial' : 'received';
+        db.prepare("UPDATE purchase_orders SET status = ? WHERE id = ?").run(status, id);
+
+        // The originating purchase request is done once every PO raised from it is fully received
+        if (status === 'received' && purchaseOrder.purchase_request_id) {
+          const open = db.prepare("SELECT COUNT(*) as count FROM purchase_orders WHERE purchase_request_id = ? AND status IN ('open', 'partial')")
+            .get(purchaseOrder.purchase_request_id) as { count: number };
+          if (open.count === 0) {
+            db.prepare("UPDATE purchase_requests SET status = 'received', received_at = CURRENT_TIMESTAMP WHERE id = ? AND status = 'ordered'")
+              .run(purchaseOrder.purchase_request_id);
+          }
+        }
+        return status;
+      });
+      res.json({ success: true, status: receiveOp() });
+    } catch (error) {
+      if (error instanceof TransactionError) {
+        return sendTransactionError(res, error);
       }
-      
-      const result = db.prepare("DELETE FROM locations WHERE id = ?").run(id);
-      console.log(`Deleted location. Changes: ${result.changes}`);
+      console.error("Error receiving purchase order:", error);
+      res.status(500).json({ error: "Gagal mencatat penerimaan barang." });
+    }
+  });
+
+  app.post("/api/purchase-orders/:id/cancel", (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const purchaseOrder = db.prepare("SELECT status FROM purchase_orders WHERE id = ?").get(id) as { status: string } | undefined;
+      if (!purchaseOrder) {
+        return res.status(404).json({ error: "Pesanan pembelian tidak ditemukan." });
+      }
+      if (purchaseOrder.status !== 'open') {
+        return res.status(400).json({
+          error: "Hanya pesanan yang belum diterima sama sekali yang dapat dibatalkan.",
+          details: purchaseOrder.status === 'partial' ? "Pesanan ini sudah diterima sebagian." : undefined
+        });
+      }
+      db.prepare("UPDATE purchase_orders SET status = 'cancelled' WHERE id = ?").run(id);
       res.json({ success: true });
     } catch (error) {
-      console.error("Error deleting location:", error);
-      res.status(500).json({ error: "Gagal menghapus lokasi." });
+      console.error("Error cancelling purchase order:", error);
+      res.status(500).json({ error: "Gagal membatalkan pesanan pembelian." });
     }
   });
 
-  app.post("/api/categories", (req, res) => {
+  app.get("/api/kits", (req, res) => {
+    res.json(getKits());
+  });
+
+  app.post("/api/kits", (req, res) => {
     try {
-      const { name } = req.body;
+      const { name, description } = req.body;
       if (!name) {
-        return res.status(400).json({ error: "Nama kategori wajib diisi." });
+        return res.status(400).json({ error: "Nama kit wajib diisi." });
       }
-      const result = db.prepare("INSERT INTO categories (name) VALUES (?)").run(name);
-      res.json({ id: result.lastInsertRowid });
+      const components = parseMaterialQuantities(req.body.components, KIT_COMPONENT_MESSAGES);
+      if (typeof components === 'string') {
+        return res.status(400).json({ error: components });
+      }
+      const createOp = db.transaction(() => {
+        const result = db.prepare("INSERT INTO kits (name, description) VALUES (?, ?)").run(name, description || null);
+        const insertComponent = db.prepare("INSERT INTO kit_components (kit_id, material_id, quantity) VALUES (?, ?, ?)");
+        components.forEach(c => insertComponent.run(result.lastInsertRowid, c.material_id, c.quantity));
+        writeAudit('kit', result.lastInsertRowid, 'create', null, { name, description: description || null, components }, req.user!.id);
+        return result.lastInsertRowid;
+      });
+      res.json({ id: createOp() });
     } catch (error: any) {
-      console.error("Error creating category:", error);
+      console.error("Error creating kit:", error);
       if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
-        return res.status(400).json({ error: "Nama kategori sudah ada." });
+        return res.status(400).json({ error: "Nama kit sudah ada." });
       }
-      res.status(500).json({ error: "Gagal menambah kategori." });
+      res.status(500).json({ error: "Gagal menambah kit." });
     }
   });
 
-  app.put("/api/categories/:id", (req, res) => {
+  app.put("/api/kits/:id", (req, res) => {
     try {
       const id = Number(req.params.id);
-      const { name } = req.body;
-      db.prepare("UPDATE categories SET name = ? WHERE id = ?").run(name, id);
+      const { name, description } = req.body;
+      const [kit] = getKits(id);
+      if (!kit) {
+        return res.status(404).json({ error: "Kit tidak ditemukan." });
+      }
+      if (!name) {
+        return res.status(400).json({ error: "Nama kit wajib diisi." });
+      }
+      const components = parseMaterialQuantities(req.body.components, KIT_COMPONENT_MESSAGES);
+      if (typeof components === 'string') {
+        return res.status(400).json({ error: components });
+      }
+      const updateOp = db.transaction(() => {
+        db.prepare("UPDATE kits SET name = ?, description = ? WHERE id = ?").run(name, description || null, id);
+        db.prepare("DELETE FROM kit_components WHERE kit_id = ?").run(id);
+        const insertComponent = db.prepare("INSERT INTO kit_components (kit_id, material_id, quantity) VALUES (?, ?, ?)");
+        components.forEach(c => insertComponent.run(id, c.material_id, c.quantity));
+        writeAudit('kit', id, 'update',
+          { name: kit.name, description: kit.description, components: kit.components.map(c => ({ material_id: c.material_id, quantity: c.quantity })) },
+          { name, description: description || null, components },
+          req.user!.id);
+      });
+      updateOp();
       res.json({ success: true });
-    } catch (error) {
-      console.error("Error updating category:", error);
-      res.status(500).json({ error: "Gagal memperbarui kategori." });
+    } catch (error: any) {
+      console.error("Error updating kit:", error);
+      if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+        return res.status(400).json({ error: "Nama kit sudah ada." });
+      }
+      res.status(500).json({ error: "Gagal memperbarui kit." });
     }
   });
 
-  app.delete("/api/categories/:id", (req, res) => {
+  app.delete("/api/kits/:id", requireRole('admin'), (req, res) => {
     try {
       const id = parseInt(req.params.id, 10);
       if (isNaN(id)) {
-        return res.status(400).json({ error: "ID Kategori tidak valid." });
+        return res.status(400).json({ error: "ID Kit tidak valid." });
       }
-      console.log(`Attempting to delete category with ID: ${id}`);
-      
-      // Check if category exists
-      const category = db.prepare("SELECT id FROM categories WHERE id = ?").get(id);
-      if (!category) {
-        return res.status(404).json({ error: "Kategori tidak ditemukan." });
+      const [kit] = getKits(id);
+      if (!kit) {
+        return res.status(404).json({ error: "Kit tidak ditemukan." });
       }
-
-      // Check if category is being used by any material
-      const usage = db.prepare("SELECT COUNT(*) as count FROM materials WHERE category_id = ?").get(id) as { count: number };
-      if (usage && usage.count > 0) {
-        return res.status(400).json({ 
-          error: `Kategori ini masih digunakan oleh ${usage.count} barang.`,
-          details: "Anda harus menghapus atau memindahkan barang-barang tersebut ke kategori lain sebelum bisa menghapus kategori ini."
+      const usage = db.prepare("SELECT COUNT(*) as count FROM kit_checkouts WHERE kit_id = ?").get(id) as { count: number };
+      if (usage.count > 0) {
+        return res.status(400).json({
+          error: `Kit ini sudah dikeluarkan ${usage.count} kali.`,
+          details: "Kit yang sudah memiliki riwayat pengeluaran tidak dapat dihapus agar riwayat transaksi tetap utuh."
         });
       }
-      
-      const result = db.prepare("DELETE FROM categories WHERE id = ?").run(id);
-      console.log(`Deleted category. Changes: ${result.changes}`);
+      const deleteOp = db.transaction(() => {
+        writeAudit('kit', id, 'delete', kit, null, req.user!.id);
+        db.prepare("DELETE FROM kit_components WHERE kit_id = ?").run(id);
+        return db.prepare("DELETE FROM kits WHERE id = ?").run(id).changes;
+      });
+      deleteOp();
       res.json({ success: true });
     } catch (error) {
-      console.error("Error deleting category:", error);
-      res.status(500).json({ error: "Gagal menghapus kategori." });
+      console.error("Error deleting kit:", error);
+      res.status(500).json({ error: "Gagal menghapus kit." });
     }
   });
 
-  app.get("/api/materials", (req, res) => {
-    const materials = db.prepare(`
-      SELECT m.*, c.name as category_name 
-      FROM materials m 
-      LEFT JOIN categories c ON m.category_id = c.id
-    `).all();
-    res.json(materials);
+  /**
+   * Issues N complete kits. Every component is checked up front so a shortage
+   * reports all missing materials at once; the OUT transactions are then
+   * posted in one database transaction, so either every component moves or
+   * none does.
+   */
+  app.post("/api/kits/:id/checkout", (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const quantity = Number(req.body.quantity);
+      const notes = typeof req.body.notes === 'string' ? req.body.notes.trim() : '';
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        return res.status(400).json({ error: "Jumlah kit harus bilangan bulat positif." });
+      }
+
+      const userId = req.user!.id;
+      const checkoutOp = db.transaction(() => {
+        const [kit] = getKits(id);
+        if (!kit) {
+          throw new TransactionError(404, "Kit tidak ditemukan.");
+        }
+        if (kit.components.length === 0) {
+          throw new TransactionError(400, "Kit ini belum memiliki komponen.");
+        }
+        const shortages = kit.components
+          .filter(c => c.stock < c.quantity * quantity)
+          .map(c => `${c.material_name}: butuh ${c.quantity * quantity} ${c.unit}, stok ${c.stock} ${c.unit}`);
+        if (shortages.length > 0) {
+          throw new TransactionError(409, `Stok tidak cukup untuk ${quantity} kit ${kit.name}.`, {
+            details: `Hanya ${kit.available_kits} kit lengkap yang tersedia.\n${shortages.join("\n")}`
+          });
+        }
+
+        const result = db.prepare("INSERT INTO kit_checkouts (kit_id, quantity, notes, user_id) VALUES (?, ?, ?, ?)")
+          .run(id, quantity, notes || null, userId);
+        kit.components.forEach(c => recordTransaction({
+          material_id: c.material_id,
+          type: 'OUT',
+          quantity: c.quantity * quantity,
+          notes: `${quantity} kit ${kit.name}${notes ? ` - ${notes}` : ""}`
+        }, { userId, kitCheckoutId: result.lastInsertRowid }));
+        return result.lastInsertRowid;
+      });
+      res.json({ success: true, id: checkoutOp() });
+    } catch (error) {
+      if (error instanceof TransactionError) {
+        return sendTransactionError(res, error);
+      }
+      console.error("Error checking out kit:", error);
+      res.status(500).json({ error: "Gagal mengeluarkan kit." });
+    }
+  });
+
+  app.get("/api/practicum-sessions", (req, res) => {
+    res.json(getPracticumSessions());
   });
 
-  app.post("/api/materials", (req, res) => {
+  /**
+   * Sessions are accepted even when stock is short: the schedule is fixed by
+   * the curriculum, so the response lists shortages as warnings instead.
+   */
+  app.post("/api/practicum-sessions", (req, res) => {
     try {
-      const { name, category_id, unit, min_stock, location, image } = req.body;
-      if (!name || !unit) {
-        return res.status(400).json({ error: "Nama dan Satuan wajib diisi." });
+      const { course, class_name, session_date, group_count, notes } = req.body;
+      if (!course || !session_date) {
+        return res.status(400).json({ error: "Mata kuliah dan tanggal wajib diisi." });
       }
-      const imagePath = saveImage(image);
-      const result = db.prepare(
-        "INSERT INTO materials (name, category_id, unit, min_stock, location, image) VALUES (?, ?, ?, ?, ?, ?)"
-      ).run(name, category_id, unit, min_stock, location, imagePath);
-      res.json({ id: result.lastInsertRowid });
+      if (!Number.isInteger(Number(group_count)) || Number(group_count) <= 0) {
+        return res.status(400).json({ error: "Jumlah kelompok harus bilangan bulat positif." });
+      }
+      const lines = parseMaterialQuantities(req.body.materials, SESSION_MATERIAL_MESSAGES);
+      if (typeof lines === 'string') {
+        return res.status(400).json({ error: lines });
+      }
+      const createOp = db.transaction(() => {
+        const result = db.prepare(`
+          INSERT INTO practicum_sessions (course, class_name, session_date, group_count, notes, created_by) VALUES (?, ?, ?, ?, ?, ?)
+        `).run(course, class_name || null, session_date, Number(group_count), notes || null, req.user!.id);
+        const insertLine = db.prepare("INSERT INTO practicum_session_materials (session_id, material_id, quantity_per_group) VALUES (?, ?, ?)");
+        lines.forEach(l => insertLine.run(result.lastInsertRowid, l.material_id, l.quantity));
+        return result.lastInsertRowid;
+      });
+      const id = createOp();
+      res.json({ id, shortages: sessionShortages(id) });
     } catch (error) {
-      console.error("Error creating material:", error);
-      res.status(500).json({ error: "Gagal membuat bahan baru." });
+      console.error("Error creating practicum session:", error);
+      res.status(500).json({ error: "Gagal menjadwalkan sesi praktikum." });
     }
   });
 
-  app.put("/api/materials/:id", (req, res) => {
+  app.put("/api/practicum-sessions/:id", (req, res) => {
     try {
       const id = Number(req.params.id);
-      const { name, category_id, unit, min_stock, location, image } = req.body;
-      
-      if (!name || !unit) {
-        return res.status(400).json({ error: "Nama dan Satuan wajib diisi." });
+      const { course, class_name, session_date, group_count, notes } = req.body;
+      const session = db.prepare("SELECT status FROM practicum_sessions WHERE id = ?").get(id) as { status: string } | undefined;
+      if (!session) {
+        return res.status(404).json({ error: "Sesi praktikum tidak ditemukan." });
+      }
+      if (session.status !== 'scheduled') {
+        return res.status(400).json({ error: "Hanya sesi yang belum dimulai yang dapat diubah." });
       }
+      if (!course || !session_date) {
+        return res.status(400).json({ error: "Mata kuliah dan tanggal wajib diisi." });
+      }
+      if (!Number.isInteger(Number(group_count)) || Number(group_count) <= 0) {
+        return res.status(400).json({ error: "Jumlah kelompok harus bilangan bulat positif." });
+      }
+      const lines = parseMaterialQuantities(req.body.materials, SESSION_MATERIAL_MESSAGES);
+      if (typeof lines === 'string') {
+        return res.status(400).json({ error: lines });
+      }
+      const updateOp = db.transaction(() => {
+        db.prepare("UPDATE practicum_sessions SET course = ?, class_name = ?, session_date = ?, group_count = ?, notes = ? WHERE id = ?")
+          .run(course, class_name || null, session_date, Number(group_count), notes || null, id);
+        db.prepare("DELETE FROM practicum_session_materials WHERE session_id = ?").run(id);
+        const insertLine = db.prepare("INSERT INTO practicum_session_materials (session_id, material_id, quantity_per_group) VALUES (?, ?, ?)");
+        lines.forEach(l => insertLine.run(id, l.material_id, l.quantity));
+      });
+      updateOp();
+      res.json({ success: true, shortages: sessionShortages(id) });
+    } catch (error) {
+      console.error("Error updating practicum session:", error);
+      res.status(500).json({ error: "Gagal memperbarui sesi praktikum." });
+    }
+  });
+
+  /**
+   * Starting a session converts its reservation into OUT transactions. Like a
+   * kit checkout this is all-or-nothing: one short material blocks the start.
+   */
+  app.post("/api/practicum-sessions/:id/start", (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const userId = req.user!.id;
+      const startOp = db.transaction(() => {
+        const [session] = getPracticumSessions(id);
+        if (!session) {
+          throw new TransactionError(404, "Sesi praktikum tidak ditemukan.");
+        }
+        if (session.status !== 'scheduled') {
+          throw new TransactionError(400, "Sesi ini sudah dimulai atau dibatalkan.");
+        }
+        const shortages = session.materials
+          .filter(m => m.stock < m.quantity)
+          .map(m => `${m.material_name}: butuh ${m.quantity} ${m.unit}, stok ${m.stock} ${m.unit}`);
+        if (shortages.length > 0) {
+          throw new TransactionError(409, "Stok tidak cukup untuk memulai sesi ini.", { details: shortages.join("\n") });
+        }
 
-      let imagePath = image;
-      // Only save if it's a new base64 string
-      if (image && image.startsWith("data:image")) {
-        imagePath = saveImage(image);
+        const label = `Praktikum ${session.course}${session.class_name ? ` ${session.class_name}` : ""} (${session.group_count} kelompok)`;
+        session.materials.forEach(m => recordTransaction({
+          material_id: m.material_id,
+          type: 'OUT',
+          quantity: m.quantity,
+          notes: label
+        }, { userId, practicumSessionId: id }));
+        db.prepare("UPDATE practicum_sessions SET status = 'started', started_by = ?, started_at = CURRENT_TIMESTAMP WHERE id = ?").run(userId, id);
+      });
+      startOp();
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof TransactionError) {
+        return sendTransactionError(res, error);
       }
+      console.error("Error starting practicum session:", error);
+      res.status(500).json({ error: "Gagal memulai sesi praktikum." });
+    }
+  });
 
-      db.prepare(
-        "UPDATE materials SET name = ?, category_id = ?, unit = ?, min_stock = ?, location = ?, image = ? WHERE id = ?"
-      ).run(name, category_id, unit, min_stock, location, imagePath, id);
+  app.post("/api/practicum-sessions/:id/cancel", (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const result = db.prepare("UPDATE practicum_sessions SET status = 'cancelled' WHERE id = ? AND status = 'scheduled'").run(id);
+      if (result.changes === 0) {
+        return res.status(400).json({ error: "Hanya sesi yang belum dimulai yang dapat dibatalkan." });
+      }
       res.json({ success: true });
     } catch (error) {
-      console.error("Error updating material:", error);
-      res.status(500).json({ error: "Gagal memperbarui bahan." });
+      console.error("Error cancelling practicum session:", error);
+      res.status(500).json({ error: "Gagal membatalkan sesi praktikum." });
+    }
+  });
+
+  app.get("/api/borrowers", (req, res) => {
+    const borrowers = db.prepare("SELECT * FROM borrowers ORDER BY name").all();
+    res.json(borrowers);
+  });
+
+  app.post("/api/borrowers", (req, res) => {
+    try {
+      const { name, nim, class_name } = req.body;
+      if (!name || !nim) {
+        return res.status(400).json({ error: "Nama dan NIM peminjam wajib diisi." });
+      }
+      const result = db.prepare("INSERT INTO borrowers (name, nim, class_name) VALUES (?, ?, ?)")
+        .run(name, nim, class_name || null);
+      res.json({ id: result.lastInsertRowid });
+    } catch (error: any) {
+      console.error("Error creating borrower:", error);
+      if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+        return res.status(400).json({ error: "NIM sudah terdaftar." });
+      }
+      res.status(500).json({ error: "Gagal menambah peminjam." });
+    }
+  });
+
+  app.get("/api/loans", (req, res) => {
+    const status = req.query.status;
+    let where = "";
+    if (status === 'active') {
+      where = "WHERE l.return_date IS NULL";
+    } else if (status === 'overdue') {
+      where = "WHERE l.return_date IS NULL AND l.due_date < date('now')";
+    } else if (status === 'returned') {
+      where = "WHERE l.return_date IS NOT NULL";
+    }
+    const loans = db.prepare(`
+      SELECT l.*, b.name as borrower_name, b.nim as borrower_nim, b.class_name as borrower_class,
+        m.name as material_name, m.unit as material_unit,
+        (l.return_date IS NULL AND l.due_date < date('now')) as is_overdue,
+        (SELECT GROUP_CONCAT(a.serial_number, ', ') FROM loan_assets la JOIN material_assets a ON la.asset_id = a.id WHERE la.loan_id = l.id) as serial_numbers
+      FROM loans l
+      JOIN borrowers b ON l.borrower_id = b.id
+      JOIN materials m ON l.material_id = m.id
+      ${where}
+      ORDER BY l.due_date ASC
+    `).all();
+    res.json(loans);
+  });
+
+  app.post("/api/loans", (req, res) => {
+    try {
+      const { borrower_id, material_id, due_date, notes, asset_ids } = req.body;
+      // A loan of specific units is a loan of that many units
+      const quantity = Array.isArray(asset_ids) && asset_ids.length > 0 ? asset_ids.length : Number(req.body.quantity);
+      if (!borrower_id || !material_id || !due_date) {
+        return res.status(400).json({ error: "Peminjam, bahan dan tanggal kembali wajib diisi." });
+      }
+      if (typeof due_date !== 'string' || !DATE_PATTERN.test(due_date)) {
+        return res.status(400).json({ error: "Tanggal kembali tidak valid." });
+      }
+      // Same UTC day as the overdue check, which compares against SQLite's date('now')
+      if (due_date < new Date().toISOString().slice(0, 10)) {
+        return res.status(400).json({ error: "Tanggal kembali tidak boleh sebelum hari ini." });
+      }
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        return res.status(400).json({ error: "Jumlah pinjaman harus bilangan bulat positif." });
+      }
+
+      const borrower = db.prepare("SELECT name, nim FROM borrowers WHERE id = ?").get(borrower_id) as { name: string, nim: string } | undefined;
+      if (!borrower) {
+        return res.status(404).json({ error: "Peminjam tidak ditemukan." });
+      }
+
+      const loanOp = db.transaction(() => {
+        const transactionId = recordTransaction({ material_id, type: 'OUT', quantity, asset_ids, notes: `Dipinjam oleh ${borrower.name} (${borrower.nim})` }, { userId: req.user!.id });
+        const result = db.prepare("INSERT INTO loans (borrower_id, material_id, quantity, due_date, notes) VALUES (?, ?, ?, ?, ?)")
+          .run(borrower_id, material_id, quantity, due_date, notes || null);
+        // Serialized materials: the units the OUT picked are now with the borrower
+        db.prepare("INSERT INTO loan_assets (loan_id, asset_id) SELECT ?, asset_id FROM transaction_assets WHERE transaction_id = ?")
+          .run(result.lastInsertRowid, transactionId);
+        db.prepare("UPDATE material_assets SET status = 'loaned' WHERE id IN (SELECT asset_id FROM transaction_assets WHERE transaction_id = ?)")
+          .run(transactionId);
+        return result.lastInsertRowid;
+      });
+
+      res.json({ id: loanOp() });
+    } catch (error) {
+      if (error instanceof TransactionError) {
+        return sendTransactionError(res, error);
+      }
+      console.error("Error creating loan:", error);
+      res.status(500).json({ error: "Gagal mencatat peminjaman." });
     }
   });
 
-  app.delete("/api/materials/:id", (req, res) => {
+  app.post("/api/loans/:id/return", (req, res) => {
     try {
       const id = parseInt(req.params.id, 10);
       if (isNaN(id)) {
-        return res.status(400).json({ error: "ID Bahan tidak valid." });
+        return res.status(400).json({ error: "ID Peminjaman tidak valid." });
       }
-      console.log(`Attempting to delete material with ID: ${id}`);
-      
-      // Check if material exists
-      const material = db.prepare("SELECT id FROM materials WHERE id = ?").get(id);
-      if (!material) {
-        return res.status(404).json({ error: "Bahan tidak ditemukan." });
+
+      const loan = db.prepare(`
+        SELECT l.*, b.name as borrower_name, b.nim as borrower_nim
+        FROM loans l JOIN borrowers b ON l.borrower_id = b.id
+        WHERE l.id = ?
+      `).get(id) as { material_id: number, quantity: number, return_date: string | null, borrower_name: string, borrower_nim: string } | undefined;
+      if (!loan) {
+        return res.status(404).json({ error: "Peminjaman tidak ditemukan." });
+      }
+      if (loan.return_date) {
+        return res.status(400).json({ error: "Peminjaman ini sudah dikembalikan." });
       }
 
-      // Also delete related transactions to maintain referential integrity
-      const deleteOp = db.transaction(() => {
-        db.prepare("DELETE FROM transactions WHERE material_id = ?").run(id);
-        const result = db.prepare("DELETE FROM materials WHERE id = ?").run(id);
-        return result.changes;
+      const returnOp = db.transaction(() => {
+        db.prepare("UPDATE loans SET return_date = CURRENT_TIMESTAMP WHERE id = ?").run(id);
+        const assetIds = (db.prepare("SELECT asset_id FROM loan_assets WHERE loan_id = ?").all(id) as { asset_id: number }[]).map(a => a.asset_id);
+        recordTransaction({
+          material_id: loan.material_id,
+          type: 'RETURN',
+          quantity: loan.quantity,
+          reason_code: 'pengembalian_pinjaman',
+          asset_ids: assetIds,
+          notes: `Dikembalikan oleh ${loan.borrower_name} (${loan.borrower_nim})`
+        }, { userId: req.user!.id });
       });
-      
-      const changes = deleteOp();
-      console.log(`Deleted material. Changes: ${changes}`);
+      returnOp();
+
       res.json({ success: true });
     } catch (error) {
-      console.error("Error deleting material:", error);
-      res.status(500).json({ error: "Gagal menghapus bahan." });
+      if (error instanceof TransactionError) {
+        return sendTransactionError(res, error);
+      }
+      console.error("Error returning loan:", error);
+      res.status(500).json({ error: "Gagal mencatat pengembalian." });
     }
   });
 
-  app.post("/api/transactions", (req, res) => {
-    const { material_id, type, quantity, notes } = req.body;
-    
-    const transaction = db.transaction(() => {
-      db.prepare("INSERT INTO transactions (material_id, type, quantity, notes) VALUES (?, ?, ?, ?)")
-        .run(material_id, type, quantity, notes);
-      const adjustment = type === 'IN' ? quantity : -quantity;
-      db.prepare("UPDATE materials SET stock = stock + ? WHERE id = ?")
-        .run(adjustment, material_id);
-    });
-    transaction();
-    res.json({ success: true });
+  app.get("/api/stats", (req, res) => {
+    try {
+      const period = req.query.period === 'week' || req.query.period === 'month' || req.query.period === 'custom' ? req.query.period : 'today';
+      const today = new Date().toISOString().slice(0, 10);
+      let from = period === 'week' ? periodStarts('week', 1)[0] : period === 'month' ? periodStarts('month', 1)[0] : today;
+      let to = today;
+      if (period === 'custom') {
+        from = String(req.query.from ?? "");
+        to = String(req.query.to ?? "");
+        if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || from > to) {
+          return res.status(400).json({ error: "Rentang tanggal tidak valid.", details: "Isi tanggal awal dan akhir (YYYY-MM-DD), dengan tanggal awal tidak setelah tanggal akhir." });
+        }
+      }
+
+      const totalMaterials = db.prepare("SELECT COUNT(*) as count FROM materials").get() as { count: number };
+      const lowStock = db.prepare("SELECT COUNT(*) as count FROM materials WHERE stock <= min_stock").get() as { count: number };
+      const outOfStock = db.prepare("SELECT COUNT(*) as count FROM materials WHERE stock <= 0").get() as { count: number };
+      const overReserved = db.prepare(`
+        SELECT COUNT(*) as count FROM materials m JOIN (${RESERVATIONS_SQL}) r ON r.material_id = m.id WHERE r.reserved > m.stock
+      `).get() as { count: number };
+      // Transfer legs only move stock between shelves, so they are left out of the period's activity
+      const activity = db.prepare(`
+        SELECT COUNT(*) as count,
+          SUM(CASE WHEN type = 'IN' THEN 1 ELSE 0 END) as in_count,
+          SUM(CASE WHEN type = 'OUT' THEN 1 ELSE 0 END) as out_count,
+          COALESCE(SUM(CASE WHEN type = 'IN' THEN quantity END), 0) as in_quantity,
+          COALESCE(SUM(CASE WHEN type = 'OUT' THEN quantity END), 0) as out_quantity
+        FROM transactions
+        WHERE type != 'TRANSFER' AND date(date) BETWEEN date(?) AND date(?)
+      `).get(from, to) as { count: number, in_count: number | null, out_count: number | null, in_quantity: number, out_quantity: number };
+      const mostActive = db.prepare(`
+        SELECT m.id as material_id, m.name as material_name, m.unit, COUNT(*) as transaction_count,
+          COALESCE(SUM(CASE WHEN t.type = 'IN' THEN t.quantity END), 0) as in_quantity,
+          COALESCE(SUM(CASE WHEN t.type = 'OUT' THEN t.quantity END), 0) as out_quantity
+        FROM transactions t
+        JOIN materials m ON t.material_id = m.id
+        WHERE t.type != 'TRANSFER' AND date(t.date) BETWEEN date(?) AND date(?)
+        GROUP BY m.id
+        ORDER BY transaction_count DESC, m.name
+        LIMIT 5
+      `).all(from, to);
+      const recentTransactions = db.prepare(`
+        SELECT t.*, m.name as material_name, u.name as user_name
+        FROM transactions t 
+        JOIN materials m ON t.material_id = m.id 
+        LEFT JOIN users u ON t.user_id = u.id
+        ORDER BY t.date DESC LIMIT 5
+      `).all();
+
+      res.json({
+        period: { key: period, from, to },
+        totalMaterials: totalMaterials.count,
+        lowStock: lowStock.count,
+        outOfStock: outOfStock.count,
+        overReserved: overReserved.count,
+        transactions: {
+          count: activity.count,
+          inCount: activity.in_count ?? 0,
+          outCount: activity.out_count ?? 0,
+          inQuantity: activity.in_quantity,
+          outQuantity: activity.out_quantity
+        },
+        mostActive,
+        recentTransactions
+      });
+    } catch (error) {
+      console.error("Error fetching stats:", error);
+      res.status(500).json({ error: "Gagal memuat statistik." });
+    }
   });
 
-  app.get("/api/stats", (req, res) => {
-    const totalMaterials = db.prepare("SELECT COUNT(*) as count FROM materials").get() as { count: number };
-    const lowStock = db.prepare("SELECT COUNT(*) as count FROM materials WHERE stock <= min_stock").get() as { count: number };
-    const recentTransactions = db.prepare(`
-      SELECT t.*, m.name as material_name 
-      FROM transactions t 
-      JOIN materials m ON t.material_id = m.id 
-      ORDER BY t.date DESC LIMIT 5
-    `).all();
-    
-    res.json({
-      totalMaterials: totalMaterials.count,
-      lowStock: lowStock.count,
-      recentTransactions
-    });
+  app.get("/api/analytics/consumption", (req, res) => {
+    try {
+      const interval = req.query.interval === 'week' ? 'week' : 'month';
+      const periodCount = Math.min(Math.max(parseInt(String(req.query.periods)) || 12, 1), 52);
+      const windowDays = Math.min(Math.max(parseInt(String(req.query.days)) || 90, 7), 365);
+      const conditions: string[] = [];
+      const params: number[] = [];
+      if (req.query.category_id) {
+        conditions.push("m.category_id = ?");
+        params.push(Number(req.query.category_id));
+      }
+      if (req.query.material_id) {
+        conditions.push("m.id = ?");
+        params.push(Number(req.query.material_id));
+      }
+      const usage = ["t.maintenance_record_id IS NULL", ...conditions].join(" AND ");
+
+      const periods = periodStarts(interval, periodCount);
+      const periodSql = interval === 'week' ? "date(t.date, '-6 days', 'weekday 1')" : "strftime('%Y-%m-01', t.date)";
+      const series = db.prepare(`
+        SELECT ${periodSql} as period, m.category_id, c.name as category_name, SUM(${CONSUMPTION_SQL}) as quantity
+        FROM transactions t
+        JOIN materials m ON t.material_id = m.id
+        LEFT JOIN categories c ON m.category_id = c.id
+        WHERE ${usage} AND date(t.date) >= date(?)
+        GROUP BY period, m.category_id
+        HAVING SUM(${CONSUMPTION_SQL}) != 0
+        ORDER BY period, c.name
+      `).all(...params, periods[0]);
+
+      const today = new Date().toISOString().slice(0, 10);
+      const first = db.prepare("SELECT MIN(date(date)) as date FROM transactions WHERE type = 'OUT'").get() as { date: string | null };
+      const semesters: Semester[] = [];
+      for (let s = semesterOf(first.date ?? today); s.from <= today; s = nextSemester(s)) {
+        semesters.unshift(s);
+      }
+      const semester = parseSemester(String(req.query.semester ?? "")) ?? semesterOf(today);
+      const top = db.prepare(`
+        SELECT m.id as material_id, m.name as material_name, m.unit, c.name as category_name, SUM(${CONSUMPTION_SQL}) as quantity
+        FROM transactions t
+        JOIN materials m ON t.material_id = m.id
+        LEFT JOIN categories c ON m.category_id = c.id
+        WHERE ${usage} AND date(t.date) BETWEEN date(?) AND date(?)
+        GROUP BY m.id
+        HAVING SUM(${CONSUMPTION_SQL}) > 0
+        ORDER BY quantity DESC
+        LIMIT 10
+      `).all(...params, semester.from, semester.to);
+
+      // Average daily usage over the window, or since the material's first movement if that is more recent
+      const usageRows = db.prepare(`
+        SELECT m.id as material_id, m.name as material_name, m.unit, c.name as category_name, m.stock, m.min_stock,
+          COALESCE(u.consumed, 0) as consumed,
+          MIN(?, CAST(julianday('now') - julianday(f.first_date) AS INTEGER) + 1) as observed_days
+        FROM materials m
+        LEFT JOIN categories c ON m.category_id = c.id
+        LEFT JOIN (
+          SELECT t.material_id, SUM(${CONSUMPTION_SQL}) as consumed
+          FROM transactions t
+          WHERE t.maintenance_record_id IS NULL AND date(t.date) > date('now', ?)
+          GROUP BY t.material_id
+        ) u ON u.material_id = m.id
+        LEFT JOIN (SELECT material_id, MIN(date) as first_date FROM transactions GROUP BY material_id) f ON f.material_id = m.id
+        ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+        ORDER BY m.name
+      `).all(windowDays, `-${windowDays} days`, ...params) as {
+        material_id: number, material_name: string, unit: string, category_name: string | null,
+        stock: number, min_stock: number, consumed: number, observed_days: number | null
+      }[];
+      const forecast = usageRows.map(({ observed_days, ...row }) => {
+        const avgDaily = row.consumed > 0 ? row.consumed / Math.max(observed_days ?? windowDays, 1) : 0;
+        const daysLeft = avgDaily > 0 ? Math.max(Math.floor(row.stock / avgDaily), 0) : null;
+        const stockoutDate = daysLeft === null ? null : new Date(Date.now() + daysLeft * 86400000).toISOString().slice(0, 10);
+        return { ...row, avg_daily: Math.round(avgDaily * 100) / 100, days_left: daysLeft, stockout_date: stockoutDate };
+      });
+
+      res.json({ interval, periods, series, semester, semesters, top, window_days: windowDays, forecast });
+    } catch (error) {
+      console.error("Error fetching consumption analytics:", error);
+      res.status(500).json({ error: "Gagal memuat analitik pemakaian." });
+    }
   });
 
   // Vite middleware for development
@@ -374,6 +5234,7 @@ async function startServer() {
   app.listen(PORT, "0.0.0.0", () => {
     console.log(`Server running on http://localhost:${PORT}`);
   });
+  backfillThumbnails();
 }
 
 startServer();
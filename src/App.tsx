@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { 
   LayoutDashboard, 
   Package, 
@@ -22,23 +22,92 @@ import {
   MapPin,
   Camera,
   RefreshCw,
-  Layers
+  Layers,
+  ClipboardList,
+  Undo2,
+  ArrowUp,
+  ArrowDown,
+  Users,
+  LogOut,
+  Upload,
+  FileDown,
+  ClipboardCheck,
+  CheckCircle2,
+  ChevronLeft,
+  ScanLine,
+  QrCode,
+  Bell,
+  ShoppingCart,
+  Truck,
+  Boxes,
+  CalendarDays,
+  ArrowLeftRight,
+  Hourglass,
+  Hash,
+  Wrench,
+  FileText,
+  PackageX,
+  TrendingDown
 } from 'lucide-react';
+import jsQR from 'jsqr';
 import { motion, AnimatePresence } from 'motion/react';
-import { Material, Category, Transaction, DashboardStats, Location } from './types';
+import { Material, Category, Transaction, DashboardStats, Location, Borrower, Loan, TransactionPage, TransactionFilters, User, Role, AuditEntry, ImportField, ImportPreview, TransactionType, StockTake, StockTakeDetail, NotificationChannel, NotificationSubscription, LowStockAlert, PurchaseRequest, PurchaseRequestDetail, PurchaseRequestStatus, Supplier, PurchaseOrder, PurchaseOrderDetail, PurchaseOrderStatus, Kit, PracticumSession, PracticumSessionStatus, MaterialLot, ExpiringLot, MaterialAsset, AssetCondition, AssetStatus, MaintenanceRecord, MaintenanceType, CalibrationDue, ConsumptionAnalytics, ConsumptionForecast, StatsPeriod, StockStatus, MaterialSortField, MaterialPage, MaterialOption } from './types';
 
 export default function App() {
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'inventory' | 'data-masuk' | 'locations' | 'categories'>('dashboard');
-  const [materials, setMaterials] = useState<Material[]>([]);
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'inventory' | 'data-masuk' | 'peminjaman' | 'stock-opname' | 'kit' | 'praktikum' | 'pemeliharaan' | 'pengadaan' | 'locations' | 'categories' | 'users'>('dashboard');
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [isAuthChecked, setIsAuthChecked] = useState(false);
+  const [users, setUsers] = useState<User[]>([]);
+  const [isUserModalOpen, setIsUserModalOpen] = useState(false);
+  const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [newUser, setNewUser] = useState<{ username: string, name: string, role: Role, password: string, active: boolean }>({
+    username: '',
+    name: '',
+    role: 'student',
+    password: '',
+    active: true
+  });
+  const [materials, setMaterials] = useState<MaterialOption[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [locations, setLocations] = useState<Location[]>([]);
   const [stats, setStats] = useState<DashboardStats | null>(null);
+  const [statsRange, setStatsRange] = useState<{ period: StatsPeriod, from: string, to: string }>({ period: 'today', from: '', to: '' });
+  const [loans, setLoans] = useState<Loan[]>([]);
+  const [borrowers, setBorrowers] = useState<Borrower[]>([]);
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [txCursor, setTxCursor] = useState<string | null>(null);
+  const [isTxLoading, setIsTxLoading] = useState(false);
+  const [txFilters, setTxFilters] = useState<TransactionFilters>({
+    material_id: '',
+    category_id: '',
+    location_id: '',
+    type: '',
+    from: '',
+    to: '',
+    q: ''
+  });
+  const [txSort, setTxSort] = useState<{ field: 'date' | 'quantity' | 'material' | 'type', order: 'asc' | 'desc' }>({ field: 'date', order: 'desc' });
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const [inventoryFilters, setInventoryFilters] = useState<{ category_id: string, location_id: string, status: '' | StockStatus }>({ category_id: '', location_id: '', status: '' });
+  const [inventorySort, setInventorySort] = useState<{ field: MaterialSortField, order: 'asc' | 'desc' } | null>(null);
+  const [inventoryPageNumber, setInventoryPageNumber] = useState(1);
+  const [inventoryPage, setInventoryPage] = useState<MaterialPage | null>(null);
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isLocationModalOpen, setIsLocationModalOpen] = useState(false);
   const [isCategoryModalOpen, setIsCategoryModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isScanOpen, setIsScanOpen] = useState(false);
+  const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
+  const [transferMaterial, setTransferMaterial] = useState<Material | null>(null);
+  const [stockMovement, setStockMovement] = useState<{ material: Material, type: MovementType } | null>(null);
+  const [assetMaterialId, setAssetMaterialId] = useState<number | null>(null);
+  const [isLoanModalOpen, setIsLoanModalOpen] = useState(false);
+  const [loanView, setLoanView] = useState<'borrower' | 'material'>('borrower');
+  const [procurementView, setProcurementView] = useState<'requests' | 'orders' | 'suppliers'>('requests');
   const [editingMaterial, setEditingMaterial] = useState<Material | null>(null);
+  const [materialHistory, setMaterialHistory] = useState<AuditEntry[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [editingLocation, setEditingLocation] = useState<Location | null>(null);
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
   const [showSuggestions, setShowSuggestions] = useState(false);
@@ -46,6 +115,9 @@ export default function App() {
   const [isCameraLoading, setIsCameraLoading] = useState(false);
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
   const videoRef = React.useRef<HTMLVideoElement>(null);
+  const txSentinelRef = React.useRef<HTMLDivElement>(null);
+  // Bumped per history request; a response that is no longer the latest (e.g. a next page after the filters changed) is dropped
+  const txRequestRef = React.useRef(0);
 
   useEffect(() => {
     let stream: MediaStream | null = null;
@@ -90,44 +162,209 @@ export default function App() {
     category_id: 1,
     unit: '',
     min_stock: 5,
-    location: '',
-    image: ''
+    target_stock: '',
+    location_id: '',
+    image: '',
+    track_lots: false,
+    track_serials: false,
+    calibration_interval_days: '',
+    notes: ''
   });
   const [newLocationName, setNewLocationName] = useState('');
   const [newCategoryName, setNewCategoryName] = useState('');
+  const [newLoan, setNewLoan] = useState({
+    borrower_id: 0,
+    material_id: 0,
+    quantity: 1,
+    due_date: '',
+    notes: '',
+    asset_ids: [] as number[]
+  });
+  const [loanUnits, setLoanUnits] = useState<MaterialAsset[]>([]);
+  const [newBorrower, setNewBorrower] = useState({ name: '', nim: '', class_name: '' });
   
   useEffect(() => {
-    fetchData();
+    fetch('/api/auth/me')
+      .then(res => res.ok ? res.json() : null)
+      .then(user => setCurrentUser(user))
+      .catch(error => console.error("Error checking session:", error))
+      .finally(() => setIsAuthChecked(true));
   }, []);
 
+  useEffect(() => {
+    if (currentUser) fetchData();
+  }, [currentUser]);
+
+  useEffect(() => {
+    if (currentUser) fetchStats();
+  }, [statsRange]);
+
+  const isAdmin = currentUser?.role === 'admin';
+  const canEdit = currentUser?.role === 'admin' || currentUser?.role === 'laboran';
+
+  // A custom range is only requested once both ends are filled in
+  const fetchStats = async () => {
+    if (statsRange.period === 'custom' && (!statsRange.from || !statsRange.to)) return;
+    const params = new URLSearchParams(statsRange.period === 'custom' ? statsRange : { period: statsRange.period });
+    try {
+      const response = await fetch(`/api/stats?${params}`);
+      const data = await response.json();
+      if (response.ok) setStats(data);
+      else console.error("Error fetching stats:", data);
+    } catch (error) {
+      console.error("Error fetching stats:", error);
+    }
+  };
+
   const fetchData = async () => {
     try {
-      const [mRes, cRes, sRes, lRes] = await Promise.all([
-        fetch('/api/materials'),
+      const [mRes, cRes, lRes, loanRes, bRes] = await Promise.all([
+        fetch('/api/materials/options'),
         fetch('/api/categories'),
-        fetch('/api/stats'),
-        fetch('/api/locations')
+        fetch('/api/locations'),
+        fetch('/api/loans?status=active'),
+        fetch('/api/borrowers')
       ]);
+      if (mRes.status === 401) {
+        setCurrentUser(null);
+        return;
+      }
+      if (isAdmin) {
+        const uRes = await fetch('/api/users');
+        if (uRes.ok) setUsers(await uRes.json());
+      }
       setMaterials(await mRes.json());
       setCategories(await cRes.json());
-      setStats(await sRes.json());
+      fetchStats();
       setLocations(await lRes.json());
+      setLoans(await loanRes.json());
+      setBorrowers(await bRes.json());
+      // Every stock change or edit ends up here, so the open inventory page is reloaded with it
+      if (activeTab === 'inventory') fetchInventory();
     } catch (error) {
       console.error("Error fetching data:", error);
     }
   };
 
-  const handleTransaction = async (materialId: number, type: 'IN' | 'OUT', quantity: number, notes: string) => {
+  const fetchTransactions = useCallback(async (cursor: string | null) => {
+    const request = ++txRequestRef.current;
+    setIsTxLoading(true);
+    try {
+      const params = new URLSearchParams({ sort: txSort.field, order: txSort.order, limit: '25' });
+      (Object.entries(txFilters) as [string, string][]).forEach(([key, value]) => {
+        if (value) params.set(key, value);
+      });
+      if (cursor) params.set('cursor', cursor);
+
+      const response = await fetch(`/api/transactions?${params}`);
+      const page: TransactionPage = await response.json();
+      if (request !== txRequestRef.current) return;
+      if (!response.ok) {
+        console.error("Error fetching transactions:", page);
+        return;
+      }
+      setTransactions(prev => cursor ? [...prev, ...page.items] : page.items);
+      setTxCursor(page.nextCursor);
+    } catch (error) {
+      console.error("Error fetching transactions:", error);
+    } finally {
+      if (request === txRequestRef.current) setIsTxLoading(false);
+    }
+  }, [txFilters, txSort]);
+
+  useEffect(() => {
+    if (activeTab !== 'data-masuk') return;
+    // Debounce so typing in the notes filter doesn't fire a request per keystroke
+    const timer = setTimeout(() => fetchTransactions(null), 300);
+    return () => clearTimeout(timer);
+  }, [activeTab, fetchTransactions]);
+
+  useEffect(() => {
+    const sentinel = txSentinelRef.current;
+    if (!sentinel || !txCursor || isTxLoading) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) fetchTransactions(txCursor);
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [txCursor, isTxLoading, fetchTransactions]);
+
+  const fetchInventory = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ page: String(inventoryPageNumber), limit: '25' });
+      (Object.entries(inventoryFilters) as [string, string][]).forEach(([key, value]) => {
+        if (value) params.set(key, value);
+      });
+      if (searchQuery.trim()) params.set('q', searchQuery.trim());
+      // Without an explicit sort the server orders search hits by relevance and everything else by name
+      if (inventorySort) {
+        params.set('sort', inventorySort.field);
+        params.set('order', inventorySort.order);
+      }
+      const response = await fetch(`/api/materials?${params}`);
+      const page = await response.json();
+      if (!response.ok) {
+        console.error("Error fetching inventory:", page);
+        return;
+      }
+      setInventoryPage(page);
+    } catch (error) {
+      console.error("Error fetching inventory:", error);
+    }
+  }, [inventoryFilters, inventorySort, inventoryPageNumber, searchQuery]);
+
+  useEffect(() => {
+    if (activeTab !== 'inventory') return;
+    const timer = setTimeout(fetchInventory, 300);
+    return () => clearTimeout(timer);
+  }, [activeTab, fetchInventory]);
+
+  useEffect(() => {
+    setInventoryPageNumber(1);
+  }, [searchQuery, inventoryFilters, inventorySort]);
+
+  const toggleInventorySort = (field: MaterialSortField) => {
+    setInventorySort(prev => ({
+      field,
+      order: prev?.field === field && prev.order === 'asc' ? 'desc' : 'asc'
+    }));
+  };
+
+  const toggleTxSort = (field: 'date' | 'quantity' | 'material' | 'type') => {
+    setTxSort(prev => ({
+      field,
+      order: prev.field === field && prev.order === 'desc' ? 'asc' : 'desc'
+    }));
+  };
+
+  const handleTransaction = async (materialId: number, type: MovementType, quantity: number, notes: string, movement: StockMovement = {}, allowNegative = false): Promise<boolean> => {
     try {
-      await fetch('/api/transactions', {
+      const response = await fetch('/api/transactions', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ material_id: materialId, type, quantity, notes })
+        body: JSON.stringify({ material_id: materialId, type, quantity, notes, ...movement, allow_negative: allowNegative })
       });
-      fetchData();
+      if (response.ok) {
+        fetchData();
+        return true;
+      }
+
+      const err = await response.json();
+      console.error("Transaction error:", err);
+      const message = err.details ? `${err.error}\n\n${err.details}` : (err.error || 'Gagal memproses transaksi');
+      if (response.status === 409 && isAdmin && !allowNegative) {
+        // Insufficient stock: offer the admin-only negative stock override
+        if (window.confirm(`${message}\n\nSebagai admin, Anda dapat memaksa transaksi ini sehingga stok menjadi negatif. Lanjutkan?`)) {
+          return handleTransaction(materialId, type, quantity, notes, movement, true);
+        }
+      } else {
+        alert(message);
+      }
     } catch (error) {
       console.error("Error processing transaction:", error);
+      alert("Terjadi kesalahan koneksi saat memproses transaksi.");
     }
+    return false;
   };
 
   const handleAddMaterial = async (e: React.FormEvent) => {
@@ -136,7 +373,13 @@ export default function App() {
       const url = editingMaterial ? `/api/materials/${editingMaterial.id}` : '/api/materials';
       const method = editingMaterial ? 'PUT' : 'POST';
       
-      const payload = { ...newMaterial, image: capturedImage || newMaterial.image };
+      const payload = {
+        ...newMaterial,
+        target_stock: newMaterial.target_stock ? Number(newMaterial.target_stock) : null,
+        location_id: newMaterial.location_id ? Number(newMaterial.location_id) : null,
+        calibration_interval_days: newMaterial.calibration_interval_days ? Number(newMaterial.calibration_interval_days) : null,
+        image: capturedImage || newMaterial.image
+      };
 
       const response = await fetch(url, {
         method,
@@ -148,7 +391,7 @@ export default function App() {
         setEditingMaterial(null);
         setShowSuggestions(false);
         setCapturedImage(null);
-        setNewMaterial({ name: '', category_id: 1, unit: '', min_stock: 5, location: '', image: '' });
+        setNewMaterial({ name: '', category_id: 1, unit: '', min_stock: 5, target_stock: '', location_id: '', image: '', track_lots: false, track_serials: false, calibration_interval_days: '', notes: '' });
         fetchData();
       } else {
         const errorData = await response.json();
@@ -202,7 +445,11 @@ export default function App() {
       } else {
         const err = await response.json();
         console.error("Delete material error:", err);
-        alert(err.error || 'Gagal menghapus bahan');
+        if (err.details) {
+          alert(`${err.error}\n\n${err.details}`);
+        } else {
+          alert(err.error || 'Gagal menghapus bahan');
+        }
       }
     } catch (error) {
       console.error("Error deleting material:", error);
@@ -219,17 +466,36 @@ export default function App() {
       category_id: material.category_id,
       unit: material.unit,
       min_stock: material.min_stock,
-      location: material.location,
-      image: material.image || ''
+      target_stock: material.target_stock ? String(material.target_stock) : '',
+      location_id: material.location_id ? String(material.location_id) : '',
+      image: material.image || '',
+      track_lots: Boolean(material.track_lots),
+      track_serials: Boolean(material.track_serials),
+      calibration_interval_days: material.calibration_interval_days ? String(material.calibration_interval_days) : '',
+      notes: material.notes || ''
     });
     setIsAddModalOpen(true);
+    fetchMaterialHistory(material.id);
+  };
+
+  const fetchMaterialHistory = async (materialId: number) => {
+    setMaterialHistory([]);
+    setIsHistoryOpen(false);
+    try {
+      const response = await fetch(`/api/audit?entity=material&entity_id=${materialId}`);
+      if (response.ok) {
+        setMaterialHistory(await response.json());
+      }
+    } catch (error) {
+      console.error("Error fetching material history:", error);
+    }
   };
 
   const openAddModal = () => {
     setEditingMaterial(null);
     setShowSuggestions(false);
     setCapturedImage(null);
-    setNewMaterial({ name: '', category_id: 1, unit: '', min_stock: 5, location: '', image: '' });
+    setNewMaterial({ name: '', category_id: 1, unit: '', min_stock: 5, target_stock: '', location_id: '', image: '', track_lots: false, track_serials: false, calibration_interval_days: '', notes: '' });
     setIsAddModalOpen(true);
   };
 
@@ -358,10 +624,178 @@ export default function App() {
     setIsCategoryModalOpen(true);
   };
 
-  const filteredMaterials = materials.filter(m => 
-    m.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    m.category_name?.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  const openLoanModal = () => {
+    const dueDate = new Date();
+    dueDate.setDate(dueDate.getDate() + 7);
+    setNewLoan({
+      borrower_id: borrowers[0]?.id || 0,
+      material_id: materials[0]?.id || 0,
+      quantity: 1,
+      due_date: dueDate.toISOString().slice(0, 10),
+      notes: '',
+      asset_ids: []
+    });
+    setNewBorrower({ name: '', nim: '', class_name: '' });
+    setIsLoanModalOpen(true);
+  };
+
+  const loanMaterial = materials.find(m => m.id === newLoan.material_id);
+
+  // The material list carries no units, so those of a serialized material are loaded once it is picked
+  useEffect(() => {
+    if (!isLoanModalOpen || !loanMaterial?.track_serials) {
+      setLoanUnits([]);
+      return;
+    }
+    const fetchUnits = async () => {
+      try {
+        const response = await fetch(`/api/materials/${loanMaterial.id}/assets`);
+        if (response.ok) setLoanUnits(await response.json());
+      } catch (error) {
+        console.error("Error fetching units:", error);
+      }
+    };
+    fetchUnits();
+  }, [isLoanModalOpen, loanMaterial?.id, loanMaterial?.track_serials]);
+
+  const handleSaveLoan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (loanMaterial?.track_serials && newLoan.asset_ids.length === 0) {
+      alert('Pilih unit yang dipinjam.');
+      return;
+    }
+    try {
+      let borrowerId = newLoan.borrower_id;
+
+      // Register the borrower first when a new one is entered
+      if (!borrowerId) {
+        const bResponse = await fetch('/api/borrowers', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(newBorrower)
+        });
+        const bData = await bResponse.json();
+        if (!bResponse.ok) {
+          alert(bData.error || 'Gagal menyimpan peminjam');
+          return;
+        }
+        borrowerId = bData.id;
+      }
+
+      const response = await fetch('/api/loans', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...newLoan, borrower_id: borrowerId })
+      });
+      if (response.ok) {
+        setIsLoanModalOpen(false);
+        fetchData();
+      } else {
+        const err = await response.json();
+        alert(err.error || 'Gagal menyimpan peminjaman');
+      }
+    } catch (error) {
+      console.error("Error saving loan:", error);
+      alert("Terjadi kesalahan koneksi saat menyimpan peminjaman.");
+    }
+  };
+
+  const handleReturnLoan = async (loan: Loan) => {
+    if (!window.confirm(`Tandai ${loan.quantity} ${loan.material_unit || ''} ${loan.material_name} dari ${loan.borrower_name} sebagai dikembalikan?`)) return;
+    try {
+      const response = await fetch(`/api/loans/${loan.id}/return`, { method: 'POST' });
+      if (response.ok) {
+        fetchData();
+      } else {
+        const err = await response.json();
+        alert(err.error || 'Gagal mencatat pengembalian');
+      }
+    } catch (error) {
+      console.error("Error returning loan:", error);
+      alert("Terjadi kesalahan koneksi saat mencatat pengembalian.");
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error("Error logging out:", error);
+    }
+    setCurrentUser(null);
+    setActiveTab('dashboard');
+  };
+
+  const openUserAddModal = () => {
+    setEditingUser(null);
+    setNewUser({ username: '', name: '', role: 'student', password: '', active: true });
+    setIsUserModalOpen(true);
+  };
+
+  const openUserEditModal = (user: User) => {
+    setEditingUser(user);
+    setNewUser({ username: user.username, name: user.name, role: user.role, password: '', active: user.active !== 0 });
+    setIsUserModalOpen(true);
+  };
+
+  const handleSaveUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const url = editingUser ? `/api/users/${editingUser.id}` : '/api/users';
+      const method = editingUser ? 'PUT' : 'POST';
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newUser)
+      });
+      if (response.ok) {
+        setIsUserModalOpen(false);
+        setEditingUser(null);
+        fetchData();
+      } else {
+        const err = await response.json();
+        alert(err.error || 'Gagal menyimpan pengguna');
+      }
+    } catch (error) {
+      console.error("Error saving user:", error);
+      alert("Terjadi kesalahan koneksi saat menyimpan pengguna.");
+    }
+  };
+
+  const handleDeleteUser = async (id: number) => {
+    if (!window.confirm('Hapus pengguna ini?')) return;
+    try {
+      const response = await fetch(`/api/users/${id}`, { method: 'DELETE' });
+      if (response.ok) {
+        fetchData();
+      } else {
+        const err = await response.json();
+        if (err.details) {
+          alert(`${err.error}\n\n${err.details}`);
+        } else {
+          alert(err.error || 'Gagal menghapus pengguna');
+        }
+      }
+    } catch (error) {
+      console.error("Error deleting user:", error);
+      alert("Terjadi kesalahan koneksi saat menghapus pengguna.");
+    }
+  };
+
+  const overdueLoans = loans.filter(l => l.is_overdue);
+
+  const loanGroups: Record<string, Loan[]> = {};
+  loans.forEach(loan => {
+    const key = loanView === 'borrower'
+      ? `${loan.borrower_name} (${loan.borrower_nim})${loan.borrower_class ? ` - ${loan.borrower_class}` : ''}`
+      : loan.material_name || '-';
+    (loanGroups[key] = loanGroups[key] || []).push(loan);
+  });
+
+  const inventoryItems = inventoryPage?.items || [];
+
+  if (!isAuthChecked) return null;
+  if (!currentUser) return <LoginScreen onLogin={setCurrentUser} />;
 
   return (
     <div className="min-h-screen bg-[#F5F5F5] flex font-sans text-slate-900">
@@ -401,6 +835,48 @@ export default function App() {
             collapsed={!isSidebarOpen}
             onClick={() => setActiveTab('data-masuk')}
           />
+          <NavItem 
+            icon={<ClipboardList size={20} />} 
+            label="Peminjaman" 
+            active={activeTab === 'peminjaman'} 
+            collapsed={!isSidebarOpen}
+            onClick={() => setActiveTab('peminjaman')}
+          />
+          <NavItem 
+            icon={<ClipboardCheck size={20} />} 
+            label="Stock Opname" 
+            active={activeTab === 'stock-opname'} 
+            collapsed={!isSidebarOpen}
+            onClick={() => setActiveTab('stock-opname')}
+          />
+          <NavItem 
+            icon={<Boxes size={20} />} 
+            label="Kit Praktikum" 
+            active={activeTab === 'kit'} 
+            collapsed={!isSidebarOpen}
+            onClick={() => setActiveTab('kit')}
+          />
+          <NavItem 
+            icon={<CalendarDays size={20} />} 
+            label="Jadwal Praktikum" 
+            active={activeTab === 'praktikum'} 
+            collapsed={!isSidebarOpen}
+            onClick={() => setActiveTab('praktikum')}
+          />
+          <NavItem 
+            icon={<Wrench size={20} />} 
+            label="Pemeliharaan" 
+            active={activeTab === 'pemeliharaan'} 
+            collapsed={!isSidebarOpen}
+            onClick={() => setActiveTab('pemeliharaan')}
+          />
+          <NavItem 
+            icon={<ShoppingCart size={20} />} 
+            label="Pengadaan" 
+            active={activeTab === 'pengadaan'} 
+            collapsed={!isSidebarOpen}
+            onClick={() => setActiveTab('pengadaan')}
+          />
           <NavItem 
             icon={<MapPin size={20} />} 
             label="Lokasi" 
@@ -415,8 +891,40 @@ export default function App() {
             collapsed={!isSidebarOpen}
             onClick={() => setActiveTab('categories')}
           />
+          {isAdmin && (
+            <NavItem 
+              icon={<Users size={20} />} 
+              label="Pengguna" 
+              active={activeTab === 'users'} 
+              collapsed={!isSidebarOpen}
+              onClick={() => setActiveTab('users')}
+            />
+          )}
         </nav>
 
+        <div className="px-3 pb-2">
+          {isSidebarOpen && (
+            <div className="px-4 pb-2">
+              <p className="text-sm font-medium truncate">{currentUser.name}</p>
+              <p className="text-[10px] text-slate-400 uppercase tracking-widest">{ROLE_LABELS[currentUser.role]}</p>
+            </div>
+          )}
+          {canEdit && (
+            <NavItem 
+              icon={<Bell size={20} />} 
+              label="Notifikasi" 
+              collapsed={!isSidebarOpen}
+              onClick={() => setIsNotificationsOpen(true)}
+            />
+          )}
+          <NavItem 
+            icon={<LogOut size={20} />} 
+            label="Keluar" 
+            collapsed={!isSidebarOpen}
+            onClick={handleLogout}
+          />
+        </div>
+
         <button 
           onClick={() => setIsSidebarOpen(!isSidebarOpen)}
           className="p-4 hover:bg-slate-800 flex justify-center text-slate-400"
@@ -440,6 +948,13 @@ export default function App() {
                 onChange={(e) => setSearchQuery(e.target.value)}
               />
             </div>
+            <button 
+              onClick={() => setIsScanOpen(true)}
+              className="p-2 bg-slate-100 rounded-full text-slate-600 hover:bg-emerald-100 hover:text-emerald-600 transition-colors"
+              title="Pindai Label QR"
+            >
+              <ScanLine size={18} />
+            </button>
           </div>
         </header>
 
@@ -453,7 +968,49 @@ export default function App() {
                 exit={{ opacity: 0, y: -20 }}
                 className="space-y-8"
               >
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                {Number(stats?.overReserved) > 0 && (
+                  <button 
+                    onClick={() => setActiveTab('praktikum')}
+                    className="w-full flex items-center gap-3 p-4 bg-rose-50 border border-rose-100 rounded-2xl text-left text-sm text-rose-700 hover:bg-rose-100 transition-colors"
+                  >
+                    <AlertTriangle size={18} className="shrink-0" />
+                    <span className="flex-1">
+                      {stats?.overReserved} bahan dipesan sesi praktikum melebihi stok yang tersedia.
+                    </span>
+                    <ChevronRight size={16} />
+                  </button>
+                )}
+                <div className="flex flex-wrap items-center gap-3">
+                  <div className="flex bg-white border border-slate-200 rounded-xl overflow-hidden text-xs font-medium">
+                    {(Object.keys(STATS_PERIODS) as StatsPeriod[]).map(period => (
+                      <button 
+                        key={period}
+                        onClick={() => setStatsRange({ ...statsRange, period })}
+                        className={`px-3 py-2 ${statsRange.period === period ? 'bg-emerald-500 text-white' : 'text-slate-500 hover:bg-slate-50'}`}
+                      >
+                        {STATS_PERIODS[period]}
+                      </button>
+                    ))}
+                  </div>
+                  {statsRange.period === 'custom' && (
+                    <div className="flex items-center gap-2 text-xs text-slate-400">
+                      <input 
+                        type="date" 
+                        className="bg-white border border-slate-200 rounded-xl px-3 py-2 text-xs focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                        value={statsRange.from}
+                        onChange={(e) => setStatsRange({ ...statsRange, from: e.target.value })}
+                      />
+                      s.d.
+                      <input 
+                        type="date" 
+                        className="bg-white border border-slate-200 rounded-xl px-3 py-2 text-xs focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                        value={statsRange.to}
+                        onChange={(e) => setStatsRange({ ...statsRange, to: e.target.value })}
+                      />
+                    </div>
+                  )}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
                   <StatCard 
                     title="Total Bahan" 
                     value={stats?.totalMaterials || 0} 
@@ -466,8 +1023,15 @@ export default function App() {
                     alert={Number(stats?.lowStock) > 0}
                   />
                   <StatCard 
-                    title="Transaksi Hari Ini" 
-                    value={stats?.recentTransactions.length || 0} 
+                    title="Stok Habis" 
+                    value={stats?.outOfStock || 0} 
+                    icon={<PackageX className="text-rose-500" />}
+                    alert={Number(stats?.outOfStock) > 0}
+                  />
+                  <StatCard 
+                    title={`Transaksi ${statsRange.period === 'custom' ? 'Periode Ini' : STATS_PERIODS[statsRange.period]}`} 
+                    value={stats?.transactions.count || 0} 
+                    subtitle={stats && `Masuk ${stats.transactions.inCount}× (${stats.transactions.inQuantity}) · Keluar ${stats.transactions.outCount}× (${stats.transactions.outQuantity})`}
                     icon={<History className="text-emerald-500" />} 
                   />
                 </div>
@@ -479,16 +1043,16 @@ export default function App() {
                       {stats?.recentTransactions.map((t) => (
                         <div key={t.id} className="flex items-center justify-between p-3 hover:bg-slate-50 rounded-xl transition-colors">
                           <div className="flex items-center gap-3">
-                            <div className={`p-2 rounded-lg ${t.type === 'IN' ? 'bg-emerald-100 text-emerald-600' : 'bg-rose-100 text-rose-600'}`}>
-                              {t.type === 'IN' ? <ArrowDownLeft size={16} /> : <ArrowUpRight size={16} />}
+                            <div className={`p-2 rounded-lg ${signedQuantity(t) >= 0 ? 'bg-emerald-100 text-emerald-600' : 'bg-rose-100 text-rose-600'}`}>
+                              {signedQuantity(t) >= 0 ? <ArrowDownLeft size={16} /> : <ArrowUpRight size={16} />}
                             </div>
                             <div>
                               <p className="text-sm font-medium">{t.material_name}</p>
                               <p className="text-[10px] text-slate-400">{new Date(t.date).toLocaleString()}</p>
                             </div>
                           </div>
-                          <p className={`text-sm font-bold ${t.type === 'IN' ? 'text-emerald-600' : 'text-rose-600'}`}>
-                            {t.type === 'IN' ? '+' : '-'}{t.quantity}
+                          <p className={`text-sm font-bold ${signedQuantity(t) >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                            {signedQuantity(t) >= 0 ? '+' : '-'}{Math.abs(signedQuantity(t))}
                           </p>
                         </div>
                       ))}
@@ -496,13 +1060,23 @@ export default function App() {
                   </div>
 
                   <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
-                    <h3 className="text-sm font-bold uppercase tracking-wider text-slate-400 mb-6">Bahan Stok Rendah</h3>
+                    <div className="flex justify-between items-center mb-6">
+                      <h3 className="text-sm font-bold uppercase tracking-wider text-slate-400">Bahan Stok Rendah</h3>
+                      {canEdit && Number(stats?.lowStock) > 0 && (
+                        <button 
+                          onClick={() => setActiveTab('pengadaan')}
+                          className="text-xs font-medium text-emerald-600 hover:text-emerald-700 flex items-center gap-1"
+                        >
+                          <ShoppingCart size={14} /> Ajukan Pembelian
+                        </button>
+                      )}
+                    </div>
                     <div className="space-y-4">
                       {materials.filter(m => m.stock <= m.min_stock).slice(0, 5).map((m) => (
                         <div key={m.id} className="flex items-center justify-between p-3 bg-amber-50 rounded-xl border border-amber-100">
                           <div className="flex items-center gap-3">
                             {m.image ? (
-                              <img src={m.image} alt={m.name} className="w-10 h-10 rounded-lg object-cover border border-amber-200" referrerPolicy="no-referrer" />
+                              <img src={m.thumbnail || m.image} alt={m.name} className="w-10 h-10 rounded-lg object-cover border border-amber-200" referrerPolicy="no-referrer" />
                             ) : (
                               <div className="w-10 h-10 rounded-lg bg-amber-100 flex items-center justify-center text-amber-400">
                                 <Package size={20} />
@@ -526,7 +1100,32 @@ export default function App() {
                       ))}
                     </div>
                   </div>
+
+                  <ExpiringLotsPanel refreshKey={materials} />
+
+                  <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+                    <h3 className="text-sm font-bold uppercase tracking-wider text-slate-400 mb-6">Bahan Paling Aktif</h3>
+                    <div className="space-y-4">
+                      {stats?.mostActive.length === 0 && <p className="text-sm text-slate-400 italic">Belum ada transaksi pada periode ini.</p>}
+                      {stats?.mostActive.map(m => (
+                        <div key={m.material_id} className="flex items-center justify-between p-3 hover:bg-slate-50 rounded-xl transition-colors">
+                          <div>
+                            <p className="text-sm font-medium">{m.material_name}</p>
+                            <p className="text-[10px] text-slate-400">{m.transaction_count} transaksi</p>
+                          </div>
+                          <p className="text-xs font-bold text-right">
+                            <span className="text-emerald-600">+{m.in_quantity}</span>
+                            <span className="text-slate-300"> / </span>
+                            <span className="text-rose-600">-{m.out_quantity}</span>
+                            <span className="font-normal text-slate-400"> {m.unit}</span>
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
                 </div>
+
+                <ConsumptionAnalyticsPanel materials={materials} categories={categories} refreshKey={materials} />
               </motion.div>
             )}
 
@@ -539,31 +1138,85 @@ export default function App() {
               >
                 <div className="p-6 border-b border-slate-100 flex justify-between items-center">
                   <h3 className="font-bold">Daftar Bahan Praktik</h3>
-                  <button 
-                    onClick={openAddModal}
-                    className="bg-slate-900 text-white px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 hover:bg-slate-800 transition-colors"
+                  <div className="flex gap-2">
+                    <ExportButtons url="/api/export/materials" />
+                    <a 
+                      href={searchQuery ? `/api/labels/materials?ids=${inventoryItems.map(m => m.id).join(',')}` : '/api/labels/materials'}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="bg-white border border-slate-200 text-slate-700 px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 hover:bg-slate-50 transition-colors"
+                      title={searchQuery ? 'Cetak label untuk bahan hasil pencarian' : 'Cetak label untuk semua bahan'}
+                    >
+                      <QrCode size={16} /> Label
+                    </a>
+                    {canEdit && (
+                      <button 
+                        onClick={() => setIsImportModalOpen(true)}
+                        className="bg-white border border-slate-200 text-slate-700 px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 hover:bg-slate-50 transition-colors"
+                      >
+                        <Upload size={16} /> Impor
+                      </button>
+                    )}
+                    {canEdit && (
+                      <button 
+                        onClick={openAddModal}
+                        className="bg-slate-900 text-white px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 hover:bg-slate-800 transition-colors"
+                      >
+                        <Plus size={16} /> Tambah Bahan
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <div className="px-6 py-4 border-b border-slate-100 grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <select 
+                    className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                    value={inventoryFilters.category_id}
+                    onChange={(e) => setInventoryFilters({...inventoryFilters, category_id: e.target.value})}
                   >
-                    <Plus size={16} /> Tambah Bahan
-                  </button>
+                    <option value="">Semua Kategori</option>
+                    {categories.map(c => (
+                      <option key={c.id} value={c.id}>{c.name}</option>
+                    ))}
+                  </select>
+                  <select 
+                    className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                    value={inventoryFilters.location_id}
+                    onChange={(e) => setInventoryFilters({...inventoryFilters, location_id: e.target.value})}
+                  >
+                    <option value="">Semua Lokasi</option>
+                    {locations.map(l => (
+                      <option key={l.id} value={l.id}>{l.name}</option>
+                    ))}
+                  </select>
+                  <select 
+                    className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                    value={inventoryFilters.status}
+                    onChange={(e) => setInventoryFilters({...inventoryFilters, status: e.target.value as '' | StockStatus})}
+                  >
+                    <option value="">Semua Status Stok</option>
+                    {(Object.keys(STOCK_STATUS_LABELS) as StockStatus[]).map(status => (
+                      <option key={status} value={status}>{STOCK_STATUS_LABELS[status]}</option>
+                    ))}
+                  </select>
                 </div>
                 <div className="overflow-x-auto">
                   <table className="w-full text-left border-collapse">
                     <thead>
                       <tr className="bg-slate-50 border-b border-slate-100">
-                        <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-wider text-slate-400">Nama Bahan</th>
-                        <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-wider text-slate-400">Kategori</th>
-                        <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-wider text-slate-400">Stok</th>
-                        <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-wider text-slate-400">Lokasi</th>
+                        <SortableHeader label="Nama Bahan" active={inventorySort?.field === 'name'} order={inventorySort?.order ?? 'asc'} onClick={() => toggleInventorySort('name')} />
+                        <SortableHeader label="Kategori" active={inventorySort?.field === 'category'} order={inventorySort?.order ?? 'asc'} onClick={() => toggleInventorySort('category')} />
+                        <SortableHeader label="Stok" active={inventorySort?.field === 'stock'} order={inventorySort?.order ?? 'asc'} onClick={() => toggleInventorySort('stock')} />
+                        <SortableHeader label="Lokasi" active={inventorySort?.field === 'location'} order={inventorySort?.order ?? 'asc'} onClick={() => toggleInventorySort('location')} />
                         <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-wider text-slate-400">Aksi</th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-slate-100">
-                      {filteredMaterials.map((m) => (
+                      {inventoryItems.map((m) => (
                         <tr key={m.id} className="hover:bg-slate-50 transition-colors group">
                           <td className="px-6 py-4">
                             <div className="flex items-center gap-3">
                               {m.image ? (
-                                <img src={m.image} alt={m.name} className="w-10 h-10 rounded-lg object-cover border border-slate-200" referrerPolicy="no-referrer" />
+                                <img src={m.thumbnail || m.image} alt={m.name} className="w-10 h-10 rounded-lg object-cover border border-slate-200" referrerPolicy="no-referrer" />
                               ) : (
                                 <div className="w-10 h-10 rounded-lg bg-slate-100 flex items-center justify-center text-slate-400">
                                   <Package size={20} />
@@ -571,7 +1224,7 @@ export default function App() {
                               )}
                               <div>
                                 <p className="text-sm font-medium">{m.name}</p>
-                                <p className="text-[10px] text-slate-400">{m.unit}</p>
+                                <p className="text-[10px] text-slate-400">{m.unit}{m.notes ? ` · ${m.notes}` : ''}</p>
                               </div>
                             </div>
                           </td>
@@ -587,46 +1240,122 @@ export default function App() {
                               </span>
                               {m.stock <= m.min_stock && <AlertTriangle size={12} className="text-amber-500" />}
                             </div>
-                          </td>
-                          <td className="px-6 py-4 text-sm text-slate-500">{m.location || '-'}</td>
-                          <td className="px-6 py-4">
-                            <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                              <button 
-                                onClick={() => handleTransaction(m.id, 'IN', 1, 'Restock manual')}
-                                className="p-1.5 hover:bg-emerald-50 text-emerald-600 rounded-lg transition-colors"
-                                title="Tambah Stok"
-                              >
-                                <ArrowDownLeft size={16} />
-                              </button>
-                              <button 
-                                onClick={() => handleTransaction(m.id, 'OUT', 1, 'Pengambilan manual')}
-                                className="p-1.5 hover:bg-rose-50 text-rose-600 rounded-lg transition-colors"
-                                title="Kurangi Stok"
-                              >
-                                <ArrowUpRight size={16} />
-                              </button>
-                              <div className="w-px h-4 bg-slate-200 self-center mx-1" />
-                              <button 
-                                onClick={() => openEditModal(m)}
-                                className="p-1.5 hover:bg-blue-50 text-blue-600 rounded-lg transition-colors"
-                                title="Edit Bahan"
-                              >
-                                <Edit2 size={16} />
-                              </button>
+                            {Number(m.reserved) > 0 && (
+                              <p className={`text-[10px] ${m.stock - Number(m.reserved) < 0 ? 'text-rose-600 font-bold' : 'text-slate-400'}`}>
+                                Tersedia {m.stock - Number(m.reserved)} &middot; dipesan {m.reserved}
+                              </p>
+                            )}
+                            {Boolean(m.track_serials) && (
                               <button 
-                                onClick={() => handleDeleteMaterial(m.id)}
-                                className="p-1.5 hover:bg-rose-50 text-rose-600 rounded-lg transition-colors"
-                                title="Hapus Bahan"
+                                onClick={() => setAssetMaterialId(m.id)}
+                                className="text-[10px] text-blue-600 hover:underline flex items-center gap-0.5"
                               >
-                                <Trash2 size={16} />
+                                <Hash size={10} /> {m.assets?.length ?? 0} unit terdaftar
                               </button>
-                            </div>
+                            )}
+                            {m.lots && m.lots.length > 0 && (
+                              <p className={`text-[10px] ${m.lots.some(l => l.days_left !== null && l.days_left < 0) ? 'text-rose-600 font-bold' : 'text-slate-400'}`}>
+                                {m.lots.length} lot &middot; {expiryLabel(m.lots[0])}
+                              </p>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-slate-500">
+                            {m.stocks && m.stocks.length > 0 ? (
+                              <ul className="space-y-0.5">
+                                {m.stocks.map(s => (
+                                  <li key={s.location_id ?? 'none'} className="flex justify-between gap-3 text-xs">
+                                    <span className={s.location_id === m.location_id ? 'font-medium text-slate-700' : ''}>{s.location_name || 'Tanpa lokasi'}</span>
+                                    <span className={s.quantity < 0 ? 'text-rose-600 font-bold' : ''}>{s.quantity}</span>
+                                  </li>
+                                ))}
+                              </ul>
+                            ) : (m.location_name || '-')}
+                          </td>
+                          <td className="px-6 py-4">
+                            {canEdit && (
+                              <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                                <button 
+                                  onClick={() => m.track_lots || m.track_serials ? setStockMovement({ material: m, type: 'IN' }) : handleTransaction(m.id, 'IN', 1, 'Restock manual')}
+                                  className="p-1.5 hover:bg-emerald-50 text-emerald-600 rounded-lg transition-colors"
+                                  title="Tambah Stok"
+                                >
+                                  <ArrowDownLeft size={16} />
+                                </button>
+                                <button 
+                                  onClick={() => m.track_lots || m.track_serials ? setStockMovement({ material: m, type: 'OUT' }) : handleTransaction(m.id, 'OUT', 1, 'Pengambilan manual')}
+                                  className="p-1.5 hover:bg-rose-50 text-rose-600 rounded-lg transition-colors"
+                                  title="Kurangi Stok"
+                                >
+                                  <ArrowUpRight size={16} />
+                                </button>
+                                <button 
+                                  onClick={() => setStockMovement({ material: m, type: 'DAMAGED' })}
+                                  className="p-1.5 hover:bg-orange-50 text-orange-600 rounded-lg transition-colors"
+                                  title="Catat Rusak / Hilang"
+                                >
+                                  <PackageX size={16} />
+                                </button>
+                                <button 
+                                  onClick={() => setTransferMaterial(m)}
+                                  className="p-1.5 hover:bg-violet-50 text-violet-600 rounded-lg transition-colors"
+                                  title="Pindah Lokasi"
+                                >
+                                  <ArrowLeftRight size={16} />
+                                </button>
+                                <div className="w-px h-4 bg-slate-200 self-center mx-1" />
+                                <button 
+                                  onClick={() => openEditModal(m)}
+                                  className="p-1.5 hover:bg-blue-50 text-blue-600 rounded-lg transition-colors"
+                                  title="Edit Bahan"
+                                >
+                                  <Edit2 size={16} />
+                                </button>
+                                {isAdmin && (
+                                  <button 
+                                    onClick={() => handleDeleteMaterial(m.id)}
+                                    className="p-1.5 hover:bg-rose-50 text-rose-600 rounded-lg transition-colors"
+                                    title="Hapus Bahan"
+                                  >
+                                    <Trash2 size={16} />
+                                  </button>
+                                )}
+                              </div>
+                            )}
                           </td>
                         </tr>
                       ))}
                     </tbody>
                   </table>
+                  {inventoryPage && inventoryPage.total === 0 && (
+                    <p className="p-6 text-sm text-slate-400 italic">Tidak ada bahan yang cocok dengan pencarian atau filter.</p>
+                  )}
                 </div>
+                {inventoryPage && inventoryPage.total > 0 && (
+                  <div className="px-6 py-4 border-t border-slate-100 flex justify-between items-center text-xs text-slate-500">
+                    <span>
+                      {(inventoryPage.page - 1) * inventoryPage.limit + 1}&ndash;{(inventoryPage.page - 1) * inventoryPage.limit + inventoryItems.length} dari {inventoryPage.total} bahan
+                    </span>
+                    <div className="flex items-center gap-2">
+                      <button 
+                        onClick={() => setInventoryPageNumber(inventoryPage.page - 1)}
+                        disabled={inventoryPage.page <= 1}
+                        className="p-1.5 rounded-lg hover:bg-slate-100 disabled:opacity-30 disabled:hover:bg-transparent"
+                        title="Halaman sebelumnya"
+                      >
+                        <ChevronLeft size={16} />
+                      </button>
+                      <span>Halaman {inventoryPage.page} / {Math.ceil(inventoryPage.total / inventoryPage.limit)}</span>
+                      <button 
+                        onClick={() => setInventoryPageNumber(inventoryPage.page + 1)}
+                        disabled={inventoryPage.page * inventoryPage.limit >= inventoryPage.total}
+                        className="p-1.5 rounded-lg hover:bg-slate-100 disabled:opacity-30 disabled:hover:bg-transparent"
+                        title="Halaman berikutnya"
+                      >
+                        <ChevronRight size={16} />
+                      </button>
+                    </div>
+                  </div>
+                )}
               </motion.div>
             )}
             {activeTab === 'data-masuk' && (
@@ -636,39 +1365,358 @@ export default function App() {
                 animate={{ opacity: 1 }}
                 className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden"
               >
-                <div className="p-6 border-b border-slate-100">
-                  <h3 className="font-bold">Riwayat Data Masuk & Keluar</h3>
-                </div>
-                <div className="overflow-x-auto">
-                  <table className="w-full text-left border-collapse">
-                    <thead>
-                      <tr className="bg-slate-50 border-b border-slate-100">
-                        <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-wider text-slate-400">Bahan</th>
-                        <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-wider text-slate-400">Tipe</th>
-                        <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-wider text-slate-400">Jumlah</th>
-                        <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-wider text-slate-400">Tanggal</th>
-                        <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-wider text-slate-400">Catatan</th>
-                      </tr>
-                    </thead>
-                    <tbody className="divide-y divide-slate-100">
-                      {stats?.recentTransactions.map((t) => (
+                <div className="p-6 border-b border-slate-100 space-y-4">
+                  <div className="flex justify-between items-center">
+                    <h3 className="font-bold">Riwayat Data Masuk & Keluar</h3>
+                    <div className="flex items-center gap-2">
+                      <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400">Pemakaian & susut</span>
+                      <ExportButtons 
+                        url={`/api/export/movement-summary?${new URLSearchParams(
+                          Object.fromEntries((Object.entries(txFilters) as [string, string][]).filter(([key, value]) => value && key !== 'type'))
+                        )}`} 
+                      />
+                      <ExportButtons 
+                        url={`/api/export/transactions?${new URLSearchParams({
+                          ...Object.fromEntries(Object.entries(txFilters).filter(([, value]) => value)),
+                          sort: txSort.field,
+                          order: txSort.order
+                        })}`} 
+                      />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+                    <select 
+                      className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                      value={txFilters.material_id}
+                      onChange={(e) => setTxFilters({...txFilters, material_id: e.target.value})}
+                    >
+                      <option value="">Semua Bahan</option>
+                      {materials.map(m => (
+                        <option key={m.id} value={m.id}>{m.name}</option>
+                      ))}
+                    </select>
+                    <select 
+                      className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                      value={txFilters.category_id}
+                      onChange={(e) => setTxFilters({...txFilters, category_id: e.target.value})}
+                    >
+                      <option value="">Semua Kategori</option>
+                      {categories.map(cat => (
+                        <option key={cat.id} value={cat.id}>{cat.name}</option>
+                      ))}
+                    </select>
+                    <select 
+                      className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                      value={txFilters.location_id}
+                      onChange={(e) => setTxFilters({...txFilters, location_id: e.target.value})}
+                    >
+                      <option value="">Semua Lokasi</option>
+                      {locations.map(loc => (
+                        <option key={loc.id} value={loc.id}>{loc.name}</option>
+                      ))}
+                    </select>
+                    <select 
+                      className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                      value={txFilters.type}
+                      onChange={(e) => setTxFilters({...txFilters, type: e.target.value as TransactionFilters['type']})}
+                    >
+                      <option value="">Semua Tipe</option>
+                      {(Object.keys(TRANSACTION_TYPES) as TransactionType[]).map(type => (
+                        <option key={type} value={type}>{TRANSACTION_TYPES[type].label}</option>
+                      ))}
+                    </select>
+                    <input 
+                      type="date" 
+                      title="Dari tanggal"
+                      className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                      value={txFilters.from}
+                      onChange={(e) => setTxFilters({...txFilters, from: e.target.value})}
+                    />
+                    <input 
+                      type="date" 
+                      title="Sampai tanggal"
+                      className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                      value={txFilters.to}
+                      onChange={(e) => setTxFilters({...txFilters, to: e.target.value})}
+                    />
+                    <input 
+                      type="text" 
+                      placeholder="Cari catatan..."
+                      className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                      value={txFilters.q}
+                      onChange={(e) => setTxFilters({...txFilters, q: e.target.value})}
+                    />
+                  </div>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left border-collapse">
+                    <thead>
+                      <tr className="bg-slate-50 border-b border-slate-100">
+                        <SortableHeader label="Bahan" active={txSort.field === 'material'} order={txSort.order} onClick={() => toggleTxSort('material')} />
+                        <SortableHeader label="Tipe" active={txSort.field === 'type'} order={txSort.order} onClick={() => toggleTxSort('type')} />
+                        <SortableHeader label="Jumlah" active={txSort.field === 'quantity'} order={txSort.order} onClick={() => toggleTxSort('quantity')} />
+                        <SortableHeader label="Tanggal" active={txSort.field === 'date'} order={txSort.order} onClick={() => toggleTxSort('date')} />
+                        <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-wider text-slate-400">Catatan</th>
+                        <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-wider text-slate-400">Oleh</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {transactions.map((t) => (
                         <tr key={t.id} className="hover:bg-slate-50 transition-colors">
-                          <td className="px-6 py-4 text-sm font-medium">{t.material_name}</td>
                           <td className="px-6 py-4">
-                            <span className={`px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider ${
-                              t.type === 'IN' ? 'bg-emerald-100 text-emerald-600' : 'bg-rose-100 text-rose-600'
-                            }`}>
-                              {t.type === 'IN' ? 'Masuk' : 'Keluar'}
+                            <p className="text-sm font-medium">{t.material_name}</p>
+                            <p className="text-[10px] text-slate-400">{t.category_name}{t.location_name ? ` · ${t.location_name}` : ''}</p>
+                          </td>
+                          <td className="px-6 py-4">
+                            <span className={`px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider ${TRANSACTION_TYPES[t.type].className}`}>
+                              {TRANSACTION_TYPES[t.type].label}
                             </span>
+                            {t.reason_code && (
+                              <p className="mt-1 text-[10px] text-slate-500">{REASON_CODES[t.type]?.[t.reason_code] ?? t.reason_code}</p>
+                            )}
                           </td>
-                          <td className="px-6 py-4 text-sm font-bold">{t.quantity}</td>
+                          <td className="px-6 py-4 text-sm font-bold">{t.quantity} <span className="text-[10px] font-normal text-slate-400">{t.material_unit}</span></td>
                           <td className="px-6 py-4 text-sm text-slate-500">{new Date(t.date).toLocaleString()}</td>
-                          <td className="px-6 py-4 text-sm text-slate-400 italic">{t.notes || '-'}</td>
+                          <td className="px-6 py-4 text-sm text-slate-400 italic">
+                            {t.notes || '-'}
+                            {t.supplier_name && (
+                              <span className="block not-italic text-[10px] text-blue-600">
+                                PO-{String(t.purchase_order_id).padStart(4, '0')} &middot; {t.supplier_name}
+                              </span>
+                            )}
+                            {t.kit_name && (
+                              <span className="block not-italic text-[10px] text-blue-600">Kit {t.kit_name}</span>
+                            )}
+                            {t.lot_numbers && (
+                              <span className="block not-italic text-[10px] text-amber-600">Lot {t.lot_numbers}</span>
+                            )}
+                            {t.serial_numbers && (
+                              <span className="block not-italic text-[10px] text-blue-600">SN {t.serial_numbers}</span>
+                            )}
+                            {t.type === 'TRANSFER' && t.transfer_counterpart && (
+                              <span className="block not-italic text-[10px] text-violet-600">
+                                {t.quantity < 0 ? `ke ${t.transfer_counterpart}` : `dari ${t.transfer_counterpart}`}
+                              </span>
+                            )}
+                            {t.practicum_course && (
+                              <span className="block not-italic text-[10px] text-blue-600">
+                                Praktikum {t.practicum_course}{t.practicum_class ? ` · ${t.practicum_class}` : ''}
+                              </span>
+                            )}
+                            {t.photo && (
+                              <a href={t.photo} target="_blank" rel="noreferrer" className="mt-1 flex items-center gap-2 not-italic text-[10px] text-blue-600 hover:underline">
+                                {t.photo_thumbnail && <img src={t.photo_thumbnail} alt="" className="w-8 h-8 rounded-md object-cover border border-slate-200" />}
+                                Foto bukti
+                              </a>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-slate-500">{t.user_name || '-'}</td>
                         </tr>
                       ))}
                     </tbody>
                   </table>
+                  {transactions.length === 0 && !isTxLoading && (
+                    <p className="p-6 text-sm text-slate-400 italic">Tidak ada transaksi yang cocok dengan filter.</p>
+                  )}
+                  <div ref={txSentinelRef} className="h-8" />
+                  {isTxLoading && (
+                    <div className="pb-6 flex justify-center">
+                      <RefreshCw size={16} className="text-slate-400 animate-spin" />
+                    </div>
+                  )}
+                </div>
+              </motion.div>
+            )}
+            {activeTab === 'peminjaman' && (
+              <motion.div 
+                key="peminjaman"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                className="space-y-6"
+              >
+                {overdueLoans.length > 0 && (
+                  <div className="bg-rose-50 border border-rose-200 rounded-2xl p-6">
+                    <h3 className="text-sm font-bold uppercase tracking-wider text-rose-600 mb-4 flex items-center gap-2">
+                      <AlertTriangle size={16} /> Terlambat Dikembalikan ({overdueLoans.length})
+                    </h3>
+                    <div className="space-y-2">
+                      {overdueLoans.map((l) => (
+                        <div key={l.id} className="flex items-center justify-between text-sm">
+                          <span>
+                            <span className="font-medium">{l.borrower_name}</span>
+                            <span className="text-slate-500"> ({l.borrower_nim}) - {l.quantity} {l.material_unit} {l.material_name}</span>
+                          </span>
+                          <span className="text-[10px] font-bold uppercase tracking-wider text-rose-600">
+                            Jatuh tempo {new Date(l.due_date).toLocaleDateString()}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+                  <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+                    <div className="flex items-center gap-4">
+                      <h3 className="font-bold">Peminjaman Aktif</h3>
+                      <div className="flex bg-slate-100 rounded-xl p-1">
+                        <button 
+                          onClick={() => setLoanView('borrower')}
+                          className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${loanView === 'borrower' ? 'bg-white shadow-sm text-slate-900' : 'text-slate-500'}`}
+                        >
+                          Per Peminjam
+                        </button>
+                        <button 
+                          onClick={() => setLoanView('material')}
+                          className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${loanView === 'material' ? 'bg-white shadow-sm text-slate-900' : 'text-slate-500'}`}
+                        >
+                          Per Bahan
+                        </button>
+                      </div>
+                    </div>
+                    {canEdit && (
+                      <button 
+                        onClick={openLoanModal}
+                        className="bg-slate-900 text-white px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 hover:bg-slate-800 transition-colors"
+                      >
+                        <Plus size={16} /> Pinjamkan Alat
+                      </button>
+                    )}
+                  </div>
+                  {loans.length === 0 ? (
+                    <p className="p-6 text-sm text-slate-400 italic">Tidak ada peminjaman aktif.</p>
+                  ) : (
+                    <div className="divide-y divide-slate-100">
+                      {Object.entries(loanGroups).map(([group, groupLoans]) => (
+                        <div key={group} className="p-6">
+                          <div className="flex justify-between items-center mb-3">
+                            <h4 className="text-sm font-bold">{group}</h4>
+                            <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400">
+                              {groupLoans.reduce((sum, l) => sum + l.quantity, 0)} item dipinjam
+                            </span>
+                          </div>
+                          <div className="space-y-2">
+                            {groupLoans.map((l) => (
+                              <div key={l.id} className={`flex items-center justify-between p-3 rounded-xl group ${l.is_overdue ? 'bg-rose-50' : 'hover:bg-slate-50'}`}>
+                                <div>
+                                  <p className="text-sm font-medium">
+                                    {loanView === 'borrower' ? l.material_name : `${l.borrower_name} (${l.borrower_nim})`}
+                                    <span className="text-slate-500 font-normal"> - {l.quantity} {l.material_unit}</span>
+                                  </p>
+                                  {l.serial_numbers && <p className="text-[10px] text-blue-600">SN {l.serial_numbers}</p>}
+                                  <p className={`text-[10px] ${l.is_overdue ? 'text-rose-600 font-bold' : 'text-slate-400'}`}>
+                                    Dipinjam {new Date(l.loan_date).toLocaleDateString()} &middot; Kembali {new Date(l.due_date).toLocaleDateString()}
+                                    {l.notes ? ` · ${l.notes}` : ''}
+                                  </p>
+                                </div>
+                                {canEdit && (
+                                  <button 
+                                    onClick={() => handleReturnLoan(l)}
+                                    className="px-3 py-1.5 hover:bg-emerald-50 text-emerald-600 rounded-lg transition-colors text-xs font-medium flex items-center gap-1"
+                                    title="Kembalikan"
+                                  >
+                                    <Undo2 size={14} /> Kembalikan
+                                  </button>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </motion.div>
+            )}
+            {activeTab === 'stock-opname' && (
+              <motion.div 
+                key="stock-opname"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+              >
+                <StockTakePanel 
+                  canEdit={canEdit}
+                  isAdmin={isAdmin}
+                  locations={locations}
+                  categories={categories}
+                  onApproved={fetchData}
+                />
+              </motion.div>
+            )}
+            {activeTab === 'kit' && (
+              <motion.div 
+                key="kit"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+              >
+                <KitPanel 
+                  canEdit={canEdit}
+                  isAdmin={isAdmin}
+                  materials={materials}
+                  onCheckedOut={fetchData}
+                />
+              </motion.div>
+            )}
+            {activeTab === 'praktikum' && (
+              <motion.div 
+                key="praktikum"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+              >
+                <PracticumSessionPanel 
+                  canEdit={canEdit}
+                  materials={materials}
+                  onChanged={fetchData}
+                />
+              </motion.div>
+            )}
+            {activeTab === 'pemeliharaan' && (
+              <motion.div 
+                key="pemeliharaan"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+              >
+                <MaintenancePanel 
+                  canEdit={canEdit}
+                  materials={materials}
+                  onChanged={fetchData}
+                />
+              </motion.div>
+            )}
+            {activeTab === 'pengadaan' && (
+              <motion.div 
+                key="pengadaan"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+              >
+                <div className="flex bg-slate-100 rounded-xl p-1 w-fit mb-6">
+                  {([['requests', 'Permintaan'], ['orders', 'Pesanan (PO)'], ['suppliers', 'Pemasok']] as const).map(([view, label]) => (
+                    <button 
+                      key={view}
+                      onClick={() => setProcurementView(view)}
+                      className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${procurementView === view ? 'bg-white shadow-sm text-slate-900' : 'text-slate-500'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
                 </div>
+                {procurementView === 'requests' && (
+                  <PurchaseRequestPanel 
+                    canEdit={canEdit}
+                    isAdmin={isAdmin}
+                    materials={materials}
+                  />
+                )}
+                {procurementView === 'orders' && (
+                  <PurchaseOrderPanel 
+                    canEdit={canEdit}
+                    materials={materials}
+                    onReceived={fetchData}
+                  />
+                )}
+                {procurementView === 'suppliers' && (
+                  <SupplierPanel canEdit={canEdit} isAdmin={isAdmin} />
+                )}
               </motion.div>
             )}
             {activeTab === 'locations' && (
@@ -680,12 +1728,24 @@ export default function App() {
               >
                 <div className="p-6 border-b border-slate-100 flex justify-between items-center">
                   <h3 className="font-bold">Daftar Lokasi Penyimpanan</h3>
-                  <button 
-                    onClick={openLocationAddModal}
-                    className="bg-slate-900 text-white px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 hover:bg-slate-800 transition-colors"
-                  >
-                    <Plus size={16} /> Tambah Lokasi
-                  </button>
+                  <div className="flex gap-2">
+                    <a 
+                      href="/api/labels/locations"
+                      target="_blank"
+                      rel="noreferrer"
+                      className="bg-white border border-slate-200 text-slate-700 px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 hover:bg-slate-50 transition-colors"
+                    >
+                      <QrCode size={16} /> Cetak Label
+                    </a>
+                    {canEdit && (
+                      <button 
+                        onClick={openLocationAddModal}
+                        className="bg-slate-900 text-white px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 hover:bg-slate-800 transition-colors"
+                      >
+                        <Plus size={16} /> Tambah Lokasi
+                      </button>
+                    )}
+                  </div>
                 </div>
                 <div className="overflow-x-auto">
                   <table className="w-full text-left border-collapse">
@@ -700,22 +1760,26 @@ export default function App() {
                         <tr key={loc.id} className="hover:bg-slate-50 transition-colors group">
                           <td className="px-6 py-4 text-sm font-medium">{loc.name}</td>
                           <td className="px-6 py-4">
-                            <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                              <button 
-                                onClick={() => openLocationEditModal(loc)}
-                                className="p-1.5 hover:bg-blue-50 text-blue-600 rounded-lg transition-colors"
-                                title="Edit Lokasi"
-                              >
-                                <Edit2 size={16} />
-                              </button>
-                              <button 
-                                onClick={() => handleDeleteLocation(loc.id)}
-                                className="p-1.5 hover:bg-rose-50 text-rose-600 rounded-lg transition-colors"
-                                title="Hapus Lokasi"
-                              >
-                                <Trash2 size={16} />
-                              </button>
-                            </div>
+                            {canEdit && (
+                              <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                                <button 
+                                  onClick={() => openLocationEditModal(loc)}
+                                  className="p-1.5 hover:bg-blue-50 text-blue-600 rounded-lg transition-colors"
+                                  title="Edit Lokasi"
+                                >
+                                  <Edit2 size={16} />
+                                </button>
+                                {isAdmin && (
+                                  <button 
+                                    onClick={() => handleDeleteLocation(loc.id)}
+                                    className="p-1.5 hover:bg-rose-50 text-rose-600 rounded-lg transition-colors"
+                                    title="Hapus Lokasi"
+                                  >
+                                    <Trash2 size={16} />
+                                  </button>
+                                )}
+                              </div>
+                            )}
                           </td>
                         </tr>
                       ))}
@@ -733,12 +1797,14 @@ export default function App() {
               >
                 <div className="p-6 border-b border-slate-100 flex justify-between items-center">
                   <h3 className="font-bold">Daftar Kategori Bahan</h3>
-                  <button 
-                    onClick={openCategoryAddModal}
-                    className="bg-slate-900 text-white px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 hover:bg-slate-800 transition-colors"
-                  >
-                    <Plus size={16} /> Tambah Kategori
-                  </button>
+                  {canEdit && (
+                    <button 
+                      onClick={openCategoryAddModal}
+                      className="bg-slate-900 text-white px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 hover:bg-slate-800 transition-colors"
+                    >
+                      <Plus size={16} /> Tambah Kategori
+                    </button>
+                  )}
                 </div>
                 <div className="overflow-x-auto">
                   <table className="w-full text-left border-collapse">
@@ -752,22 +1818,97 @@ export default function App() {
                       {categories.map((cat) => (
                         <tr key={cat.id} className="hover:bg-slate-50 transition-colors group">
                           <td className="px-6 py-4 text-sm font-medium">{cat.name}</td>
+                          <td className="px-6 py-4">
+                            {canEdit && (
+                              <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                                <button 
+                                  onClick={() => openCategoryEditModal(cat)}
+                                  className="p-1.5 hover:bg-blue-50 text-blue-600 rounded-lg transition-colors"
+                                  title="Edit Kategori"
+                                >
+                                  <Edit2 size={16} />
+                                </button>
+                                {isAdmin && (
+                                  <button 
+                                    onClick={() => handleDeleteCategory(cat.id)}
+                                    className="p-1.5 hover:bg-rose-50 text-rose-600 rounded-lg transition-colors"
+                                    title="Hapus Kategori"
+                                  >
+                                    <Trash2 size={16} />
+                                  </button>
+                                )}
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </motion.div>
+            )}
+            {activeTab === 'users' && isAdmin && (
+              <motion.div 
+                key="users"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden"
+              >
+                <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+                  <h3 className="font-bold">Daftar Pengguna</h3>
+                  <button 
+                    onClick={openUserAddModal}
+                    className="bg-slate-900 text-white px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 hover:bg-slate-800 transition-colors"
+                  >
+                    <Plus size={16} /> Tambah Pengguna
+                  </button>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left border-collapse">
+                    <thead>
+                      <tr className="bg-slate-50 border-b border-slate-100">
+                        <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-wider text-slate-400">Nama</th>
+                        <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-wider text-slate-400">Username</th>
+                        <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-wider text-slate-400">Peran</th>
+                        <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-wider text-slate-400">Status</th>
+                        <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-wider text-slate-400">Aksi</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {users.map((u) => (
+                        <tr key={u.id} className="hover:bg-slate-50 transition-colors group">
+                          <td className="px-6 py-4 text-sm font-medium">{u.name}</td>
+                          <td className="px-6 py-4 text-sm text-slate-500">{u.username}</td>
+                          <td className="px-6 py-4">
+                            <span className="px-2 py-1 bg-slate-100 rounded-md text-[10px] font-medium text-slate-600">
+                              {ROLE_LABELS[u.role]}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4">
+                            <span className={`px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider ${
+                              u.active ? 'bg-emerald-100 text-emerald-600' : 'bg-slate-100 text-slate-400'
+                            }`}>
+                              {u.active ? 'Aktif' : 'Nonaktif'}
+                            </span>
+                          </td>
                           <td className="px-6 py-4">
                             <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
                               <button 
-                                onClick={() => openCategoryEditModal(cat)}
+                                onClick={() => openUserEditModal(u)}
                                 className="p-1.5 hover:bg-blue-50 text-blue-600 rounded-lg transition-colors"
-                                title="Edit Kategori"
+                                title="Edit Pengguna"
                               >
                                 <Edit2 size={16} />
                               </button>
-                              <button 
-                                onClick={() => handleDeleteCategory(cat.id)}
-                                className="p-1.5 hover:bg-rose-50 text-rose-600 rounded-lg transition-colors"
-                                title="Hapus Kategori"
-                              >
-                                <Trash2 size={16} />
-                              </button>
+                              {u.id !== currentUser.id && (
+                                <button 
+                                  onClick={() => handleDeleteUser(u.id)}
+                                  className="p-1.5 hover:bg-rose-50 text-rose-600 rounded-lg transition-colors"
+                                  title="Hapus Pengguna"
+                                >
+                                  <Trash2 size={16} />
+                                </button>
+                              )}
                             </div>
                           </td>
                         </tr>
@@ -964,7 +2105,7 @@ export default function App() {
                     />
                   </div>
                 </div>
-                <div className="grid grid-cols-2 gap-4">
+                <div className="grid grid-cols-3 gap-4">
                   <div>
                     <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Stok Minimal</label>
                     <input 
@@ -976,19 +2117,107 @@ export default function App() {
                     />
                   </div>
                   <div>
-                    <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Lokasi</label>
+                    <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Stok Target</label>
+                    <input 
+                      type="number" 
+                      min={0}
+                      placeholder={String(newMaterial.min_stock * 2 || '')}
+                      title="Jumlah stok yang dituju saat pengadaan. Kosongkan untuk 2x stok minimal."
+                      className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                      value={newMaterial.target_stock}
+                      onChange={(e) => setNewMaterial({...newMaterial, target_stock: e.target.value})}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Lokasi Utama</label>
                     <select 
                       className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
-                      value={newMaterial.location}
-                      onChange={(e) => setNewMaterial({...newMaterial, location: e.target.value})}
+                      value={newMaterial.location_id}
+                      onChange={(e) => setNewMaterial({...newMaterial, location_id: e.target.value})}
                     >
                       <option value="">Pilih Lokasi</option>
                       {locations.map(loc => (
-                        <option key={loc.id} value={loc.name}>{loc.name}</option>
+                        <option key={loc.id} value={loc.id}>{loc.name}</option>
                       ))}
                     </select>
                   </div>
                 </div>
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                  <input 
+                    type="checkbox" 
+                    className="rounded border-slate-300 text-emerald-500 focus:ring-emerald-500"
+                    checked={newMaterial.track_lots}
+                    onChange={(e) => setNewMaterial({...newMaterial, track_lots: e.target.checked, track_serials: e.target.checked ? false : newMaterial.track_serials})}
+                  />
+                  Lacak nomor lot &amp; tanggal kedaluwarsa (bahan habis pakai)
+                </label>
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                  <input 
+                    type="checkbox" 
+                    className="rounded border-slate-300 text-emerald-500 focus:ring-emerald-500"
+                    checked={newMaterial.track_serials}
+                    onChange={(e) => setNewMaterial({...newMaterial, track_serials: e.target.checked, track_lots: e.target.checked ? false : newMaterial.track_lots})}
+                  />
+                  Lacak per unit dengan nomor seri (alat ukur)
+                </label>
+                <div className="flex items-center gap-3">
+                  <label className="text-sm text-slate-600 flex-1">Interval kalibrasi (hari)</label>
+                  <input 
+                    type="number" 
+                    min={1}
+                    placeholder="Tidak perlu"
+                    className="w-32 bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                    value={newMaterial.calibration_interval_days}
+                    onChange={(e) => setNewMaterial({...newMaterial, calibration_interval_days: e.target.value})}
+                  />
+                </div>
+                <textarea 
+                  rows={2}
+                  placeholder="Catatan / spesifikasi (opsional, ikut dicari)"
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                  value={newMaterial.notes}
+                  onChange={(e) => setNewMaterial({...newMaterial, notes: e.target.value})}
+                />
+                {editingMaterial && (
+                  <div className="border border-slate-200 rounded-2xl overflow-hidden">
+                    <button 
+                      type="button"
+                      onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+                      className="w-full px-4 py-3 flex justify-between items-center text-[10px] font-bold uppercase tracking-wider text-slate-400 hover:bg-slate-50"
+                    >
+                      <span className="flex items-center gap-2"><History size={14} /> Riwayat Perubahan ({materialHistory.length})</span>
+                      <ChevronRight size={14} className={`transition-transform ${isHistoryOpen ? 'rotate-90' : ''}`} />
+                    </button>
+                    {isHistoryOpen && (
+                      <div className="divide-y divide-slate-100 max-h-48 overflow-y-auto">
+                        {materialHistory.length === 0 && (
+                          <p className="px-4 py-3 text-xs text-slate-400 italic">Belum ada perubahan tercatat.</p>
+                        )}
+                        {materialHistory.map(entry => (
+                          <div key={entry.id} className="px-4 py-3">
+                            <p className="text-[10px] text-slate-400">
+                              <span className="font-bold uppercase tracking-wider text-slate-600">{AUDIT_ACTION_LABELS[entry.action]}</span>
+                              {' '}oleh {entry.user_name || '-'} &middot; {new Date(entry.created_at).toLocaleString()}
+                            </p>
+                            {entry.action === 'update' && entry.before && entry.after && (
+                              <ul className="mt-1 space-y-0.5">
+                                {Object.keys(entry.after)
+                                  .filter(key => key !== 'stock' && JSON.stringify(entry.before![key]) !== JSON.stringify(entry.after![key]))
+                                  .map(key => (
+                                    <li key={key} className="text-xs">
+                                      <span className="text-slate-400">{key}:</span>{' '}
+                                      <span className="line-through text-rose-500">{String(entry.before![key] ?? '-')}</span>{' '}
+                                      &rarr; <span className="text-emerald-600">{String(entry.after![key] ?? '-')}</span>
+                                    </li>
+                                  ))}
+                              </ul>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
                 <div className="pt-4">
                   <button 
                     type="submit"
@@ -1003,15 +2232,88 @@ export default function App() {
         )}
       </AnimatePresence>
 
-      {/* Add/Edit Location Modal */}
+      {/* Notification Settings Modal */}
       <AnimatePresence>
-        {isLocationModalOpen && (
+        {isNotificationsOpen && (
+          <NotificationSettingsModal 
+            categories={categories}
+            onClose={() => setIsNotificationsOpen(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Stock Movement Modal (lot-tracked and serialized materials) */}
+      <AnimatePresence>
+        {stockMovement && (
+          <StockMovementModal 
+            material={stockMovement.material}
+            type={stockMovement.type}
+            isAdmin={isAdmin}
+            onSubmit={handleTransaction}
+            onClose={() => setStockMovement(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Asset Modal */}
+      <AnimatePresence>
+        {assetMaterialId !== null && inventoryItems.some(m => m.id === assetMaterialId) && (
+          <AssetModal 
+            material={inventoryItems.find(m => m.id === assetMaterialId)!}
+            locations={locations}
+            canEdit={canEdit}
+            onChanged={fetchData}
+            onClose={() => setAssetMaterialId(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Transfer Modal */}
+      <AnimatePresence>
+        {transferMaterial && (
+          <TransferModal 
+            material={transferMaterial}
+            locations={locations}
+            onTransferred={fetchData}
+            onClose={() => setTransferMaterial(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* QR Scan Modal */}
+      <AnimatePresence>
+        {isScanOpen && (
+          <ScanModal 
+            locations={locations}
+            canEdit={canEdit}
+            onTransaction={handleTransaction}
+            onClose={() => setIsScanOpen(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Import Materials Modal */}
+      <AnimatePresence>
+        {isImportModalOpen && (
+          <ImportMaterialsModal 
+            onClose={() => setIsImportModalOpen(false)}
+            onImported={() => {
+              setIsImportModalOpen(false);
+              fetchData();
+            }}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Add Loan Modal */}
+      <AnimatePresence>
+        {isLoanModalOpen && (
           <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
             <motion.div 
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
               exit={{ opacity: 0 }}
-              onClick={() => setIsLocationModalOpen(false)}
+              onClick={() => setIsLoanModalOpen(false)}
               className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm"
             />
             <motion.div 
@@ -1021,30 +2323,268 @@ export default function App() {
               className="relative bg-white rounded-3xl shadow-2xl w-full max-w-md overflow-hidden"
             >
               <div className="p-6 border-b border-slate-100 flex justify-between items-center">
-                <h3 className="font-bold text-lg">{editingLocation ? 'Edit Lokasi' : 'Tambah Lokasi Baru'}</h3>
-                <button onClick={() => setIsLocationModalOpen(false)} className="text-slate-400 hover:text-slate-600">
+                <h3 className="font-bold text-lg">Peminjaman Baru</h3>
+                <button onClick={() => setIsLoanModalOpen(false)} className="text-slate-400 hover:text-slate-600">
                   <X size={20} />
                 </button>
               </div>
-              <form onSubmit={handleSaveLocation} className="p-6 space-y-4">
+              <form onSubmit={handleSaveLoan} className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
                 <div>
-                  <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Nama Lokasi</label>
-                  <input 
-                    required
-                    type="text" 
-                    placeholder="Contoh: Rak D1, Lemari C..."
+                  <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Peminjam</label>
+                  <select 
                     className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
-                    value={newLocationName}
-                    onChange={(e) => setNewLocationName(e.target.value)}
-                  />
-                </div>
-                <div className="pt-4">
-                  <button 
-                    type="submit"
-                    className="w-full bg-emerald-500 hover:bg-emerald-600 text-white font-bold py-3 rounded-2xl shadow-lg shadow-emerald-500/20 transition-all"
+                    value={newLoan.borrower_id}
+                    onChange={(e) => setNewLoan({...newLoan, borrower_id: parseInt(e.target.value)})}
                   >
-                    {editingLocation ? 'Update Lokasi' : 'Simpan Lokasi'}
-                  </button>
+                    <option value={0}>+ Peminjam Baru</option>
+                    {borrowers.map(b => (
+                      <option key={b.id} value={b.id}>{b.name} ({b.nim})</option>
+                    ))}
+                  </select>
+                </div>
+                {!newLoan.borrower_id && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="col-span-2">
+                      <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Nama Peminjam</label>
+                      <input 
+                        required
+                        type="text" 
+                        className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                        value={newBorrower.name}
+                        onChange={(e) => setNewBorrower({...newBorrower, name: e.target.value})}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">NIM</label>
+                      <input 
+                        required
+                        type="text" 
+                        className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                        value={newBorrower.nim}
+                        onChange={(e) => setNewBorrower({...newBorrower, nim: e.target.value})}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Kelas</label>
+                      <input 
+                        type="text" 
+                        placeholder="Contoh: 3A TL"
+                        className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                        value={newBorrower.class_name}
+                        onChange={(e) => setNewBorrower({...newBorrower, class_name: e.target.value})}
+                      />
+                    </div>
+                  </div>
+                )}
+                <div>
+                  <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Bahan / Alat</label>
+                  <select 
+                    required
+                    className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                    value={newLoan.material_id}
+                    onChange={(e) => setNewLoan({...newLoan, material_id: parseInt(e.target.value), asset_ids: []})}
+                  >
+                    {materials.map(m => (
+                      <option key={m.id} value={m.id}>{m.name} (stok {m.stock} {m.unit})</option>
+                    ))}
+                  </select>
+                </div>
+                {loanMaterial?.track_serials ? (
+                  <UnitPicker 
+                    units={loanUnits.filter(a => a.status === 'available')}
+                    selected={newLoan.asset_ids}
+                    onChange={(asset_ids) => setNewLoan({...newLoan, asset_ids, quantity: asset_ids.length})}
+                  />
+                ) : null}
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Jumlah</label>
+                    <input 
+                      required
+                      type="number" 
+                      min={1}
+                      readOnly={Boolean(loanMaterial?.track_serials)}
+                      className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                      value={newLoan.quantity}
+                      onChange={(e) => setNewLoan({...newLoan, quantity: parseInt(e.target.value)})}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Tanggal Kembali</label>
+                    <input 
+                      required
+                      type="date" 
+                      min={new Date().toISOString().slice(0, 10)}
+                      className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                      value={newLoan.due_date}
+                      onChange={(e) => setNewLoan({...newLoan, due_date: e.target.value})}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Catatan</label>
+                  <input 
+                    type="text" 
+                    placeholder="Keperluan peminjaman..."
+                    className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                    value={newLoan.notes}
+                    onChange={(e) => setNewLoan({...newLoan, notes: e.target.value})}
+                  />
+                </div>
+                <div className="pt-4">
+                  <button 
+                    type="submit"
+                    className="w-full bg-emerald-500 hover:bg-emerald-600 text-white font-bold py-3 rounded-2xl shadow-lg shadow-emerald-500/20 transition-all"
+                  >
+                    Simpan Peminjaman
+                  </button>
+                </div>
+              </form>
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+
+      {/* Add/Edit User Modal */}
+      <AnimatePresence>
+        {isUserModalOpen && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            <motion.div 
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              onClick={() => setIsUserModalOpen(false)}
+              className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm"
+            />
+            <motion.div 
+              initial={{ opacity: 0, scale: 0.9, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.9, y: 20 }}
+              className="relative bg-white rounded-3xl shadow-2xl w-full max-w-md overflow-hidden"
+            >
+              <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+                <h3 className="font-bold text-lg">{editingUser ? 'Edit Pengguna' : 'Tambah Pengguna Baru'}</h3>
+                <button onClick={() => setIsUserModalOpen(false)} className="text-slate-400 hover:text-slate-600">
+                  <X size={20} />
+                </button>
+              </div>
+              <form onSubmit={handleSaveUser} className="p-6 space-y-4">
+                <div>
+                  <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Username</label>
+                  <input 
+                    required
+                    type="text" 
+                    autoComplete="off"
+                    disabled={!!editingUser}
+                    className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all disabled:text-slate-400"
+                    value={newUser.username}
+                    onChange={(e) => setNewUser({...newUser, username: e.target.value})}
+                  />
+                </div>
+                <div>
+                  <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Nama Lengkap</label>
+                  <input 
+                    required
+                    type="text" 
+                    className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                    value={newUser.name}
+                    onChange={(e) => setNewUser({...newUser, name: e.target.value})}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Peran</label>
+                    <select 
+                      className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                      value={newUser.role}
+                      onChange={(e) => setNewUser({...newUser, role: e.target.value as Role})}
+                    >
+                      {(Object.keys(ROLE_LABELS) as Role[]).map(role => (
+                        <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Status</label>
+                    <select 
+                      className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                      value={newUser.active ? '1' : '0'}
+                      onChange={(e) => setNewUser({...newUser, active: e.target.value === '1'})}
+                    >
+                      <option value="1">Aktif</option>
+                      <option value="0">Nonaktif</option>
+                    </select>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">
+                    {editingUser ? 'Password Baru (kosongkan jika tidak diubah)' : 'Password'}
+                  </label>
+                  <input 
+                    required={!editingUser}
+                    type="password" 
+                    autoComplete="new-password"
+                    className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                    value={newUser.password}
+                    onChange={(e) => setNewUser({...newUser, password: e.target.value})}
+                  />
+                </div>
+                <div className="pt-4">
+                  <button 
+                    type="submit"
+                    className="w-full bg-emerald-500 hover:bg-emerald-600 text-white font-bold py-3 rounded-2xl shadow-lg shadow-emerald-500/20 transition-all"
+                  >
+                    {editingUser ? 'Update Pengguna' : 'Simpan Pengguna'}
+                  </button>
+                </div>
+              </form>
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+
+      {/* Add/Edit Location Modal */}
+      <AnimatePresence>
+        {isLocationModalOpen && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            <motion.div 
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              onClick={() => setIsLocationModalOpen(false)}
+              className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm"
+            />
+            <motion.div 
+              initial={{ opacity: 0, scale: 0.9, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.9, y: 20 }}
+              className="relative bg-white rounded-3xl shadow-2xl w-full max-w-md overflow-hidden"
+            >
+              <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+                <h3 className="font-bold text-lg">{editingLocation ? 'Edit Lokasi' : 'Tambah Lokasi Baru'}</h3>
+                <button onClick={() => setIsLocationModalOpen(false)} className="text-slate-400 hover:text-slate-600">
+                  <X size={20} />
+                </button>
+              </div>
+              <form onSubmit={handleSaveLocation} className="p-6 space-y-4">
+                <div>
+                  <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Nama Lokasi</label>
+                  <input 
+                    required
+                    type="text" 
+                    placeholder="Contoh: Rak D1, Lemari C..."
+                    className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                    value={newLocationName}
+                    onChange={(e) => setNewLocationName(e.target.value)}
+                  />
+                </div>
+                <div className="pt-4">
+                  <button 
+                    type="submit"
+                    className="w-full bg-emerald-500 hover:bg-emerald-600 text-white font-bold py-3 rounded-2xl shadow-lg shadow-emerald-500/20 transition-all"
+                  >
+                    {editingLocation ? 'Update Lokasi' : 'Simpan Lokasi'}
+                  </button>
                 </div>
               </form>
             </motion.div>
@@ -1104,29 +2644,4111 @@ export default function App() {
   );
 }
 
-function NavItem({ icon, label, active, collapsed, onClick }: { 
-  icon: React.ReactNode, 
-  label: string, 
-  active?: boolean, 
-  collapsed?: boolean,
-  onClick: () => void 
+const TRANSACTION_TYPES: Record<TransactionType, { label: string, className: string }> = {
+  IN: { label: 'Masuk', className: 'bg-emerald-100 text-emerald-600' },
+  OUT: { label: 'Keluar', className: 'bg-rose-100 text-rose-600' },
+  ADJUSTMENT: { label: 'Penyesuaian', className: 'bg-blue-100 text-blue-600' },
+  TRANSFER: { label: 'Pindah Lokasi', className: 'bg-violet-100 text-violet-600' },
+  DAMAGED: { label: 'Rusak', className: 'bg-orange-100 text-orange-600' },
+  LOST: { label: 'Hilang', className: 'bg-amber-100 text-amber-700' },
+  DISPOSED: { label: 'Dimusnahkan', className: 'bg-slate-200 text-slate-600' },
+  RETURN: { label: 'Pengembalian', className: 'bg-teal-100 text-teal-600' }
+};
+
+// Everything but TRANSFER, which has its own two-location form
+type MovementType = Exclude<TransactionType, 'TRANSFER'>;
+
+const OUTGOING_TYPES: TransactionType[] = ['OUT', 'DAMAGED', 'LOST', 'DISPOSED'];
+
+// Recorded from the "rusak / hilang" action; adjustments outside a stock take are admin-only
+const EXCEPTION_TYPES: MovementType[] = ['DAMAGED', 'LOST', 'DISPOSED', 'RETURN', 'ADJUSTMENT'];
+
+// Mirrors REASON_CODES on the server
+const REASON_CODES: Partial<Record<TransactionType, Record<string, string>>> = {
+  DAMAGED: {
+    rusak_pemakaian: 'Rusak saat dipakai/praktikum',
+    rusak_penyimpanan: 'Rusak di penyimpanan',
+    cacat_pemasok: 'Cacat dari pemasok'
+  },
+  LOST: {
+    hilang_peminjaman: 'Hilang saat dipinjam',
+    hilang_penyimpanan: 'Tidak ditemukan di penyimpanan',
+    dicuri: 'Dicuri'
+  },
+  DISPOSED: {
+    kedaluwarsa: 'Kedaluwarsa',
+    rusak_total: 'Rusak tidak dapat diperbaiki',
+    usang: 'Usang / tidak terpakai',
+    penghapusan_bmn: 'Penghapusan BMN'
+  },
+  ADJUSTMENT: {
+    stock_opname: 'Selisih stock opname',
+    koreksi_input: 'Koreksi kesalahan input',
+    temuan: 'Stok ditemukan / belum tercatat'
+  },
+  RETURN: {
+    pengembalian_pinjaman: 'Pengembalian pinjaman',
+    sisa_praktikum: 'Sisa praktikum',
+    batal_pakai: 'Batal dipakai'
+  }
+};
+
+// Optional details of a stock movement beyond material and quantity
+type StockMovement = {
+  reason_code?: string,
+  photo?: string,
+  location_id?: number | null,
+  lot_id?: number | null,
+  lot_number?: string,
+  expiry_date?: string,
+  asset_ids?: number[],
+  serial_numbers?: string[]
+};
+
+function expiryLabel(lot: MaterialLot): string {
+  if (!lot.expiry_date || lot.days_left === null) return `${lot.lot_number} tanpa kedaluwarsa`;
+  if (lot.days_left < 0) return `${lot.lot_number} kedaluwarsa ${-lot.days_left} hari lalu`;
+  if (lot.days_left === 0) return `${lot.lot_number} kedaluwarsa hari ini`;
+  return `${lot.lot_number} kedaluwarsa ${lot.days_left} hari lagi`;
+}
+
+// Lots come from the server in FEFO order; the first unexpired one is the suggestion for OUT
+function fefoSuggestion(lots: MaterialLot[] = []): MaterialLot | undefined {
+  return lots.find(l => l.days_left === null || l.days_left >= 0);
+}
+
+// Stock delta of a ledger entry; adjustments and transfer legs are stored signed
+function signedQuantity(t: Transaction): number {
+  return OUTGOING_TYPES.includes(t.type) ? -t.quantity : t.quantity;
+}
+
+const STOCK_STATUS_LABELS: Record<StockStatus, string> = {
+  ok: 'Stok Aman',
+  low: 'Stok Menipis',
+  out: 'Stok Habis'
+};
+
+const STATS_PERIODS: Record<StatsPeriod, string> = {
+  today: 'Hari Ini',
+  week: 'Minggu Ini',
+  month: 'Bulan Ini',
+  custom: 'Rentang'
+};
+
+const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Admin',
+  laboran: 'Laboran',
+  student: 'Mahasiswa'
+};
+
+const STOCK_TAKE_STATUS: Record<StockTake['status'], { label: string, className: string }> = {
+  open: { label: 'Berjalan', className: 'bg-amber-100 text-amber-600' },
+  approved: { label: 'Disetujui', className: 'bg-emerald-100 text-emerald-600' },
+  cancelled: { label: 'Dibatalkan', className: 'bg-slate-100 text-slate-400' }
+};
+
+function StockTakePanel({ canEdit, isAdmin, locations, categories, onApproved }: {
+  canEdit: boolean,
+  isAdmin: boolean,
+  locations: Location[],
+  categories: Category[],
+  onApproved: () => void
 }) {
+  const [sessions, setSessions] = useState<StockTake[]>([]);
+  const [detail, setDetail] = useState<StockTakeDetail | null>(null);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [newSession, setNewSession] = useState<{ title: string, location_ids: number[], category_ids: number[] }>({ title: '', location_ids: [], category_ids: [] });
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [onlyUncounted, setOnlyUncounted] = useState(false);
+
+  const fetchSessions = async () => {
+    try {
+      const response = await fetch('/api/stock-takes');
+      if (response.ok) setSessions(await response.json());
+    } catch (error) {
+      console.error("Error fetching stock takes:", error);
+    }
+  };
+
+  const openSession = async (id: number) => {
+    try {
+      const response = await fetch(`/api/stock-takes/${id}`);
+      if (response.ok) {
+        const data: StockTakeDetail = await response.json();
+        setDetail(data);
+        setDrafts(Object.fromEntries(data.items.map(item => [item.id, item.counted_quantity === null ? '' : String(item.counted_quantity)])));
+      }
+    } catch (error) {
+      console.error("Error fetching stock take:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  const toggle = <T,>(list: T[], value: T) => list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await fetch('/api/stock-takes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newSession)
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setIsCreateOpen(false);
+        setNewSession({ title: '', location_ids: [], category_ids: [] });
+        fetchSessions();
+        openSession(data.id);
+      } else {
+        alert(data.error || 'Gagal membuat sesi stock opname');
+      }
+    } catch (error) {
+      console.error("Error creating stock take:", error);
+      alert("Terjadi kesalahan koneksi saat membuat sesi stock opname.");
+    }
+  };
+
+  const saveCount = async (countId: number) => {
+    if (!detail) return;
+    const item = detail.items.find(i => i.id === countId);
+    const value = drafts[countId] ?? '';
+    if (!item || value === (item.counted_quantity === null ? '' : String(item.counted_quantity))) return;
+    try {
+      const response = await fetch(`/api/stock-takes/${detail.id}/counts/${countId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ counted_quantity: value === '' ? null : parseInt(value) })
+      });
+      if (response.ok) {
+        openSession(detail.id);
+      } else {
+        const err = await response.json();
+        alert(err.error || 'Gagal menyimpan hasil hitung');
+      }
+    } catch (error) {
+      console.error("Error saving count:", error);
+      alert("Terjadi kesalahan koneksi saat menyimpan hasil hitung.");
+    }
+  };
+
+  const closeSession = async (action: 'approve' | 'cancel') => {
+    if (!detail) return;
+    const message = action === 'approve'
+      ? 'Setujui stock opname ini? Selisih akan dibukukan sebagai transaksi penyesuaian.'
+      : 'Batalkan sesi stock opname ini?';
+    if (!window.confirm(message)) return;
+    try {
+      const response = await fetch(`/api/stock-takes/${detail.id}/${action}`, { method: 'POST' });
+      const data = await response.json();
+      if (response.ok) {
+        if (action === 'approve') {
+          alert(`Stock opname disetujui. ${data.adjusted} transaksi penyesuaian dibuat.`);
+          onApproved();
+        }
+        fetchSessions();
+        openSession(detail.id);
+      } else if (data.details) {
+        alert(`${data.error}\n\n${data.details}`);
+      } else {
+        alert(data.error || 'Gagal memproses stock opname');
+      }
+    } catch (error) {
+      console.error("Error closing stock take:", error);
+      alert("Terjadi kesalahan koneksi saat memproses stock opname.");
+    }
+  };
+
+  if (detail) {
+    const isOpen = detail.status === 'open';
+    const counted = detail.items.filter(i => i.counted_quantity !== null).length;
+    const items = onlyUncounted ? detail.items.filter(i => i.counted_quantity === null) : detail.items;
+
+    return (
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex flex-wrap gap-4 justify-between items-center">
+          <div className="flex items-center gap-3">
+            <button onClick={() => { setDetail(null); fetchSessions(); }} className="p-1.5 hover:bg-slate-100 rounded-lg text-slate-500">
+              <ChevronLeft size={20} />
+            </button>
+            <div>
+              <h3 className="font-bold">{detail.title}</h3>
+              <p className="text-[10px] text-slate-400 uppercase tracking-wider">
+                {counted}/{detail.items.length} dihitung &middot; {STOCK_TAKE_STATUS[detail.status].label}
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-2 items-center">
+            <label className="flex items-center gap-2 text-xs text-slate-500 mr-2">
+              <input type="checkbox" checked={onlyUncounted} onChange={(e) => setOnlyUncounted(e.target.checked)} />
+              Belum dihitung saja
+            </label>
+            {isOpen && canEdit && (
+              <button 
+                onClick={() => closeSession('cancel')}
+                className="bg-white border border-slate-200 text-slate-700 px-4 py-2 rounded-xl text-sm font-medium hover:bg-slate-50 transition-colors"
+              >
+                Batalkan
+              </button>
+            )}
+            {isOpen && isAdmin && (
+              <button 
+                onClick={() => closeSession('approve')}
+                className="bg-emerald-500 text-white px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 hover:bg-emerald-600 transition-colors"
+              >
+                <CheckCircle2 size={16} /> Setujui
+              </button>
+            )}
+          </div>
+        </div>
+        <div className="divide-y divide-slate-100">
+          {items.map(item => (
+            <div key={item.id} className="px-6 py-3 flex flex-wrap items-center gap-4 justify-between">
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium">{item.material_name}</p>
+                <p className="text-[10px] text-slate-400">{item.location_name || 'Tanpa lokasi'} &middot; {item.category_name || '-'}</p>
+              </div>
+              <div className="text-right">
+                <p className="text-[10px] text-slate-400 uppercase tracking-wider">Sistem</p>
+                <p className="text-sm font-bold">{item.book_stock} <span className="text-[10px] font-normal text-slate-400">{item.unit}</span></p>
+              </div>
+              <div className="w-28">
+                <p className="text-[10px] text-slate-400 uppercase tracking-wider">Fisik</p>
+                <input 
+                  type="number" 
+                  inputMode="numeric"
+                  min={0}
+                  disabled={!isOpen || !canEdit}
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-base focus:ring-2 focus:ring-emerald-500 outline-none transition-all disabled:text-slate-500"
+                  value={drafts[item.id] ?? ''}
+                  onChange={(e) => setDrafts({ ...drafts, [item.id]: e.target.value })}
+                  onBlur={() => saveCount(item.id)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                />
+              </div>
+              <div className="w-20 text-right">
+                <p className="text-[10px] text-slate-400 uppercase tracking-wider">Selisih</p>
+                <p className={`text-sm font-bold ${item.variance === null ? 'text-slate-300' : item.variance === 0 ? 'text-slate-500' : item.variance > 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                  {item.variance === null ? '-' : `${item.variance > 0 ? '+' : ''}${item.variance}`}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
   return (
-    <button 
-      onClick={onClick}
-      className={`w-full flex items-center gap-4 px-4 py-3 rounded-xl transition-all ${
-        active 
-          ? 'bg-emerald-500 text-white shadow-lg shadow-emerald-500/20' 
-          : 'text-slate-400 hover:bg-slate-800 hover:text-white'
-      }`}
-    >
-      <div className="shrink-0">{icon}</div>
-      {!collapsed && <span className="text-sm font-medium">{label}</span>}
-    </button>
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+        <h3 className="font-bold">Sesi Stock Opname</h3>
+        {canEdit && (
+          <button 
+            onClick={() => setIsCreateOpen(!isCreateOpen)}
+            className="bg-slate-900 text-white px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 hover:bg-slate-800 transition-colors"
+          >
+            <Plus size={16} /> Sesi Baru
+          </button>
+        )}
+      </div>
+      {isCreateOpen && (
+        <form onSubmit={handleCreate} className="p-6 border-b border-slate-100 space-y-4 bg-slate-50/50">
+          <div>
+            <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Judul</label>
+            <input 
+              required
+              type="text" 
+              placeholder="Contoh: Stock Opname Semester Ganjil 2026"
+              className="w-full bg-white border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+              value={newSession.title}
+              onChange={(e) => setNewSession({...newSession, title: e.target.value})}
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-2">Lokasi (kosongkan untuk semua)</label>
+              <div className="flex flex-wrap gap-2">
+                {locations.map(loc => (
+                  <button 
+                    key={loc.id}
+                    type="button"
+                    onClick={() => setNewSession({...newSession, location_ids: toggle(newSession.location_ids, loc.id)})}
+                    className={`px-3 py-1 rounded-lg text-xs font-medium border transition-colors ${newSession.location_ids.includes(loc.id) ? 'bg-emerald-500 border-emerald-500 text-white' : 'bg-white border-slate-200 text-slate-600'}`}
+                  >
+                    {loc.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-2">Kategori (kosongkan untuk semua)</label>
+              <div className="flex flex-wrap gap-2">
+                {categories.map(cat => (
+                  <button 
+                    key={cat.id}
+                    type="button"
+                    onClick={() => setNewSession({...newSession, category_ids: toggle(newSession.category_ids, cat.id)})}
+                    className={`px-3 py-1 rounded-lg text-xs font-medium border transition-colors ${newSession.category_ids.includes(cat.id) ? 'bg-emerald-500 border-emerald-500 text-white' : 'bg-white border-slate-200 text-slate-600'}`}
+                  >
+                    {cat.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+          <button 
+            type="submit"
+            className="bg-emerald-500 hover:bg-emerald-600 text-white font-bold px-6 py-2 rounded-xl text-sm transition-all"
+          >
+            Mulai Stock Opname
+          </button>
+        </form>
+      )}
+      {sessions.length === 0 ? (
+        <p className="p-6 text-sm text-slate-400 italic">Belum ada sesi stock opname.</p>
+      ) : (
+        <div className="divide-y divide-slate-100">
+          {sessions.map(session => (
+            <button 
+              key={session.id}
+              onClick={() => openSession(session.id)}
+              className="w-full px-6 py-4 flex items-center justify-between hover:bg-slate-50 transition-colors text-left"
+            >
+              <div>
+                <p className="text-sm font-medium">{session.title}</p>
+                <p className="text-[10px] text-slate-400">
+                  {new Date(session.created_at).toLocaleDateString()} oleh {session.created_by_name || '-'}
+                  {session.scope?.location_ids?.length ? ` · ${session.scope.location_ids.map(id => locations.find(l => l.id === id)?.name).filter(Boolean).join(', ')}` : ''}
+                  {session.approved_at ? ` · disetujui ${session.approved_by_name || ''} ${new Date(session.approved_at).toLocaleDateString()}` : ''}
+                </p>
+              </div>
+              <div className="flex items-center gap-4">
+                <span className="text-xs text-slate-500">{session.counted_count}/{session.item_count}</span>
+                <span className={`px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider ${STOCK_TAKE_STATUS[session.status].className}`}>
+                  {STOCK_TAKE_STATUS[session.status].label}
+                </span>
+                <ChevronRight size={16} className="text-slate-300" />
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  name: 'Nama Bahan',
+  category: 'Kategori',
+  unit: 'Satuan',
+  stock: 'Stok Awal',
+  min_stock: 'Stok Minimal',
+  location: 'Lokasi'
+};
+
+function ImportMaterialsModal({ onClose, onImported }: { onClose: () => void, onImported: () => void }) {
+  const [file, setFile] = useState<{ name: string, data: string } | null>(null);
+  const [mapping, setMapping] = useState<Partial<Record<ImportField, number>> | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const submit = async (dryRun: boolean, source = file, columnMapping = mapping) => {
+    if (!source) return;
+    setIsBusy(true);
+    setError('');
+    try {
+      const response = await fetch('/api/materials/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ file_name: source.name, data: source.data, mapping: columnMapping, dry_run: dryRun })
+      });
+      const result = await response.json();
+      if (result.headers) setHeaders(result.headers);
+      if (result.mapping) setMapping(result.mapping);
+      if (!response.ok) {
+        setError(result.details ? `${result.error} ${result.details}` : (result.error || 'Gagal memproses file'));
+        if (result.rows) setPreview(result);
+        return;
+      }
+      if (dryRun) {
+        setPreview(result);
+      } else {
+        alert(`${result.imported} bahan berhasil diimpor.`);
+        onImported();
+      }
+    } catch (err) {
+      console.error("Error importing materials:", err);
+      setError("Terjadi kesalahan koneksi saat mengimpor.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const source = { name: selected.name, data: String(reader.result) };
+      setFile(source);
+      setMapping(null);
+      setPreview(null);
+      submit(true, source, null);
+    };
+    reader.readAsDataURL(selected);
+  };
+
+  const updateMapping = (field: ImportField, value: string) => {
+    const next = { ...mapping };
+    if (value === '') {
+      delete next[field];
+    } else {
+      next[field] = parseInt(value);
+    }
+    setMapping(next);
+    submit(true, file, next);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div 
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm"
+      />
+      <motion.div 
+        initial={{ opacity: 0, scale: 0.9, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.9, y: 20 }}
+        className="relative bg-white rounded-3xl shadow-2xl w-full max-w-4xl overflow-hidden"
+      >
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-bold text-lg">Impor Bahan dari CSV / XLSX</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+        <div className="p-6 space-y-4 max-h-[75vh] overflow-y-auto">
+          <input 
+            type="file" 
+            accept=".csv,.xlsx"
+            onChange={handleFileChange}
+            className="block w-full text-sm text-slate-500 file:mr-4 file:py-2 file:px-4 file:rounded-xl file:border-0 file:text-sm file:font-medium file:bg-slate-900 file:text-white hover:file:bg-slate-800"
+          />
+          <p className="text-[10px] text-slate-400">
+            Kolom yang dikenali: nama, kategori, satuan, stok, stok minimal, lokasi. Kategori dan lokasi dicocokkan berdasarkan nama; yang belum ada akan dibuat.
+          </p>
+
+          {headers.length > 0 && (
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {(Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).map(field => (
+                <div key={field}>
+                  <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">{IMPORT_FIELD_LABELS[field]}</label>
+                  <select 
+                    className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                    value={mapping?.[field] ?? ''}
+                    onChange={(e) => updateMapping(field, e.target.value)}
+                  >
+                    <option value="">(tidak dipakai)</option>
+                    {headers.map((h, idx) => (
+                      <option key={idx} value={idx}>{h || `Kolom ${idx + 1}`}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {error && <p className="text-xs text-rose-600">{error}</p>}
+
+          {preview && (
+            <>
+              <div className="flex flex-wrap gap-2 text-[10px] font-bold uppercase tracking-wider">
+                <span className="px-2 py-1 rounded-md bg-emerald-100 text-emerald-600">{preview.valid_count} baris valid</span>
+                <span className={`px-2 py-1 rounded-md ${preview.error_count > 0 ? 'bg-rose-100 text-rose-600' : 'bg-slate-100 text-slate-400'}`}>{preview.error_count} baris bermasalah</span>
+                {preview.new_categories.length > 0 && (
+                  <span className="px-2 py-1 rounded-md bg-blue-100 text-blue-600">Kategori baru: {preview.new_categories.join(', ')}</span>
+                )}
+                {preview.new_locations.length > 0 && (
+                  <span className="px-2 py-1 rounded-md bg-blue-100 text-blue-600">Lokasi baru: {preview.new_locations.join(', ')}</span>
+                )}
+              </div>
+              <div className="border border-slate-200 rounded-2xl overflow-x-auto">
+                <table className="w-full text-left border-collapse">
+                  <thead>
+                    <tr className="bg-slate-50 border-b border-slate-100">
+                      <th className="px-4 py-3 text-[10px] font-bold uppercase tracking-wider text-slate-400">Baris</th>
+                      <th className="px-4 py-3 text-[10px] font-bold uppercase tracking-wider text-slate-400">Nama</th>
+                      <th className="px-4 py-3 text-[10px] font-bold uppercase tracking-wider text-slate-400">Kategori</th>
+                      <th className="px-4 py-3 text-[10px] font-bold uppercase tracking-wider text-slate-400">Stok</th>
+                      <th className="px-4 py-3 text-[10px] font-bold uppercase tracking-wider text-slate-400">Lokasi</th>
+                      <th className="px-4 py-3 text-[10px] font-bold uppercase tracking-wider text-slate-400">Keterangan</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {preview.rows.map(row => (
+                      <tr key={row.row} className={row.errors.length > 0 ? 'bg-rose-50' : ''}>
+                        <td className="px-4 py-2 text-xs text-slate-400">{row.row}</td>
+                        <td className="px-4 py-2 text-xs font-medium">{row.name || '-'}</td>
+                        <td className="px-4 py-2 text-xs">{row.category || '-'}</td>
+                        <td className="px-4 py-2 text-xs">{row.stock} {row.unit} <span className="text-slate-400">(min {row.min_stock})</span></td>
+                        <td className="px-4 py-2 text-xs">{row.location || '-'}</td>
+                        <td className="px-4 py-2 text-xs text-rose-600">{row.errors.join(' ')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          <div className="pt-2">
+            <button 
+              type="button"
+              disabled={!preview || preview.error_count > 0 || preview.valid_count === 0 || isBusy}
+              onClick={() => submit(false)}
+              className="w-full bg-emerald-500 hover:bg-emerald-600 disabled:opacity-50 text-white font-bold py-3 rounded-2xl shadow-lg shadow-emerald-500/20 transition-all"
+            >
+              {isBusy ? 'Memproses...' : `Impor ${preview?.valid_count || 0} Bahan`}
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
+
+const AUDIT_ACTION_LABELS: Record<AuditEntry['action'], string> = {
+  create: 'Dibuat',
+  update: 'Diubah',
+  delete: 'Dihapus'
+};
+
+function LoginScreen({ onLogin }: { onLogin: (user: User) => void }) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        onLogin(data);
+      } else {
+        setError(data.error || 'Gagal login');
+      }
+    } catch (err) {
+      console.error("Error logging in:", err);
+      setError("Terjadi kesalahan koneksi saat login.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#F5F5F5] flex items-center justify-center p-4 font-sans text-slate-900">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-sm overflow-hidden">
+        <div className="p-6 bg-slate-900 text-white flex items-center gap-3">
+          <div className="bg-emerald-500 p-2 rounded-lg">
+            <Database size={20} className="text-white" />
+          </div>
+          <div>
+            <h1 className="font-bold text-sm tracking-tight leading-none">POLNES</h1>
+            <p className="text-[10px] text-slate-400 mt-1 uppercase tracking-widest">Teknik Elektro</p>
+          </div>
+        </div>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Username</label>
+            <input 
+              required
+              type="text" 
+              autoComplete="username"
+              className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Password</label>
+            <input 
+              required
+              type="password" 
+              autoComplete="current-password"
+              className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+          {error && <p className="text-xs text-rose-600">{error}</p>}
+          <button 
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-emerald-500 hover:bg-emerald-600 disabled:opacity-60 text-white font-bold py-3 rounded-2xl shadow-lg shadow-emerald-500/20 transition-all"
+          >
+            Masuk
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function NavItem({ icon, label, active, collapsed, onClick }: { 
+  icon: React.ReactNode, 
+  label: string, 
+  active?: boolean, 
+  collapsed?: boolean,
+  onClick: () => void 
+}) {
+  return (
+    <button 
+      onClick={onClick}
+      className={`w-full flex items-center gap-4 px-4 py-3 rounded-xl transition-all ${
+        active 
+          ? 'bg-emerald-500 text-white shadow-lg shadow-emerald-500/20' 
+          : 'text-slate-400 hover:bg-slate-800 hover:text-white'
+      }`}
+    >
+      <div className="shrink-0">{icon}</div>
+      {!collapsed && <span className="text-sm font-medium">{label}</span>}
+    </button>
+  );
+}
+
+const PURCHASE_REQUEST_STATUS: Record<PurchaseRequestStatus, { label: string, className: string, next?: PurchaseRequestStatus, action?: string }> = {
+  draft: { label: 'Draf', className: 'bg-slate-100 text-slate-500', next: 'submitted', action: 'Setujui & Ajukan' },
+  submitted: { label: 'Diajukan', className: 'bg-blue-100 text-blue-600', next: 'ordered', action: 'Tandai Dipesan' },
+  ordered: { label: 'Dipesan', className: 'bg-amber-100 text-amber-600', next: 'received', action: 'Tandai Diterima' },
+  received: { label: 'Diterima', className: 'bg-emerald-100 text-emerald-600' }
+};
+
+type PurchaseRequestLine = { material_id: number, quantity: string, notes: string };
+
+function PurchaseRequestPanel({ canEdit, isAdmin, materials }: { canEdit: boolean, isAdmin: boolean, materials: MaterialOption[] }) {
+  const [requests, setRequests] = useState<PurchaseRequest[]>([]);
+  const [detail, setDetail] = useState<PurchaseRequestDetail | null>(null);
+  const [draft, setDraft] = useState<{ title: string, notes: string, items: PurchaseRequestLine[] }>({ title: '', notes: '', items: [] });
+  const [isDirty, setIsDirty] = useState(false);
+  const [addMaterialId, setAddMaterialId] = useState('');
+
+  const fetchRequests = async () => {
+    try {
+      const response = await fetch('/api/purchase-requests');
+      if (response.ok) setRequests(await response.json());
+    } catch (error) {
+      console.error("Error fetching purchase requests:", error);
+    }
+  };
+
+  const openRequest = async (id: number) => {
+    try {
+      const response = await fetch(`/api/purchase-requests/${id}`);
+      if (response.ok) {
+        const data: PurchaseRequestDetail = await response.json();
+        setDetail(data);
+        setDraft({
+          title: data.title,
+          notes: data.notes || '',
+          items: data.items.map(i => ({ material_id: i.material_id, quantity: String(i.quantity), notes: i.notes || '' }))
+        });
+        setIsDirty(false);
+      }
+    } catch (error) {
+      console.error("Error fetching purchase request:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchRequests();
+  }, []);
+
+  const handleCreate = async () => {
+    try {
+      const response = await fetch('/api/purchase-requests', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      });
+      const data = await response.json();
+      if (response.ok) {
+        fetchRequests();
+        openRequest(data.id);
+      } else {
+        alert(data.error || 'Gagal membuat permintaan pembelian');
+      }
+    } catch (error) {
+      console.error("Error creating purchase request:", error);
+      alert("Terjadi kesalahan koneksi saat membuat permintaan pembelian.");
+    }
+  };
+
+  const updateLine = (index: number, changes: Partial<PurchaseRequestLine>) => {
+    setDraft({ ...draft, items: draft.items.map((item, i) => i === index ? { ...item, ...changes } : item) });
+    setIsDirty(true);
+  };
+
+  const removeLine = (index: number) => {
+    setDraft({ ...draft, items: draft.items.filter((_, i) => i !== index) });
+    setIsDirty(true);
+  };
+
+  const addLine = () => {
+    const material = materials.find(m => m.id === Number(addMaterialId));
+    if (!material || draft.items.some(i => i.material_id === material.id)) return;
+    const suggested = Math.max((material.target_stock ?? material.min_stock * 2) - material.stock, 1);
+    setDraft({ ...draft, items: [...draft.items, { material_id: material.id, quantity: String(suggested), notes: '' }] });
+    setAddMaterialId('');
+    setIsDirty(true);
+  };
+
+  const saveDraft = async () => {
+    if (!detail) return false;
+    try {
+      const response = await fetch(`/api/purchase-requests/${detail.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: draft.title,
+          notes: draft.notes,
+          items: draft.items.map(i => ({ ...i, quantity: parseInt(i.quantity) }))
+        })
+      });
+      if (response.ok) {
+        await openRequest(detail.id);
+        return true;
+      }
+      const err = await response.json();
+      alert(err.error || 'Gagal menyimpan permintaan pembelian');
+    } catch (error) {
+      console.error("Error saving purchase request:", error);
+      alert("Terjadi kesalahan koneksi saat menyimpan permintaan pembelian.");
+    }
+    return false;
+  };
+
+  const advanceStatus = async (status: PurchaseRequestStatus) => {
+    if (!detail) return;
+    if (isDirty && !(await saveDraft())) return;
+    if (!window.confirm(`Ubah status permintaan menjadi "${PURCHASE_REQUEST_STATUS[status].label}"?`)) return;
+    try {
+      const response = await fetch(`/api/purchase-requests/${detail.id}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        fetchRequests();
+        openRequest(detail.id);
+      } else {
+        alert(data.details ? `${data.error}\n\n${data.details}` : data.error);
+      }
+    } catch (error) {
+      console.error("Error updating purchase request status:", error);
+      alert("Terjadi kesalahan koneksi saat memperbarui status.");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!detail || !window.confirm('Hapus draf permintaan pembelian ini?')) return;
+    try {
+      const response = await fetch(`/api/purchase-requests/${detail.id}`, { method: 'DELETE' });
+      if (response.ok) {
+        setDetail(null);
+        fetchRequests();
+      }
+    } catch (error) {
+      console.error("Error deleting purchase request:", error);
+    }
+  };
+
+  if (detail) {
+    const isDraft = detail.status === 'draft' && canEdit;
+    const status = PURCHASE_REQUEST_STATUS[detail.status];
+    const canAdvance = canEdit && status.next && (status.next !== 'submitted' || isAdmin);
+
+    return (
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex flex-wrap gap-4 justify-between items-center">
+          <div className="flex items-center gap-3">
+            <button onClick={() => { setDetail(null); fetchRequests(); }} className="p-1.5 hover:bg-slate-100 rounded-lg text-slate-500">
+              <ChevronLeft size={20} />
+            </button>
+            <div>
+              {isDraft ? (
+                <input 
+                  className="font-bold bg-transparent border-b border-dashed border-slate-300 outline-none focus:border-emerald-500"
+                  value={draft.title}
+                  onChange={(e) => { setDraft({ ...draft, title: e.target.value }); setIsDirty(true); }}
+                />
+              ) : (
+                <h3 className="font-bold">{detail.title}</h3>
+              )}
+              <p className="text-[10px] text-slate-400 uppercase tracking-wider">
+                PP-{String(detail.id).padStart(4, '0')} &middot; {status.label}
+                {detail.approved_by_name ? ` · disetujui ${detail.approved_by_name}` : ''}
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-2 items-center">
+            <ExportButtons url={`/api/purchase-requests/${detail.id}/export`} />
+            {isDraft && (
+              <button 
+                onClick={handleDelete}
+                className="p-2 hover:bg-rose-50 text-rose-600 rounded-xl transition-colors"
+                title="Hapus Draf"
+              >
+                <Trash2 size={16} />
+              </button>
+            )}
+            {isDraft && isDirty && (
+              <button 
+                onClick={saveDraft}
+                className="bg-white border border-slate-200 text-slate-700 px-4 py-2 rounded-xl text-sm font-medium hover:bg-slate-50 transition-colors"
+              >
+                Simpan
+              </button>
+            )}
+            {canAdvance && status.next && (
+              <button 
+                onClick={() => advanceStatus(status.next!)}
+                className="bg-emerald-500 text-white px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 hover:bg-emerald-600 transition-colors"
+              >
+                <CheckCircle2 size={16} /> {status.action}
+              </button>
+            )}
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-slate-50 border-b border-slate-100">
+                <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-wider text-slate-400">Bahan</th>
+                <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-wider text-slate-400">Stok / Min</th>
+                <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-wider text-slate-400">Jumlah Diminta</th>
+                <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-wider text-slate-400">Keterangan</th>
+                {isDraft && <th className="px-6 py-4"></th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {draft.items.map((line, index) => {
+                const material = materials.find(m => m.id === line.material_id);
+                const saved = detail.items.find(i => i.material_id === line.material_id);
+                return (
+                  <tr key={line.material_id} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-6 py-3">
+                      <p className="text-sm font-medium">{material?.name || saved?.material_name}</p>
+                      <p className="text-[10px] text-slate-400">{material?.category_name || saved?.category_name || '-'}</p>
+                    </td>
+                    <td className="px-6 py-3 text-sm text-slate-500">
+                      {saved?.stock_at_request ?? material?.stock} / {material?.min_stock ?? saved?.min_stock} {material?.unit || saved?.unit}
+                    </td>
+                    <td className="px-6 py-3">
+                      {isDraft ? (
+                        <input 
+                          type="number" 
+                          min={1}
+                          className="w-24 bg-slate-50 border border-slate-200 rounded-xl px-3 py-1.5 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                          value={line.quantity}
+                          onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                        />
+                      ) : (
+                        <span className="text-sm font-bold">{line.quantity} <span className="text-[10px] font-normal text-slate-400">{saved?.unit}</span></span>
+                      )}
+                    </td>
+                    <td className="px-6 py-3">
+                      {isDraft ? (
+                        <input 
+                          type="text" 
+                          className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-1.5 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                          value={line.notes}
+                          onChange={(e) => updateLine(index, { notes: e.target.value })}
+                        />
+                      ) : (
+                        <span className="text-sm text-slate-500">{line.notes || '-'}</span>
+                      )}
+                    </td>
+                    {isDraft && (
+                      <td className="px-6 py-3 text-right">
+                        <button onClick={() => removeLine(index)} className="p-1.5 hover:bg-rose-50 text-rose-600 rounded-lg transition-colors">
+                          <X size={14} />
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        {isDraft && (
+          <div className="p-6 border-t border-slate-100 flex gap-2">
+            <select 
+              className="flex-1 bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+              value={addMaterialId}
+              onChange={(e) => setAddMaterialId(e.target.value)}
+            >
+              <option value="">Tambah bahan lain...</option>
+              {materials.filter(m => !draft.items.some(i => i.material_id === m.id)).map(m => (
+                <option key={m.id} value={m.id}>{m.name} (stok {m.stock} {m.unit})</option>
+              ))}
+            </select>
+            <button 
+              onClick={addLine}
+              disabled={!addMaterialId}
+              className="bg-slate-900 text-white px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 hover:bg-slate-800 disabled:opacity-50 transition-colors"
+            >
+              <Plus size={16} /> Tambah
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+        <h3 className="font-bold">Permintaan Pembelian</h3>
+        {canEdit && (
+          <button 
+            onClick={handleCreate}
+            className="bg-slate-900 text-white px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 hover:bg-slate-800 transition-colors"
+          >
+            <Plus size={16} /> Buat dari Stok Rendah
+          </button>
+        )}
+      </div>
+      {requests.length === 0 ? (
+        <p className="p-6 text-sm text-slate-400 italic">Belum ada permintaan pembelian.</p>
+      ) : (
+        <div className="divide-y divide-slate-100">
+          {requests.map(request => (
+            <button 
+              key={request.id}
+              onClick={() => openRequest(request.id)}
+              className="w-full px-6 py-4 flex items-center justify-between hover:bg-slate-50 transition-colors text-left"
+            >
+              <div>
+                <p className="text-sm font-medium">{request.title}</p>
+                <p className="text-[10px] text-slate-400">
+                  PP-{String(request.id).padStart(4, '0')} &middot; {new Date(request.created_at).toLocaleDateString()} oleh {request.created_by_name || '-'}
+                </p>
+              </div>
+              <div className="flex items-center gap-4">
+                <span className="text-xs text-slate-500">{request.item_count} bahan</span>
+                <span className={`px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider ${PURCHASE_REQUEST_STATUS[request.status].className}`}>
+                  {PURCHASE_REQUEST_STATUS[request.status].label}
+                </span>
+                <ChevronRight size={16} className="text-slate-300" />
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const PURCHASE_ORDER_STATUS: Record<PurchaseOrderStatus, { label: string, className: string }> = {
+  open: { label: 'Dipesan', className: 'bg-blue-100 text-blue-600' },
+  partial: { label: 'Diterima Sebagian', className: 'bg-amber-100 text-amber-600' },
+  received: { label: 'Diterima', className: 'bg-emerald-100 text-emerald-600' },
+  cancelled: { label: 'Dibatalkan', className: 'bg-slate-100 text-slate-400' }
+};
+
+const poNumber = (id: number) => `PO-${String(id).padStart(4, '0')}`;
+
+type PurchaseOrderFormLine = { material_id: number, quantity: string, unit_price: string };
+
+function PurchaseOrderPanel({ canEdit, materials, onReceived }: { canEdit: boolean, materials: MaterialOption[], onReceived: () => void }) {
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [approvedRequests, setApprovedRequests] = useState<PurchaseRequest[]>([]);
+  const [detail, setDetail] = useState<PurchaseOrderDetail | null>(null);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [form, setForm] = useState({ supplier_id: '', reference: '', expected_date: '', purchase_request_id: '', notes: '' });
+  const [formLines, setFormLines] = useState<PurchaseOrderFormLine[]>([]);
+  const [addMaterialId, setAddMaterialId] = useState('');
+  const [receiving, setReceiving] = useState<Record<string, string>>({});
+  const [receivingLots, setReceivingLots] = useState<Record<string, { lot_number: string, expiry_date: string }>>({});
+  const [receivingSerials, setReceivingSerials] = useState<Record<string, string>>({});
+  const [receiptNotes, setReceiptNotes] = useState('');
+
+  const fetchOrders = async () => {
+    try {
+      const [ordersRes, suppliersRes, requestsRes] = await Promise.all([
+        fetch('/api/purchase-orders'),
+        fetch('/api/suppliers'),
+        fetch('/api/purchase-requests')
+      ]);
+      if (ordersRes.ok) setOrders(await ordersRes.json());
+      if (suppliersRes.ok) setSuppliers(await suppliersRes.json());
+      if (requestsRes.ok) {
+        const requests: PurchaseRequest[] = await requestsRes.json();
+        setApprovedRequests(requests.filter(r => r.status === 'submitted' || r.status === 'ordered'));
+      }
+    } catch (error) {
+      console.error("Error fetching purchase orders:", error);
+    }
+  };
+
+  const openOrder = async (id: number) => {
+    try {
+      const response = await fetch(`/api/purchase-orders/${id}`);
+      if (response.ok) {
+        setDetail(await response.json());
+        setReceiving({});
+        setReceivingLots({});
+        setReceivingSerials({});
+        setReceiptNotes('');
+      }
+    } catch (error) {
+      console.error("Error fetching purchase order:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchOrders();
+  }, []);
+
+  // Picking an approved purchase request copies its lines into the order
+  const selectRequest = async (requestId: string) => {
+    setForm({ ...form, purchase_request_id: requestId });
+    if (!requestId) return;
+    try {
+      const response = await fetch(`/api/purchase-requests/${requestId}`);
+      if (response.ok) {
+        const request: PurchaseRequestDetail = await response.json();
+        setFormLines(request.items.map(i => ({ material_id: i.material_id, quantity: String(i.quantity), unit_price: '' })));
+      }
+    } catch (error) {
+      console.error("Error fetching purchase request:", error);
+    }
+  };
+
+  const addLine = () => {
+    const materialId = Number(addMaterialId);
+    if (!materialId || formLines.some(l => l.material_id === materialId)) return;
+    setFormLines([...formLines, { material_id: materialId, quantity: '1', unit_price: '' }]);
+    setAddMaterialId('');
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await fetch('/api/purchase-orders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...form,
+          supplier_id: Number(form.supplier_id),
+          purchase_request_id: form.purchase_request_id ? Number(form.purchase_request_id) : null,
+          lines: formLines.map(l => ({ material_id: l.material_id, quantity: parseInt(l.quantity), unit_price: l.unit_price ? Number(l.unit_price) : null }))
+        })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setIsCreateOpen(false);
+        setForm({ supplier_id: '', reference: '', expected_date: '', purchase_request_id: '', notes: '' });
+        setFormLines([]);
+        fetchOrders();
+        openOrder(data.id);
+      } else {
+        alert(data.error || 'Gagal membuat pesanan pembelian');
+      }
+    } catch (error) {
+      console.error("Error creating purchase order:", error);
+      alert("Terjadi kesalahan koneksi saat membuat pesanan pembelian.");
+    }
+  };
+
+  const handleReceive = async () => {
+    if (!detail) return;
+    const lines = (Object.entries(receiving) as [string, string][])
+      .filter(([, quantity]) => parseInt(quantity) > 0)
+      .map(([lineId, quantity]) => ({
+        line_id: Number(lineId),
+        quantity: parseInt(quantity),
+        ...receivingLots[lineId],
+        serial_numbers: parseSerialNumbers(receivingSerials[lineId] ?? '')
+      }));
+    if (lines.length === 0) {
+      alert('Isi jumlah yang diterima untuk minimal satu bahan.');
+      return;
+    }
+    try {
+      const response = await fetch(`/api/purchase-orders/${detail.id}/receive`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ lines, notes: receiptNotes })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        onReceived();
+        fetchOrders();
+        openOrder(detail.id);
+      } else {
+        alert(data.details ? `${data.error}\n\n${data.details}` : data.error);
+      }
+    } catch (error) {
+      console.error("Error receiving purchase order:", error);
+      alert("Terjadi kesalahan koneksi saat mencatat penerimaan.");
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!detail || !window.confirm('Batalkan pesanan pembelian ini?')) return;
+    try {
+      const response = await fetch(`/api/purchase-orders/${detail.id}/cancel`, { method: 'POST' });
+      const data = await response.json();
+      if (response.ok) {
+        fetchOrders();
+        openOrder(detail.id);
+      } else {
+        alert(data.details ? `${data.error}\n\n${data.details}` : data.error);
+      }
+    } catch (error) {
+      console.error("Error cancelling purchase order:", error);
+    }
+  };
+
+  if (detail) {
+    const canReceive = canEdit && (detail.status === 'open' || detail.status === 'partial');
+    return (
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex flex-wrap gap-4 justify-between items-center">
+          <div className="flex items-center gap-3">
+            <button onClick={() => { setDetail(null); fetchOrders(); }} className="p-1.5 hover:bg-slate-100 rounded-lg text-slate-500">
+              <ChevronLeft size={20} />
+            </button>
+            <div>
+              <h3 className="font-bold">{poNumber(detail.id)} &middot; {detail.supplier_name}</h3>
+              <p className="text-[10px] text-slate-400 uppercase tracking-wider">
+                {PURCHASE_ORDER_STATUS[detail.status].label}
+                {detail.reference ? ` · Ref ${detail.reference}` : ''}
+                {detail.expected_date ? ` · Estimasi ${new Date(detail.expected_date).toLocaleDateString()}` : ''}
+                {detail.purchase_request_id ? ` · PP-${String(detail.purchase_request_id).padStart(4, '0')}` : ''}
+              </p>
+            </div>
+          </div>
+          {canEdit && detail.status === 'open' && (
+            <button 
+              onClick={handleCancel}
+              className="bg-white border border-slate-200 text-slate-700 px-4 py-2 rounded-xl text-sm font-medium hover:bg-slate-50 transition-colors"
+            >
+              Batalkan Pesanan
+            </button>
+          )}
+        </div>
+        <div className="divide-y divide-slate-100">
+          {detail.lines.map(line => {
+            const outstanding = line.quantity_ordered - line.quantity_received;
+            const receipts = detail.receipts.filter(r => r.purchase_order_line_id === line.id);
+            return (
+              <div key={line.id} className="px-6 py-4 space-y-2">
+                <div className="flex flex-wrap items-center gap-4 justify-between">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium">{line.material_name}</p>
+                    <p className="text-[10px] text-slate-400">
+                      Dipesan {line.quantity_ordered} &middot; Diterima {line.quantity_received} &middot; Sisa {outstanding} {line.unit}
+                      {line.unit_price ? ` · @ Rp${line.unit_price.toLocaleString('id-ID')}` : ''}
+                    </p>
+                  </div>
+                  {canReceive && outstanding > 0 && (
+                    <div className="flex items-center gap-2">
+                      <input 
+                        type="number" 
+                        inputMode="numeric"
+                        min={0}
+                        max={outstanding}
+                        placeholder="0"
+                        className="w-24 bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-base focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                        value={receiving[line.id] ?? ''}
+                        onChange={(e) => setReceiving({ ...receiving, [line.id]: e.target.value })}
+                      />
+                      <button 
+                        onClick={() => setReceiving({ ...receiving, [line.id]: String(outstanding) })}
+                        className="px-2 py-2 text-xs text-emerald-600 hover:bg-emerald-50 rounded-lg"
+                      >
+                        Semua
+                      </button>
+                    </div>
+                  )}
+                  {outstanding === 0 && <CheckCircle2 size={18} className="text-emerald-500" />}
+                </div>
+                {canReceive && outstanding > 0 && materials.find(m => m.id === line.material_id)?.track_lots ? (
+                  <div className="flex flex-wrap gap-2">
+                    <input 
+                      type="text" 
+                      placeholder="No. lot"
+                      className="w-36 bg-slate-50 border border-slate-200 rounded-xl px-3 py-1.5 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                      value={receivingLots[line.id]?.lot_number ?? ''}
+                      onChange={(e) => setReceivingLots({ ...receivingLots, [line.id]: { expiry_date: '', ...receivingLots[line.id], lot_number: e.target.value } })}
+                    />
+                    <input 
+                      type="date" 
+                      title="Tanggal kedaluwarsa"
+                      className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-1.5 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                      value={receivingLots[line.id]?.expiry_date ?? ''}
+                      onChange={(e) => setReceivingLots({ ...receivingLots, [line.id]: { lot_number: '', ...receivingLots[line.id], expiry_date: e.target.value } })}
+                    />
+                  </div>
+                ) : null}
+                {canReceive && outstanding > 0 && materials.find(m => m.id === line.material_id)?.track_serials ? (
+                  <textarea 
+                    rows={2}
+                    placeholder="Nomor seri unit yang diterima, satu per baris"
+                    className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-1.5 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                    value={receivingSerials[line.id] ?? ''}
+                    onChange={(e) => setReceivingSerials({ ...receivingSerials, [line.id]: e.target.value })}
+                  />
+                ) : null}
+                {receipts.length > 0 && (
+                  <ul className="text-[10px] text-slate-500 space-y-0.5 pl-3 border-l-2 border-emerald-100">
+                    {receipts.map(r => (
+                      <li key={r.id}>
+                        +{r.quantity} {line.unit} &middot; {new Date(r.date).toLocaleString()} &middot; {r.user_name || '-'}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        {canReceive && (
+          <div className="p-6 border-t border-slate-100 flex flex-wrap gap-2">
+            <input 
+              type="text" 
+              placeholder="No. surat jalan / catatan penerimaan"
+              className="flex-1 bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+              value={receiptNotes}
+              onChange={(e) => setReceiptNotes(e.target.value)}
+            />
+            <button 
+              onClick={handleReceive}
+              className="bg-emerald-500 text-white px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 hover:bg-emerald-600 transition-colors"
+            >
+              <Truck size={16} /> Catat Penerimaan
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+        <h3 className="font-bold">Pesanan Pembelian</h3>
+        {canEdit && (
+          <button 
+            onClick={() => setIsCreateOpen(!isCreateOpen)}
+            className="bg-slate-900 text-white px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 hover:bg-slate-800 transition-colors"
+          >
+            <Plus size={16} /> PO Baru
+          </button>
+        )}
+      </div>
+      {isCreateOpen && (
+        <form onSubmit={handleCreate} className="p-6 border-b border-slate-100 space-y-4 bg-slate-50/50">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Pemasok</label>
+              <select 
+                required
+                className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                value={form.supplier_id}
+                onChange={(e) => setForm({ ...form, supplier_id: e.target.value })}
+              >
+                <option value="">Pilih Pemasok</option>
+                {suppliers.map(s => (
+                  <option key={s.id} value={s.id}>{s.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Dari Permintaan</label>
+              <select 
+                className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                value={form.purchase_request_id}
+                onChange={(e) => selectRequest(e.target.value)}
+              >
+                <option value="">Tanpa permintaan</option>
+                {approvedRequests.map(r => (
+                  <option key={r.id} value={r.id}>PP-{String(r.id).padStart(4, '0')} {r.title}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Referensi Pemasok</label>
+              <input 
+                type="text" 
+                placeholder="No. penawaran / faktur"
+                className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                value={form.reference}
+                onChange={(e) => setForm({ ...form, reference: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Estimasi Tiba</label>
+              <input 
+                type="date" 
+                className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                value={form.expected_date}
+                onChange={(e) => setForm({ ...form, expected_date: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            {formLines.map((line, index) => {
+              const material = materials.find(m => m.id === line.material_id);
+              return (
+                <div key={line.material_id} className="flex items-center gap-2">
+                  <span className="flex-1 text-sm">{material?.name}</span>
+                  <input 
+                    required
+                    type="number" 
+                    min={1}
+                    className="w-24 bg-white border border-slate-200 rounded-xl px-3 py-1.5 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                    value={line.quantity}
+                    onChange={(e) => setFormLines(formLines.map((l, i) => i === index ? { ...l, quantity: e.target.value } : l))}
+                  />
+                  <span className="text-xs text-slate-400 w-10">{material?.unit}</span>
+                  <input 
+                    type="number" 
+                    min={0}
+                    placeholder="Harga satuan"
+                    className="w-32 bg-white border border-slate-200 rounded-xl px-3 py-1.5 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                    value={line.unit_price}
+                    onChange={(e) => setFormLines(formLines.map((l, i) => i === index ? { ...l, unit_price: e.target.value } : l))}
+                  />
+                  <button type="button" onClick={() => setFormLines(formLines.filter((_, i) => i !== index))} className="p-1.5 hover:bg-rose-50 text-rose-600 rounded-lg transition-colors">
+                    <X size={14} />
+                  </button>
+                </div>
+              );
+            })}
+            <div className="flex gap-2">
+              <select 
+                className="flex-1 bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                value={addMaterialId}
+                onChange={(e) => setAddMaterialId(e.target.value)}
+              >
+                <option value="">Tambah bahan...</option>
+                {materials.filter(m => !formLines.some(l => l.material_id === m.id)).map(m => (
+                  <option key={m.id} value={m.id}>{m.name}</option>
+                ))}
+              </select>
+              <button type="button" onClick={addLine} disabled={!addMaterialId} className="bg-white border border-slate-200 text-slate-700 px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 hover:bg-slate-50 disabled:opacity-50 transition-colors">
+                <Plus size={16} /> Tambah
+              </button>
+            </div>
+          </div>
+          <button 
+            type="submit"
+            disabled={formLines.length === 0}
+            className="bg-emerald-500 hover:bg-emerald-600 disabled:opacity-50 text-white font-bold px-6 py-2 rounded-xl text-sm transition-all"
+          >
+            Buat Pesanan
+          </button>
+        </form>
+      )}
+      {orders.length === 0 ? (
+        <p className="p-6 text-sm text-slate-400 italic">Belum ada pesanan pembelian.</p>
+      ) : (
+        <div className="divide-y divide-slate-100">
+          {orders.map(order => (
+            <button 
+              key={order.id}
+              onClick={() => openOrder(order.id)}
+              className="w-full px-6 py-4 flex items-center justify-between hover:bg-slate-50 transition-colors text-left"
+            >
+              <div>
+                <p className="text-sm font-medium">{poNumber(order.id)} &middot; {order.supplier_name}</p>
+                <p className="text-[10px] text-slate-400">
+                  {new Date(order.order_date).toLocaleDateString()}
+                  {order.reference ? ` · Ref ${order.reference}` : ''}
+                  {order.total_price ? ` · Rp${order.total_price.toLocaleString('id-ID')}` : ''}
+                </p>
+              </div>
+              <div className="flex items-center gap-4">
+                <span className="text-xs text-slate-500">{order.quantity_received}/{order.quantity_ordered}</span>
+                <span className={`px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider ${PURCHASE_ORDER_STATUS[order.status].className}`}>
+                  {PURCHASE_ORDER_STATUS[order.status].label}
+                </span>
+                <ChevronRight size={16} className="text-slate-300" />
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const EMPTY_SUPPLIER = { name: '', contact_person: '', phone: '', email: '', address: '' };
+
+function SupplierPanel({ canEdit, isAdmin }: { canEdit: boolean, isAdmin: boolean }) {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [form, setForm] = useState(EMPTY_SUPPLIER);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const fetchSuppliers = async () => {
+    try {
+      const response = await fetch('/api/suppliers');
+      if (response.ok) setSuppliers(await response.json());
+    } catch (error) {
+      console.error("Error fetching suppliers:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchSuppliers();
+  }, []);
+
+  const openForm = (supplier?: Supplier) => {
+    setEditingId(supplier?.id ?? null);
+    setForm(supplier ? {
+      name: supplier.name,
+      contact_person: supplier.contact_person || '',
+      phone: supplier.phone || '',
+      email: supplier.email || '',
+      address: supplier.address || ''
+    } : EMPTY_SUPPLIER);
+    setIsFormOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await fetch(editingId ? `/api/suppliers/${editingId}` : '/api/suppliers', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form)
+      });
+      if (response.ok) {
+        setIsFormOpen(false);
+        fetchSuppliers();
+      } else {
+        const err = await response.json();
+        alert(err.error || 'Gagal menyimpan pemasok');
+      }
+    } catch (error) {
+      console.error("Error saving supplier:", error);
+      alert("Terjadi kesalahan koneksi saat menyimpan pemasok.");
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!window.confirm('Hapus pemasok ini?')) return;
+    try {
+      const response = await fetch(`/api/suppliers/${id}`, { method: 'DELETE' });
+      if (response.ok) {
+        fetchSuppliers();
+      } else {
+        const err = await response.json();
+        alert(err.details ? `${err.error}\n\n${err.details}` : err.error);
+      }
+    } catch (error) {
+      console.error("Error deleting supplier:", error);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+        <h3 className="font-bold">Daftar Pemasok</h3>
+        {canEdit && (
+          <button 
+            onClick={() => openForm()}
+            className="bg-slate-900 text-white px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 hover:bg-slate-800 transition-colors"
+          >
+            <Plus size={16} /> Tambah Pemasok
+          </button>
+        )}
+      </div>
+      {isFormOpen && (
+        <form onSubmit={handleSave} className="p-6 border-b border-slate-100 grid grid-cols-1 md:grid-cols-2 gap-4 bg-slate-50/50">
+          {([
+            ['name', 'Nama Pemasok'],
+            ['contact_person', 'Kontak'],
+            ['phone', 'Telepon'],
+            ['email', 'Email'],
+            ['address', 'Alamat']
+          ] as const).map(([field, label]) => (
+            <div key={field} className={field === 'address' ? 'md:col-span-2' : ''}>
+              <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">{label}</label>
+              <input 
+                required={field === 'name'}
+                type={field === 'email' ? 'email' : 'text'}
+                className="w-full bg-white border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                value={form[field]}
+                onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+              />
+            </div>
+          ))}
+          <div className="md:col-span-2 flex gap-2">
+            <button type="submit" className="bg-emerald-500 hover:bg-emerald-600 text-white font-bold px-6 py-2 rounded-xl text-sm transition-all">
+              {editingId ? 'Simpan Perubahan' : 'Tambah'}
+            </button>
+            <button type="button" onClick={() => setIsFormOpen(false)} className="px-4 py-2 text-sm text-slate-500 hover:text-slate-700">
+              Batal
+            </button>
+          </div>
+        </form>
+      )}
+      <div className="overflow-x-auto">
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="bg-slate-50 border-b border-slate-100">
+              <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-wider text-slate-400">Nama</th>
+              <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-wider text-slate-400">Kontak</th>
+              <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-wider text-slate-400">Alamat</th>
+              <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-wider text-slate-400">Aksi</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {suppliers.length === 0 && (
+              <tr><td colSpan={4} className="px-6 py-4 text-sm text-slate-400 italic">Belum ada pemasok.</td></tr>
+            )}
+            {suppliers.map(s => (
+              <tr key={s.id} className="hover:bg-slate-50 transition-colors group">
+                <td className="px-6 py-4 text-sm font-medium">{s.name}</td>
+                <td className="px-6 py-4 text-sm text-slate-500">
+                  {s.contact_person || '-'}
+                  <span className="block text-[10px] text-slate-400">{[s.phone, s.email].filter(Boolean).join(' · ')}</span>
+                </td>
+                <td className="px-6 py-4 text-sm text-slate-500">{s.address || '-'}</td>
+                <td className="px-6 py-4">
+                  {canEdit && (
+                    <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button 
+                        onClick={() => openForm(s)}
+                        className="p-1.5 hover:bg-blue-50 text-blue-600 rounded-lg transition-colors"
+                        title="Edit Pemasok"
+                      >
+                        <Edit2 size={16} />
+                      </button>
+                      {isAdmin && (
+                        <button 
+                          onClick={() => handleDelete(s.id)}
+                          className="p-1.5 hover:bg-rose-50 text-rose-600 rounded-lg transition-colors"
+                          title="Hapus Pemasok"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+type KitFormComponent = { material_id: number, quantity: string };
+
+function KitPanel({ canEdit, isAdmin, materials, onCheckedOut }: { canEdit: boolean, isAdmin: boolean, materials: MaterialOption[], onCheckedOut: () => void }) {
+  const [kits, setKits] = useState<Kit[]>([]);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState({ name: '', description: '' });
+  const [formComponents, setFormComponents] = useState<KitFormComponent[]>([]);
+  const [addMaterialId, setAddMaterialId] = useState('');
+  const [checkoutQuantities, setCheckoutQuantities] = useState<Record<string, string>>({});
+  const [checkoutNotes, setCheckoutNotes] = useState<Record<string, string>>({});
+
+  const fetchKits = async () => {
+    try {
+      const response = await fetch('/api/kits');
+      if (response.ok) setKits(await response.json());
+    } catch (error) {
+      console.error("Error fetching kits:", error);
+    }
+  };
+
+  // Availability depends on stock, so refresh whenever materials change
+  useEffect(() => {
+    fetchKits();
+  }, [materials]);
+
+  const openForm = (kit?: Kit) => {
+    setEditingId(kit?.id ?? null);
+    setForm({ name: kit?.name || '', description: kit?.description || '' });
+    setFormComponents(kit ? kit.components.map(c => ({ material_id: c.material_id, quantity: String(c.quantity) })) : []);
+    setAddMaterialId('');
+    setIsFormOpen(true);
+  };
+
+  const addComponent = () => {
+    const materialId = Number(addMaterialId);
+    if (!materialId || formComponents.some(c => c.material_id === materialId)) return;
+    setFormComponents([...formComponents, { material_id: materialId, quantity: '1' }]);
+    setAddMaterialId('');
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await fetch(editingId ? `/api/kits/${editingId}` : '/api/kits', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...form,
+          components: formComponents.map(c => ({ material_id: c.material_id, quantity: parseInt(c.quantity) }))
+        })
+      });
+      if (response.ok) {
+        setIsFormOpen(false);
+        fetchKits();
+      } else {
+        const err = await response.json();
+        alert(err.error || 'Gagal menyimpan kit');
+      }
+    } catch (error) {
+      console.error("Error saving kit:", error);
+      alert("Terjadi kesalahan koneksi saat menyimpan kit.");
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!window.confirm('Hapus kit ini?')) return;
+    try {
+      const response = await fetch(`/api/kits/${id}`, { method: 'DELETE' });
+      if (response.ok) {
+        fetchKits();
+      } else {
+        const err = await response.json();
+        alert(err.details ? `${err.error}\n\n${err.details}` : err.error);
+      }
+    } catch (error) {
+      console.error("Error deleting kit:", error);
+    }
+  };
+
+  const handleCheckout = async (kit: Kit) => {
+    const quantity = parseInt(checkoutQuantities[kit.id] || '1');
+    if (!window.confirm(`Keluarkan ${quantity} kit ${kit.name}? Semua komponen akan dicatat sebagai barang keluar.`)) return;
+    try {
+      const response = await fetch(`/api/kits/${kit.id}/checkout`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ quantity, notes: checkoutNotes[kit.id] || '' })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setCheckoutQuantities({ ...checkoutQuantities, [kit.id]: '' });
+        setCheckoutNotes({ ...checkoutNotes, [kit.id]: '' });
+        onCheckedOut();
+      } else {
+        alert(data.details ? `${data.error}\n\n${data.details}` : data.error);
+      }
+    } catch (error) {
+      console.error("Error checking out kit:", error);
+      alert("Terjadi kesalahan koneksi saat mengeluarkan kit.");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="font-bold">Kit Praktikum</h3>
+        {canEdit && (
+          <button 
+            onClick={() => openForm()}
+            className="bg-slate-900 text-white px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 hover:bg-slate-800 transition-colors"
+          >
+            <Plus size={16} /> Kit Baru
+          </button>
+        )}
+      </div>
+
+      {isFormOpen && (
+        <form onSubmit={handleSave} className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Nama Kit</label>
+              <input 
+                required
+                type="text" 
+                placeholder="Praktikum Rangkaian Dasar"
+                className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Keterangan</label>
+              <input 
+                type="text" 
+                className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400">Komponen per Kit</label>
+            {formComponents.map((component, index) => {
+              const material = materials.find(m => m.id === component.material_id);
+              return (
+                <div key={component.material_id} className="flex items-center gap-2">
+                  <span className="flex-1 text-sm">{material?.name}</span>
+                  <input 
+                    required
+                    type="number" 
+                    min={1}
+                    className="w-24 bg-slate-50 border border-slate-200 rounded-xl px-3 py-1.5 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                    value={component.quantity}
+                    onChange={(e) => setFormComponents(formComponents.map((c, i) => i === index ? { ...c, quantity: e.target.value } : c))}
+                  />
+                  <span className="text-xs text-slate-400 w-10">{material?.unit}</span>
+                  <button type="button" onClick={() => setFormComponents(formComponents.filter((_, i) => i !== index))} className="p-1.5 hover:bg-rose-50 text-rose-600 rounded-lg transition-colors">
+                    <X size={14} />
+                  </button>
+                </div>
+              );
+            })}
+            <div className="flex gap-2">
+              <select 
+                className="flex-1 bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                value={addMaterialId}
+                onChange={(e) => setAddMaterialId(e.target.value)}
+              >
+                <option value="">Tambah bahan...</option>
+                {materials.filter(m => !formComponents.some(c => c.material_id === m.id)).map(m => (
+                  <option key={m.id} value={m.id}>{m.name}</option>
+                ))}
+              </select>
+              <button type="button" onClick={addComponent} disabled={!addMaterialId} className="bg-white border border-slate-200 text-slate-700 px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 hover:bg-slate-50 disabled:opacity-50 transition-colors">
+                <Plus size={16} /> Tambah
+              </button>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button 
+              type="submit"
+              disabled={formComponents.length === 0}
+              className="bg-emerald-500 hover:bg-emerald-600 disabled:opacity-50 text-white font-bold px-6 py-2 rounded-xl text-sm transition-all"
+            >
+              {editingId ? 'Simpan Perubahan' : 'Buat Kit'}
+            </button>
+            <button type="button" onClick={() => setIsFormOpen(false)} className="px-4 py-2 text-sm text-slate-500 hover:text-slate-700">
+              Batal
+            </button>
+          </div>
+        </form>
+      )}
+
+      {kits.length === 0 && !isFormOpen && (
+        <p className="bg-white rounded-2xl border border-slate-200 p-6 text-sm text-slate-400 italic">Belum ada kit praktikum.</p>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {kits.map(kit => (
+          <div key={kit.id} className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden group">
+            <div className="p-6 border-b border-slate-100 flex justify-between items-start gap-4">
+              <div className="min-w-0">
+                <h4 className="font-bold truncate">{kit.name}</h4>
+                {kit.description && <p className="text-xs text-slate-400">{kit.description}</p>}
+              </div>
+              <div className="flex items-center gap-2">
+                {canEdit && (
+                  <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={() => openForm(kit)} className="p-1.5 hover:bg-blue-50 text-blue-600 rounded-lg transition-colors" title="Edit Kit">
+                      <Edit2 size={16} />
+                    </button>
+                    {isAdmin && (
+                      <button onClick={() => handleDelete(kit.id)} className="p-1.5 hover:bg-rose-50 text-rose-600 rounded-lg transition-colors" title="Hapus Kit">
+                        <Trash2 size={16} />
+                      </button>
+                    )}
+                  </div>
+                )}
+                <div className={`text-right px-3 py-1 rounded-xl ${kit.available_kits > 0 ? 'bg-emerald-50 text-emerald-600' : 'bg-rose-50 text-rose-600'}`}>
+                  <p className="text-xl font-bold leading-none">{kit.available_kits}</p>
+                  <p className="text-[10px] uppercase tracking-wider">kit siap</p>
+                </div>
+              </div>
+            </div>
+            <ul className="divide-y divide-slate-100">
+              {kit.components.map(c => (
+                <li key={c.id} className="px-6 py-2 flex justify-between items-center text-sm">
+                  <span className={c.available_kits === kit.available_kits ? 'font-medium text-rose-600' : ''}>
+                    {c.material_name}
+                  </span>
+                  <span className="text-xs text-slate-500">
+                    {c.quantity} {c.unit} / kit &middot; stok {c.stock}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            {canEdit && (
+              <div className="p-4 bg-slate-50/50 border-t border-slate-100 flex gap-2">
+                <input 
+                  type="number" 
+                  min={1}
+                  max={kit.available_kits || undefined}
+                  placeholder="1"
+                  className="w-20 bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                  value={checkoutQuantities[kit.id] ?? ''}
+                  onChange={(e) => setCheckoutQuantities({ ...checkoutQuantities, [kit.id]: e.target.value })}
+                />
+                <input 
+                  type="text" 
+                  placeholder="Kelas / sesi praktikum"
+                  className="flex-1 bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                  value={checkoutNotes[kit.id] ?? ''}
+                  onChange={(e) => setCheckoutNotes({ ...checkoutNotes, [kit.id]: e.target.value })}
+                />
+                <button 
+                  onClick={() => handleCheckout(kit)}
+                  disabled={kit.available_kits === 0}
+                  className="bg-rose-500 hover:bg-rose-600 disabled:opacity-50 text-white px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 transition-colors"
+                >
+                  <ArrowUpRight size={16} /> Keluarkan
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const PRACTICUM_SESSION_STATUS: Record<PracticumSessionStatus, { label: string, className: string }> = {
+  scheduled: { label: 'Terjadwal', className: 'bg-blue-100 text-blue-600' },
+  started: { label: 'Berjalan', className: 'bg-emerald-100 text-emerald-600' },
+  cancelled: { label: 'Dibatalkan', className: 'bg-slate-100 text-slate-400' }
+};
+
+const EMPTY_SESSION = { course: '', class_name: '', session_date: '', group_count: '1', notes: '' };
+
+function PracticumSessionPanel({ canEdit, materials, onChanged }: { canEdit: boolean, materials: MaterialOption[], onChanged: () => void }) {
+  const [sessions, setSessions] = useState<PracticumSession[]>([]);
+  const [kits, setKits] = useState<Kit[]>([]);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState(EMPTY_SESSION);
+  const [formMaterials, setFormMaterials] = useState<KitFormComponent[]>([]);
+  const [addMaterialId, setAddMaterialId] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+
+  const fetchSessions = async () => {
+    try {
+      const [sessionsRes, kitsRes] = await Promise.all([fetch('/api/practicum-sessions'), fetch('/api/kits')]);
+      if (sessionsRes.ok) setSessions(await sessionsRes.json());
+      if (kitsRes.ok) setKits(await kitsRes.json());
+    } catch (error) {
+      console.error("Error fetching practicum sessions:", error);
+    }
+  };
+
+  // Shortages depend on stock, so refresh whenever materials change
+  useEffect(() => {
+    fetchSessions();
+  }, [materials]);
+
+  const openForm = (session?: PracticumSession) => {
+    setEditingId(session?.id ?? null);
+    setForm(session ? {
+      course: session.course,
+      class_name: session.class_name || '',
+      session_date: session.session_date,
+      group_count: String(session.group_count),
+      notes: session.notes || ''
+    } : EMPTY_SESSION);
+    setFormMaterials(session ? session.materials.map(m => ({ material_id: m.material_id, quantity: String(m.quantity_per_group) })) : []);
+    setAddMaterialId('');
+    setIsFormOpen(true);
+  };
+
+  // One kit per group is the usual setup, so a kit's components prefill the per-group quantities
+  const applyKit = (kitId: string) => {
+    const kit = kits.find(k => k.id === Number(kitId));
+    if (!kit) return;
+    setFormMaterials(kit.components.map(c => ({ material_id: c.material_id, quantity: String(c.quantity) })));
+    if (!form.course) setForm({ ...form, course: kit.name });
+  };
+
+  const addMaterial = () => {
+    const materialId = Number(addMaterialId);
+    if (!materialId || formMaterials.some(m => m.material_id === materialId)) return;
+    setFormMaterials([...formMaterials, { material_id: materialId, quantity: '1' }]);
+    setAddMaterialId('');
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await fetch(editingId ? `/api/practicum-sessions/${editingId}` : '/api/practicum-sessions', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...form,
+          group_count: parseInt(form.group_count),
+          materials: formMaterials.map(m => ({ material_id: m.material_id, quantity: parseInt(m.quantity) }))
+        })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setIsFormOpen(false);
+        fetchSessions();
+        onChanged();
+        if (data.shortages.length > 0) {
+          alert(`Sesi tersimpan, tetapi stok belum mencukupi:\n\n${data.shortages.join('\n')}`);
+        }
+      } else {
+        alert(data.error || 'Gagal menyimpan sesi praktikum');
+      }
+    } catch (error) {
+      console.error("Error saving practicum session:", error);
+      alert("Terjadi kesalahan koneksi saat menyimpan sesi praktikum.");
+    }
+  };
+
+  const handleAction = async (session: PracticumSession, action: 'start' | 'cancel') => {
+    const prompt = action === 'start'
+      ? `Mulai sesi ${session.course}? Semua bahan yang dipesan akan dicatat sebagai barang keluar.`
+      : `Batalkan sesi ${session.course}? Pesanan bahannya akan dilepas.`;
+    if (!window.confirm(prompt)) return;
+    try {
+      const response = await fetch(`/api/practicum-sessions/${session.id}/${action}`, { method: 'POST' });
+      const data = await response.json();
+      if (response.ok) {
+        fetchSessions();
+        onChanged();
+      } else {
+        alert(data.details ? `${data.error}\n\n${data.details}` : data.error);
+      }
+    } catch (error) {
+      console.error("Error updating practicum session:", error);
+      alert("Terjadi kesalahan koneksi saat memperbarui sesi praktikum.");
+    }
+  };
+
+  const upcoming = sessions.filter(s => s.status === 'scheduled');
+  const history = sessions.filter(s => s.status !== 'scheduled').reverse();
+  const shortSessions = upcoming.filter(s => s.materials.some(m => m.shortage > 0)).length;
+  const groupCount = parseInt(form.group_count) || 0;
+
+  const renderSession = (session: PracticumSession) => (
+    <div key={session.id} className="px-6 py-4 space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <p className="text-sm font-medium">
+            {session.course}{session.class_name ? ` · ${session.class_name}` : ''}
+          </p>
+          <p className="text-[10px] text-slate-400">
+            {new Date(session.session_date).toLocaleDateString()} &middot; {session.group_count} kelompok
+            {session.notes ? ` · ${session.notes}` : ''}
+            {session.started_at ? ` · dimulai ${new Date(session.started_at).toLocaleString()} oleh ${session.started_by_name || '-'}` : ''}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className={`px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider ${PRACTICUM_SESSION_STATUS[session.status].className}`}>
+            {PRACTICUM_SESSION_STATUS[session.status].label}
+          </span>
+          {canEdit && session.status === 'scheduled' && (
+            <>
+              <button onClick={() => openForm(session)} className="p-1.5 hover:bg-blue-50 text-blue-600 rounded-lg transition-colors" title="Edit Sesi">
+                <Edit2 size={16} />
+              </button>
+              <button onClick={() => handleAction(session, 'cancel')} className="p-1.5 hover:bg-rose-50 text-rose-600 rounded-lg transition-colors" title="Batalkan Sesi">
+                <X size={16} />
+              </button>
+              <button 
+                onClick={() => handleAction(session, 'start')}
+                className="bg-emerald-500 hover:bg-emerald-600 text-white px-3 py-1.5 rounded-xl text-xs font-medium transition-colors"
+              >
+                Mulai Sesi
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+      <ul className="flex flex-wrap gap-2">
+        {session.materials.map(m => (
+          <li 
+            key={m.id}
+            className={`px-2 py-1 rounded-lg text-[10px] ${m.shortage > 0 ? 'bg-rose-50 text-rose-600 font-bold' : 'bg-slate-100 text-slate-600'}`}
+            title={`${m.quantity_per_group} ${m.unit} per kelompok`}
+          >
+            {m.material_name}: {m.quantity} {m.unit}
+            {m.shortage > 0 && ` (kurang ${m.shortage})`}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {shortSessions > 0 && (
+        <div className="flex items-center gap-3 p-4 bg-rose-50 border border-rose-100 rounded-2xl text-sm text-rose-700">
+          <AlertTriangle size={18} className="shrink-0" />
+          {shortSessions} sesi terjadwal kekurangan bahan. Stok dibagikan ke sesi sesuai urutan tanggal.
+        </div>
+      )}
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-bold">Sesi Praktikum Terjadwal</h3>
+          {canEdit && (
+            <button 
+              onClick={() => openForm()}
+              className="bg-slate-900 text-white px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 hover:bg-slate-800 transition-colors"
+            >
+              <Plus size={16} /> Jadwalkan Sesi
+            </button>
+          )}
+        </div>
+
+        {isFormOpen && (
+          <form onSubmit={handleSave} className="p-6 border-b border-slate-100 space-y-4 bg-slate-50/50">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="md:col-span-2">
+                <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Mata Kuliah / Modul</label>
+                <input 
+                  required
+                  type="text" 
+                  className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                  value={form.course}
+                  onChange={(e) => setForm({ ...form, course: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Kelas</label>
+                <input 
+                  type="text" 
+                  className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                  value={form.class_name}
+                  onChange={(e) => setForm({ ...form, class_name: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Tanggal</label>
+                <input 
+                  required
+                  type="date" 
+                  className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                  value={form.session_date}
+                  onChange={(e) => setForm({ ...form, session_date: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Jumlah Kelompok</label>
+                <input 
+                  required
+                  type="number" 
+                  min={1}
+                  className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                  value={form.group_count}
+                  onChange={(e) => setForm({ ...form, group_count: e.target.value })}
+                />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Catatan</label>
+                <input 
+                  type="text" 
+                  className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Isi dari Kit</label>
+                <select 
+                  className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                  value=""
+                  onChange={(e) => applyKit(e.target.value)}
+                >
+                  <option value="">Pilih kit...</option>
+                  {kits.map(k => (
+                    <option key={k.id} value={k.id}>{k.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400">Bahan per Kelompok</label>
+              {formMaterials.map((line, index) => {
+                const material = materials.find(m => m.id === line.material_id);
+                const total = (parseInt(line.quantity) || 0) * groupCount;
+                return (
+                  <div key={line.material_id} className="flex items-center gap-2">
+                    <span className="flex-1 text-sm">{material?.name}</span>
+                    <input 
+                      required
+                      type="number" 
+                      min={1}
+                      className="w-24 bg-white border border-slate-200 rounded-xl px-3 py-1.5 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                      value={line.quantity}
+                      onChange={(e) => setFormMaterials(formMaterials.map((m, i) => i === index ? { ...m, quantity: e.target.value } : m))}
+                    />
+                    <span className="text-xs text-slate-400 w-32">
+                      {material?.unit} &middot; total {total}
+                    </span>
+                    <button type="button" onClick={() => setFormMaterials(formMaterials.filter((_, i) => i !== index))} className="p-1.5 hover:bg-rose-50 text-rose-600 rounded-lg transition-colors">
+                      <X size={14} />
+                    </button>
+                  </div>
+                );
+              })}
+              <div className="flex gap-2">
+                <select 
+                  className="flex-1 bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                  value={addMaterialId}
+                  onChange={(e) => setAddMaterialId(e.target.value)}
+                >
+                  <option value="">Tambah bahan...</option>
+                  {materials.filter(m => !formMaterials.some(l => l.material_id === m.id)).map(m => (
+                    <option key={m.id} value={m.id}>{m.name} (tersedia {m.stock - Number(m.reserved ?? 0)} {m.unit})</option>
+                  ))}
+                </select>
+                <button type="button" onClick={addMaterial} disabled={!addMaterialId} className="bg-white border border-slate-200 text-slate-700 px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 hover:bg-slate-50 disabled:opacity-50 transition-colors">
+                  <Plus size={16} /> Tambah
+                </button>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <button 
+                type="submit"
+                disabled={formMaterials.length === 0}
+                className="bg-emerald-500 hover:bg-emerald-600 disabled:opacity-50 text-white font-bold px-6 py-2 rounded-xl text-sm transition-all"
+              >
+                {editingId ? 'Simpan Perubahan' : 'Jadwalkan'}
+              </button>
+              <button type="button" onClick={() => setIsFormOpen(false)} className="px-4 py-2 text-sm text-slate-500 hover:text-slate-700">
+                Batal
+              </button>
+            </div>
+          </form>
+        )}
+
+        {upcoming.length === 0 ? (
+          <p className="p-6 text-sm text-slate-400 italic">Tidak ada sesi praktikum terjadwal.</p>
+        ) : (
+          <div className="divide-y divide-slate-100">{upcoming.map(renderSession)}</div>
+        )}
+      </div>
+
+      {history.length > 0 && (
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+          <button 
+            onClick={() => setShowHistory(!showHistory)}
+            className="w-full p-6 flex justify-between items-center text-left"
+          >
+            <h3 className="font-bold">Riwayat Sesi ({history.length})</h3>
+            <ChevronRight size={16} className={`text-slate-400 transition-transform ${showHistory ? 'rotate-90' : ''}`} />
+          </button>
+          {showHistory && <div className="divide-y divide-slate-100 border-t border-slate-100">{history.map(renderSession)}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const MAINTENANCE_TYPES: Record<MaintenanceType, string> = {
+  kalibrasi: 'Kalibrasi',
+  perbaikan: 'Perbaikan',
+  perawatan: 'Perawatan'
+};
+
+const EMPTY_MAINTENANCE = {
+  material_id: '',
+  asset_id: '',
+  type: 'kalibrasi' as MaintenanceType,
+  vendor: '',
+  sent_date: '',
+  notes: '',
+  done: false,
+  completed_date: '',
+  result: ''
+};
+
+const EMPTY_COMPLETION = { completed_date: '', result: '', condition: '' as '' | AssetCondition, notes: '' };
+
+function readFileAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+function dueLabel(item: CalibrationDue): string {
+  if (item.days_left === null) return 'Belum pernah dikalibrasi';
+  if (item.days_left < 0) return `Terlambat ${-item.days_left} hari`;
+  if (item.days_left === 0) return 'Jatuh tempo hari ini';
+  return `Jatuh tempo ${item.days_left} hari lagi`;
+}
+
+function MaintenancePanel({ canEdit, materials, onChanged }: { canEdit: boolean, materials: MaterialOption[], onChanged: () => void }) {
+  const [records, setRecords] = useState<MaintenanceRecord[]>([]);
+  const [due, setDue] = useState<CalibrationDue[]>([]);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_MAINTENANCE);
+  const [certificate, setCertificate] = useState<File | null>(null);
+  const [completingId, setCompletingId] = useState<number | null>(null);
+  const [completion, setCompletion] = useState(EMPTY_COMPLETION);
+  const [completionCertificate, setCompletionCertificate] = useState<File | null>(null);
+  const [formUnits, setFormUnits] = useState<MaterialAsset[]>([]);
+
+  const fetchMaintenance = async () => {
+    try {
+      const [recordsRes, dueRes] = await Promise.all([fetch('/api/maintenance'), fetch('/api/maintenance/due')]);
+      if (recordsRes.ok) setRecords(await recordsRes.json());
+      if (dueRes.ok) setDue(await dueRes.json());
+    } catch (error) {
+      console.error("Error fetching maintenance records:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchMaintenance();
+  }, [materials]);
+
+  const formMaterial = materials.find(m => m.id === Number(form.material_id));
+  const inService = records.filter(r => r.status === 'in_service');
+
+  useEffect(() => {
+    if (!isFormOpen || !formMaterial?.track_serials) {
+      setFormUnits([]);
+      return;
+    }
+    const fetchUnits = async () => {
+      try {
+        const response = await fetch(`/api/materials/${formMaterial.id}/assets`);
+        if (response.ok) setFormUnits(await response.json());
+      } catch (error) {
+        console.error("Error fetching units:", error);
+      }
+    };
+    fetchUnits();
+  }, [isFormOpen, formMaterial?.id, formMaterial?.track_serials]);
+  const history = records.filter(r => r.status === 'completed');
+
+  const openForm = (item?: CalibrationDue) => {
+    setForm({
+      ...EMPTY_MAINTENANCE,
+      material_id: item ? String(item.material_id) : '',
+      asset_id: item?.asset_id ? String(item.asset_id) : ''
+    });
+    setCertificate(null);
+    setIsFormOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await fetch('/api/maintenance', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          material_id: Number(form.material_id),
+          asset_id: form.asset_id ? Number(form.asset_id) : null,
+          type: form.type,
+          vendor: form.vendor,
+          sent_date: form.sent_date || undefined,
+          notes: form.notes,
+          completed_date: form.done ? (form.completed_date || new Date().toISOString().slice(0, 10)) : null,
+          result: form.done ? form.result : null,
+          certificate: form.done && certificate ? await readFileAsDataUrl(certificate) : null
+        })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setIsFormOpen(false);
+        fetchMaintenance();
+        onChanged();
+      } else {
+        alert(data.details ? `${data.error}\n\n${data.details}` : data.error);
+      }
+    } catch (error) {
+      console.error("Error saving maintenance record:", error);
+      alert("Terjadi kesalahan koneksi saat mencatat pemeliharaan.");
+    }
+  };
+
+  const handleComplete = async (record: MaintenanceRecord) => {
+    try {
+      const response = await fetch(`/api/maintenance/${record.id}/complete`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...completion,
+          completed_date: completion.completed_date || undefined,
+          certificate: completionCertificate ? await readFileAsDataUrl(completionCertificate) : null
+        })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setCompletingId(null);
+        fetchMaintenance();
+        onChanged();
+      } else {
+        alert(data.details ? `${data.error}\n\n${data.details}` : data.error);
+      }
+    } catch (error) {
+      console.error("Error completing maintenance record:", error);
+      alert("Terjadi kesalahan koneksi saat menyelesaikan pemeliharaan.");
+    }
+  };
+
+  const describeItem = (r: { material_name: string, serial_number: string | null }) =>
+    r.serial_number ? `${r.material_name} · SN ${r.serial_number}` : r.material_name;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <div>
+            <h3 className="font-bold">Jatuh Tempo Kalibrasi</h3>
+            <p className="text-xs text-slate-500">Alat dengan interval kalibrasi yang jatuh tempo dalam 30 hari</p>
+          </div>
+          {canEdit && (
+            <button 
+              onClick={() => openForm()}
+              className="bg-slate-900 text-white px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 hover:bg-slate-800 transition-colors"
+            >
+              <Plus size={16} /> Catat Pemeliharaan
+            </button>
+          )}
+        </div>
+
+        {isFormOpen && (
+          <form onSubmit={handleSave} className="p-6 border-b border-slate-100 space-y-4 bg-slate-50/50">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="md:col-span-2">
+                <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Alat</label>
+                <select 
+                  required
+                  className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                  value={form.material_id}
+                  onChange={(e) => setForm({ ...form, material_id: e.target.value, asset_id: '' })}
+                >
+                  <option value="">Pilih alat</option>
+                  {materials.map(m => (
+                    <option key={m.id} value={m.id}>{m.name}</option>
+                  ))}
+                </select>
+              </div>
+              {formMaterial?.track_serials ? (
+                <div>
+                  <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Unit</label>
+                  <select 
+                    required
+                    className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                    value={form.asset_id}
+                    onChange={(e) => setForm({ ...form, asset_id: e.target.value })}
+                  >
+                    <option value="">Pilih unit</option>
+                    {formUnits.filter(a => a.status === 'available' || form.done).map(a => (
+                      <option key={a.id} value={a.id}>{a.serial_number}{a.location_name ? ` (${a.location_name})` : ''}</option>
+                    ))}
+                  </select>
+                </div>
+              ) : null}
+              <div>
+                <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Jenis</label>
+                <select 
+                  className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                  value={form.type}
+                  onChange={(e) => setForm({ ...form, type: e.target.value as MaintenanceType })}
+                >
+                  {(Object.entries(MAINTENANCE_TYPES) as [MaintenanceType, string][]).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Vendor / Pelaksana</label>
+                <input 
+                  type="text" 
+                  className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                  value={form.vendor}
+                  onChange={(e) => setForm({ ...form, vendor: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Tanggal Mulai</label>
+                <input 
+                  type="date" 
+                  className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                  value={form.sent_date}
+                  onChange={(e) => setForm({ ...form, sent_date: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Catatan</label>
+                <input 
+                  type="text" 
+                  className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                />
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              <input 
+                type="checkbox" 
+                className="rounded border-slate-300 text-emerald-500 focus:ring-emerald-500"
+                checked={form.done}
+                onChange={(e) => setForm({ ...form, done: e.target.checked })}
+              />
+              Sudah selesai (tidak ada unit yang keluar dari lab)
+            </label>
+            {form.done && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <input 
+                  type="date" 
+                  title="Tanggal selesai"
+                  className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                  value={form.completed_date}
+                  onChange={(e) => setForm({ ...form, completed_date: e.target.value })}
+                />
+                <input 
+                  type="text" 
+                  placeholder="Hasil, mis. Lulus"
+                  className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                  value={form.result}
+                  onChange={(e) => setForm({ ...form, result: e.target.value })}
+                />
+                <input 
+                  type="file" 
+                  accept="application/pdf,image/png,image/jpeg"
+                  className="text-xs text-slate-500"
+                  onChange={(e) => setCertificate(e.target.files?.[0] || null)}
+                />
+              </div>
+            )}
+            {!form.done && formMaterial?.track_serials ? (
+              <p className="text-xs text-slate-500">Unit akan dicatat keluar dan ditandai sedang diservis sampai pemeliharaan diselesaikan.</p>
+            ) : null}
+            <div className="flex justify-end gap-2">
+              <button type="button" onClick={() => setIsFormOpen(false)} className="px-4 py-2 text-sm text-slate-500 hover:bg-slate-100 rounded-xl">Batal</button>
+              <button type="submit" className="bg-emerald-500 hover:bg-emerald-600 text-white px-4 py-2 rounded-xl text-sm font-bold transition-colors">Simpan</button>
+            </div>
+          </form>
+        )}
+
+        <div className="divide-y divide-slate-100">
+          {due.length === 0 && <p className="p-6 text-sm text-slate-400 italic">Tidak ada alat yang jatuh tempo kalibrasi.</p>}
+          {due.map(item => {
+            const overdue = item.days_left === null || item.days_left < 0;
+            return (
+              <div key={`${item.material_id}-${item.asset_id ?? 'all'}`} className="px-6 py-3 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">{describeItem(item)}</p>
+                  <p className="text-[10px] text-slate-400">
+                    Interval {item.calibration_interval_days} hari
+                    {item.last_calibrated_at ? ` · terakhir ${new Date(item.last_calibrated_at).toLocaleDateString()}` : ''}
+                    {item.next_due ? ` · ${new Date(item.next_due).toLocaleDateString()}` : ''}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span className={`px-2 py-1 rounded-md text-[10px] font-bold ${item.in_service ? 'bg-orange-100 text-orange-700' : overdue ? 'bg-rose-100 text-rose-700' : 'bg-amber-100 text-amber-700'}`}>
+                    {item.in_service ? 'Sedang diservis' : dueLabel(item)}
+                  </span>
+                  {canEdit && !item.in_service && (
+                    <button onClick={() => openForm(item)} className="p-1.5 hover:bg-blue-50 text-blue-600 rounded-lg transition-colors" title="Catat Kalibrasi">
+                      <Wrench size={16} />
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-6 border-b border-slate-100">
+          <h3 className="font-bold">Sedang Diservis ({inService.length})</h3>
+        </div>
+        <div className="divide-y divide-slate-100">
+          {inService.length === 0 && <p className="p-6 text-sm text-slate-400 italic">Tidak ada alat yang sedang diservis.</p>}
+          {inService.map(r => (
+            <div key={r.id} className="px-6 py-4 space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">{describeItem(r)}</p>
+                  <p className="text-[10px] text-slate-400">
+                    {MAINTENANCE_TYPES[r.type]}{r.vendor ? ` di ${r.vendor}` : ''} &middot; sejak {new Date(r.sent_date).toLocaleDateString()}
+                    {r.notes ? ` · ${r.notes}` : ''}
+                  </p>
+                </div>
+                {canEdit && completingId !== r.id && (
+                  <button 
+                    onClick={() => { setCompletingId(r.id); setCompletion(EMPTY_COMPLETION); setCompletionCertificate(null); }}
+                    className="bg-emerald-500 hover:bg-emerald-600 text-white px-3 py-1.5 rounded-xl text-xs font-medium transition-colors shrink-0"
+                  >
+                    Selesai
+                  </button>
+                )}
+              </div>
+              {completingId === r.id && (
+                <div className="grid grid-cols-1 md:grid-cols-5 gap-2 items-center">
+                  <input 
+                    type="date" 
+                    title="Tanggal selesai"
+                    className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                    value={completion.completed_date}
+                    onChange={(e) => setCompletion({ ...completion, completed_date: e.target.value })}
+                  />
+                  <input 
+                    type="text" 
+                    placeholder="Hasil, mis. Lulus"
+                    className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                    value={completion.result}
+                    onChange={(e) => setCompletion({ ...completion, result: e.target.value })}
+                  />
+                  {r.asset_id ? (
+                    <select 
+                      className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                      value={completion.condition}
+                      onChange={(e) => setCompletion({ ...completion, condition: e.target.value as '' | AssetCondition })}
+                    >
+                      <option value="">Kondisi tetap</option>
+                      {(Object.entries(ASSET_CONDITIONS) as [AssetCondition, { label: string }][]).map(([value, { label }]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  ) : <span />}
+                  <input 
+                    type="file" 
+                    accept="application/pdf,image/png,image/jpeg"
+                    className="text-xs text-slate-500"
+                    onChange={(e) => setCompletionCertificate(e.target.files?.[0] || null)}
+                  />
+                  <div className="flex gap-2 justify-end">
+                    <button onClick={() => setCompletingId(null)} className="px-3 py-2 text-xs text-slate-500 hover:bg-slate-100 rounded-xl">Batal</button>
+                    <button onClick={() => handleComplete(r)} className="bg-emerald-500 hover:bg-emerald-600 text-white px-3 py-2 rounded-xl text-xs font-bold transition-colors">
+                      Simpan
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-6 border-b border-slate-100">
+          <h3 className="font-bold">Riwayat Pemeliharaan</h3>
+        </div>
+        <div className="divide-y divide-slate-100">
+          {history.length === 0 && <p className="p-6 text-sm text-slate-400 italic">Belum ada riwayat pemeliharaan.</p>}
+          {history.map(r => (
+            <div key={r.id} className="px-6 py-3 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-sm font-medium">{describeItem(r)}</p>
+                <p className="text-[10px] text-slate-400">
+                  {MAINTENANCE_TYPES[r.type]}{r.vendor ? ` di ${r.vendor}` : ''} &middot; {new Date(r.completed_date || r.sent_date).toLocaleDateString()}
+                  {r.result ? ` · ${r.result}` : ''}
+                  {r.completed_by_name ? ` · ${r.completed_by_name}` : ''}
+                </p>
+              </div>
+              {r.certificate && (
+                <a 
+                  href={r.certificate}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-xs font-medium text-emerald-600 hover:text-emerald-700 flex items-center gap-1 shrink-0"
+                >
+                  <FileText size={14} /> Sertifikat
+                </a>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: 'Email',
+  webhook: 'Webhook'
+};
+
+function NotificationSettingsModal({ categories, onClose }: { categories: Category[], onClose: () => void }) {
+  const [subscriptions, setSubscriptions] = useState<NotificationSubscription[]>([]);
+  const [alerts, setAlerts] = useState<LowStockAlert[]>([]);
+  const [form, setForm] = useState<{ channel: NotificationChannel, target: string, category_id: string }>({ channel: 'email', target: '', category_id: '' });
+
+  const fetchSubscriptions = async () => {
+    try {
+      const [subsRes, alertsRes] = await Promise.all([
+        fetch('/api/notifications/subscriptions'),
+        fetch('/api/notifications/alerts')
+      ]);
+      if (subsRes.ok) setSubscriptions(await subsRes.json());
+      if (alertsRes.ok) setAlerts(await alertsRes.json());
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchSubscriptions();
+  }, []);
+
+  const saveSubscription = async (url: string, method: string, body: object) => {
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      if (response.ok) {
+        fetchSubscriptions();
+        return true;
+      }
+      const err = await response.json();
+      alert(err.error || 'Gagal menyimpan langganan notifikasi');
+    } catch (error) {
+      console.error("Error saving subscription:", error);
+      alert("Terjadi kesalahan koneksi saat menyimpan langganan notifikasi.");
+    }
+    return false;
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const ok = await saveSubscription('/api/notifications/subscriptions', 'POST', {
+      ...form,
+      category_id: form.category_id ? Number(form.category_id) : null
+    });
+    if (ok) setForm({ ...form, target: '' });
+  };
+
+  const toggleActive = (sub: NotificationSubscription) => saveSubscription(`/api/notifications/subscriptions/${sub.id}`, 'PUT', {
+    channel: sub.channel,
+    target: sub.target,
+    category_id: sub.category_id,
+    active: !sub.active
+  });
+
+  const handleDelete = async (id: number) => {
+    if (!window.confirm('Hapus langganan notifikasi ini?')) return;
+    try {
+      const response = await fetch(`/api/notifications/subscriptions/${id}`, { method: 'DELETE' });
+      if (response.ok) fetchSubscriptions();
+    } catch (error) {
+      console.error("Error deleting subscription:", error);
+    }
+  };
+
+  const handleTest = async (id: number) => {
+    try {
+      const response = await fetch(`/api/notifications/subscriptions/${id}/test`, { method: 'POST' });
+      const data = await response.json();
+      if (response.ok) {
+        alert('Notifikasi uji berhasil dikirim.');
+      } else {
+        alert(data.details ? `${data.error}\n\n${data.details}` : data.error);
+      }
+    } catch (error) {
+      console.error("Error testing subscription:", error);
+      alert("Terjadi kesalahan koneksi saat mengirim notifikasi uji.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div 
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm"
+      />
+      <motion.div 
+        initial={{ opacity: 0, scale: 0.9, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.9, y: 20 }}
+        className="relative bg-white rounded-3xl shadow-2xl w-full max-w-2xl overflow-hidden"
+      >
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <div>
+            <h3 className="font-bold text-lg">Notifikasi Stok Menipis</h3>
+            <p className="text-xs text-slate-400">Dikirim sekali saat stok bahan turun mencapai batas minimal.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+        <div className="p-6 space-y-6 max-h-[75vh] overflow-y-auto">
+          <form onSubmit={handleAdd} className="grid grid-cols-1 md:grid-cols-[auto_1fr_auto_auto] gap-2">
+            <select 
+              className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+              value={form.channel}
+              onChange={(e) => setForm({ ...form, channel: e.target.value as NotificationChannel })}
+            >
+              {(Object.keys(NOTIFICATION_CHANNEL_LABELS) as NotificationChannel[]).map(channel => (
+                <option key={channel} value={channel}>{NOTIFICATION_CHANNEL_LABELS[channel]}</option>
+              ))}
+            </select>
+            <input 
+              required
+              type={form.channel === 'email' ? 'email' : 'url'}
+              placeholder={form.channel === 'email' ? 'nama@polnes.ac.id' : 'https://contoh.com/webhook'}
+              className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+              value={form.target}
+              onChange={(e) => setForm({ ...form, target: e.target.value })}
+            />
+            <select 
+              className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+              value={form.category_id}
+              onChange={(e) => setForm({ ...form, category_id: e.target.value })}
+            >
+              <option value="">Semua Kategori</option>
+              {categories.map(cat => (
+                <option key={cat.id} value={cat.id}>{cat.name}</option>
+              ))}
+            </select>
+            <button type="submit" className="bg-slate-900 text-white px-4 py-2 rounded-xl text-sm font-medium flex items-center justify-center gap-2 hover:bg-slate-800 transition-colors">
+              <Plus size={16} /> Tambah
+            </button>
+          </form>
+
+          <div className="divide-y divide-slate-100 border border-slate-100 rounded-2xl overflow-hidden">
+            {subscriptions.length === 0 && <p className="p-4 text-sm text-slate-400 italic">Belum ada langganan notifikasi.</p>}
+            {subscriptions.map(sub => (
+              <div key={sub.id} className={`px-4 py-3 flex items-center justify-between gap-4 ${sub.active ? '' : 'opacity-50'}`}>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{sub.target}</p>
+                  <p className="text-[10px] text-slate-400 uppercase tracking-wider">
+                    {NOTIFICATION_CHANNEL_LABELS[sub.channel]} &middot; {sub.category_name || 'Semua Kategori'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <button onClick={() => handleTest(sub.id)} className="px-2 py-1 text-xs text-slate-600 hover:bg-slate-100 rounded-lg">Uji</button>
+                  <button onClick={() => toggleActive(sub)} className="px-2 py-1 text-xs text-slate-600 hover:bg-slate-100 rounded-lg">
+                    {sub.active ? 'Nonaktifkan' : 'Aktifkan'}
+                  </button>
+                  <button onClick={() => handleDelete(sub.id)} className="p-1.5 hover:bg-rose-50 text-rose-600 rounded-lg transition-colors" title="Hapus">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <h4 className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-2">Peringatan Terakhir</h4>
+            {alerts.length === 0 ? (
+              <p className="text-sm text-slate-400 italic">Belum ada peringatan stok.</p>
+            ) : (
+              <div className="space-y-2">
+                {alerts.map(a => (
+                  <div key={a.id} className="flex items-center justify-between text-sm">
+                    <div>
+                      <span className="font-medium">{a.material_name}</span>
+                      <span className="text-slate-400"> &middot; {a.stock}/{a.min_stock} {a.unit}</span>
+                    </div>
+                    <div className="text-[10px] text-slate-400 text-right">
+                      {new Date(a.created_at).toLocaleString()}
+                      <span className="ml-2">{a.sent_count || 0} terkirim{a.failed_count ? `, ${a.failed_count} gagal` : ''}</span>
+                      {a.resolved_at && <span className="ml-2 text-emerald-600">pulih</span>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
+
+function TransferModal({ material, locations, onTransferred, onClose }: {
+  material: Material,
+  locations: Location[],
+  onTransferred: () => void,
+  onClose: () => void
+}) {
+  const sources = (material.stocks || []).filter(s => s.quantity > 0);
+  const [form, setForm] = useState({
+    from_location_id: sources[0]?.location_id === null ? '' : String(sources[0]?.location_id ?? ''),
+    to_location_id: '',
+    quantity: '',
+    notes: ''
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const source = sources.find(s => String(s.location_id ?? '') === form.from_location_id);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const response = await fetch('/api/transfers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          material_id: material.id,
+          from_location_id: form.from_location_id ? Number(form.from_location_id) : null,
+          to_location_id: form.to_location_id ? Number(form.to_location_id) : null,
+          quantity: parseInt(form.quantity),
+          notes: form.notes
+        })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        onTransferred();
+        onClose();
+      } else {
+        alert(data.details ? `${data.error}\n\n${data.details}` : data.error);
+      }
+    } catch (error) {
+      console.error("Error transferring stock:", error);
+      alert("Terjadi kesalahan koneksi saat memindahkan stok.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div 
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm"
+      />
+      <motion.div 
+        initial={{ opacity: 0, scale: 0.9, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.9, y: 20 }}
+        className="relative bg-white rounded-3xl shadow-2xl w-full max-w-md overflow-hidden"
+      >
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <div>
+            <h3 className="font-bold text-lg">Pindah Lokasi</h3>
+            <p className="text-xs text-slate-500">{material.name} &middot; total {material.stock} {material.unit}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+        {sources.length === 0 ? (
+          <p className="p-6 text-sm text-slate-400 italic">Bahan ini tidak memiliki stok untuk dipindahkan.</p>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Dari</label>
+                <select 
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                  value={form.from_location_id}
+                  onChange={(e) => setForm({ ...form, from_location_id: e.target.value })}
+                >
+                  {sources.map(s => (
+                    <option key={s.location_id ?? 'none'} value={s.location_id ?? ''}>
+                      {s.location_name || 'Tanpa lokasi'} ({s.quantity})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Ke</label>
+                <select 
+                  required
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                  value={form.to_location_id}
+                  onChange={(e) => setForm({ ...form, to_location_id: e.target.value })}
+                >
+                  <option value="">Pilih Lokasi</option>
+                  {locations.filter(loc => String(loc.id) !== form.from_location_id).map(loc => (
+                    <option key={loc.id} value={loc.id}>{loc.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Jumlah ({material.unit})</label>
+              <input 
+                required
+                type="number" 
+                inputMode="numeric"
+                min={1}
+                max={source?.quantity}
+                className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-base focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                value={form.quantity}
+                onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+              />
+            </div>
+            <input 
+              type="text" 
+              placeholder="Keterangan (opsional)"
+              className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            />
+            <button 
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full bg-violet-500 hover:bg-violet-600 disabled:opacity-50 text-white font-bold py-3 rounded-xl transition-all"
+            >
+              {isSubmitting ? 'Menyimpan...' : 'Pindahkan Stok'}
+            </button>
+          </form>
+        )}
+      </motion.div>
+    </div>
+  );
+}
+
+type LotSelection = { lot_id: string, lot_number: string, expiry_date: string };
+
+const EMPTY_LOT_SELECTION: LotSelection = { lot_id: '', lot_number: '', expiry_date: '' };
+
+// Receipts name a (possibly new) lot; removals either pick a lot or leave it to FEFO on the server
+function lotMovement(type: 'IN' | 'OUT', lot: LotSelection): StockMovement {
+  if (type === 'IN') return { lot_number: lot.lot_number.trim(), expiry_date: lot.expiry_date || undefined };
+  return lot.lot_id ? { lot_id: Number(lot.lot_id) } : {};
+}
+
+function LotFields({ material, type, value, onChange }: {
+  material: Material,
+  type: 'IN' | 'OUT',
+  value: LotSelection,
+  onChange: (value: LotSelection) => void
+}) {
+  const lots = material.lots || [];
+  const suggestion = fefoSuggestion(lots);
+
+  if (type === 'IN') {
+    return (
+      <div className="grid grid-cols-2 gap-2">
+        <input 
+          required
+          type="text" 
+          list={`lots-${material.id}`}
+          placeholder="No. lot"
+          className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+          value={value.lot_number}
+          onChange={(e) => onChange({ ...value, lot_number: e.target.value })}
+        />
+        <datalist id={`lots-${material.id}`}>
+          {lots.map(l => <option key={l.id} value={l.lot_number} />)}
+        </datalist>
+        <input 
+          type="date" 
+          title="Tanggal kedaluwarsa"
+          className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+          value={value.expiry_date}
+          onChange={(e) => onChange({ ...value, expiry_date: e.target.value })}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <select 
+        className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+        value={value.lot_id}
+        onChange={(e) => onChange({ ...value, lot_id: e.target.value })}
+      >
+        <option value="">Lot otomatis (kedaluwarsa terdekat)</option>
+        {lots.map(l => (
+          <option key={l.id} value={l.id}>
+            {expiryLabel(l)} ({l.quantity}){l.days_left !== null && l.days_left < 0 ? ' ⚠' : ''}
+          </option>
+        ))}
+      </select>
+      {!value.lot_id && suggestion && (
+        <p className="text-[10px] text-slate-400">Disarankan: {expiryLabel(suggestion)}</p>
+      )}
+    </div>
+  );
+}
+
+const ASSET_CONDITIONS: Record<AssetCondition, { label: string, className: string }> = {
+  baik: { label: 'Baik', className: 'bg-emerald-100 text-emerald-700' },
+  rusak_ringan: { label: 'Rusak Ringan', className: 'bg-amber-100 text-amber-700' },
+  rusak_berat: { label: 'Rusak Berat', className: 'bg-rose-100 text-rose-700' }
+};
+
+const ASSET_STATUS: Record<AssetStatus, { label: string, className: string }> = {
+  available: { label: 'Di Stok', className: 'bg-slate-100 text-slate-600' },
+  loaned: { label: 'Dipinjam', className: 'bg-blue-100 text-blue-700' },
+  out: { label: 'Keluar', className: 'bg-slate-200 text-slate-500' },
+  service: { label: 'Diservis', className: 'bg-orange-100 text-orange-700' }
+};
+
+// Units that leave or come back are picked by id; brand-new units are typed in by serial number, one per line
+type UnitSelection = { asset_ids: number[], serial_numbers: string };
+
+const EMPTY_UNIT_SELECTION: UnitSelection = { asset_ids: [], serial_numbers: '' };
+
+function parseSerialNumbers(text: string): string[] {
+  return [...new Set(text.split('\n').map(line => line.trim()).filter(Boolean))];
+}
+
+function unitCount(units: UnitSelection): number {
+  return units.asset_ids.length + parseSerialNumbers(units.serial_numbers).length;
+}
+
+function unitMovement(units: UnitSelection): StockMovement {
+  return { asset_ids: units.asset_ids, serial_numbers: parseSerialNumbers(units.serial_numbers) };
+}
+
+function UnitPicker({ units, selected, onChange }: {
+  units: MaterialAsset[],
+  selected: number[],
+  onChange: (selected: number[]) => void
+}) {
+  if (units.length === 0) {
+    return <p className="text-xs text-slate-400 italic">Tidak ada unit yang dapat dipilih.</p>;
+  }
+  return (
+    <div className="max-h-48 overflow-y-auto border border-slate-100 rounded-xl divide-y divide-slate-100">
+      {units.map(a => (
+        <label key={a.id} className="flex items-center gap-3 px-3 py-2 text-sm hover:bg-slate-50 cursor-pointer">
+          <input 
+            type="checkbox" 
+            className="rounded border-slate-300 text-emerald-500 focus:ring-emerald-500"
+            checked={selected.includes(a.id)}
+            onChange={(e) => onChange(e.target.checked ? [...selected, a.id] : selected.filter(id => id !== a.id))}
+          />
+          <span className="flex-1 min-w-0">
+            <span className="font-mono">{a.serial_number}</span>
+            {a.inventory_number && <span className="text-[10px] text-slate-400"> &middot; {a.inventory_number}</span>}
+            <span className="block text-[10px] text-slate-400">{a.location_name || 'Tanpa lokasi'}</span>
+          </span>
+          <span className={`px-2 py-0.5 rounded-md text-[10px] font-medium ${ASSET_CONDITIONS[a.condition].className}`}>
+            {ASSET_CONDITIONS[a.condition].label}
+          </span>
+        </label>
+      ))}
+    </div>
+  );
+}
+
+function UnitFields({ material, type, value, onChange }: {
+  material: Material,
+  type: 'IN' | 'OUT',
+  value: UnitSelection,
+  onChange: (value: UnitSelection) => void
+}) {
+  const assets = material.assets || [];
+  // Loaned units come back through the loan return, not a manual receipt
+  const candidates = assets.filter(a => type === 'OUT' ? a.status === 'available' : a.status === 'out');
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400">
+        {type === 'OUT' ? 'Unit yang dikeluarkan' : 'Unit yang kembali'} ({unitCount(value)} {material.unit})
+      </label>
+      <UnitPicker units={candidates} selected={value.asset_ids} onChange={(asset_ids) => onChange({ ...value, asset_ids })} />
+      {type === 'IN' && (
+        <textarea 
+          rows={2}
+          placeholder="Nomor seri unit baru, satu per baris"
+          className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm font-mono focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+          value={value.serial_numbers}
+          onChange={(e) => onChange({ ...value, serial_numbers: e.target.value })}
+        />
+      )}
+    </div>
+  );
+}
+
+type AssetForm = { serial_number: string, inventory_number: string, purchase_date: string, condition: AssetCondition, location_id: string, notes: string };
+
+const EMPTY_ASSET_FORM: AssetForm = { serial_number: '', inventory_number: '', purchase_date: '', condition: 'baik', location_id: '', notes: '' };
+
+function AssetModal({ material, locations, canEdit, onChanged, onClose }: {
+  material: Material,
+  locations: Location[],
+  canEdit: boolean,
+  onChanged: () => void,
+  onClose: () => void
+}) {
+  const [form, setForm] = useState<AssetForm>({ ...EMPTY_ASSET_FORM, location_id: material.location_id ? String(material.location_id) : '' });
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const assets = material.assets || [];
+
+  const openEdit = (asset: MaterialAsset) => {
+    setEditingId(asset.id);
+    setForm({
+      serial_number: asset.serial_number,
+      inventory_number: asset.inventory_number || '',
+      purchase_date: asset.purchase_date || '',
+      condition: asset.condition,
+      location_id: asset.location_id ? String(asset.location_id) : '',
+      notes: asset.notes || ''
+    });
+    setIsFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setEditingId(null);
+    setForm({ ...EMPTY_ASSET_FORM, location_id: material.location_id ? String(material.location_id) : '' });
+    setIsFormOpen(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await fetch(editingId ? `/api/assets/${editingId}` : `/api/materials/${material.id}/assets`, {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...form, location_id: form.location_id ? Number(form.location_id) : null })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        closeForm();
+        onChanged();
+      } else {
+        alert(data.details ? `${data.error}\n\n${data.details}` : data.error);
+      }
+    } catch (error) {
+      console.error("Error saving asset:", error);
+      alert("Terjadi kesalahan koneksi saat menyimpan unit.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div 
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm"
+      />
+      <motion.div 
+        initial={{ opacity: 0, scale: 0.9, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.9, y: 20 }}
+        className="relative bg-white rounded-3xl shadow-2xl w-full max-w-2xl overflow-hidden"
+      >
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <div>
+            <h3 className="font-bold text-lg">Unit {material.name}</h3>
+            <p className="text-xs text-slate-500">
+              {assets.length} unit terdaftar &middot; {material.stock} di stok &middot; {assets.filter(a => a.status === 'loaned').length} dipinjam
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {canEdit && !isFormOpen && (
+              <button 
+                onClick={() => setIsFormOpen(true)}
+                className="bg-emerald-500 text-white px-3 py-1.5 rounded-xl text-xs font-medium flex items-center gap-1 hover:bg-emerald-600 transition-colors"
+              >
+                <Plus size={14} /> Daftarkan Unit
+              </button>
+            )}
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+        <div className="max-h-[70vh] overflow-y-auto">
+          {isFormOpen && (
+            <form onSubmit={handleSubmit} className="p-6 space-y-3 bg-slate-50 border-b border-slate-100">
+              <div className="grid grid-cols-2 gap-3">
+                <input 
+                  required
+                  type="text" 
+                  placeholder="Nomor seri"
+                  className="w-full bg-white border border-slate-200 rounded-xl px-4 py-2 text-sm font-mono focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                  value={form.serial_number}
+                  onChange={(e) => setForm({ ...form, serial_number: e.target.value })}
+                />
+                <input 
+                  type="text" 
+                  placeholder="No. inventaris / BMN"
+                  className="w-full bg-white border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                  value={form.inventory_number}
+                  onChange={(e) => setForm({ ...form, inventory_number: e.target.value })}
+                />
+                <input 
+                  type="date" 
+                  title="Tanggal pembelian"
+                  className="w-full bg-white border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                  value={form.purchase_date}
+                  onChange={(e) => setForm({ ...form, purchase_date: e.target.value })}
+                />
+                <select 
+                  className="w-full bg-white border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                  value={form.condition}
+                  onChange={(e) => setForm({ ...form, condition: e.target.value as AssetCondition })}
+                >
+                  {(Object.entries(ASSET_CONDITIONS) as [AssetCondition, { label: string }][]).map(([value, { label }]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                {!editingId && (
+                  <select 
+                    className="w-full bg-white border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                    value={form.location_id}
+                    onChange={(e) => setForm({ ...form, location_id: e.target.value })}
+                  >
+                    <option value="">Tanpa lokasi</option>
+                    {locations.map(loc => (
+                      <option key={loc.id} value={loc.id}>{loc.name}</option>
+                    ))}
+                  </select>
+                )}
+                <input 
+                  type="text" 
+                  placeholder="Catatan (opsional)"
+                  className={`w-full bg-white border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all ${editingId ? 'col-span-2' : ''}`}
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <button type="button" onClick={closeForm} className="px-4 py-2 text-sm text-slate-500 hover:bg-slate-100 rounded-xl">Batal</button>
+                <button type="submit" className="bg-emerald-500 hover:bg-emerald-600 text-white px-4 py-2 rounded-xl text-sm font-bold transition-colors">
+                  {editingId ? 'Simpan Perubahan' : 'Daftarkan & Catat Masuk'}
+                </button>
+              </div>
+            </form>
+          )}
+          <div className="divide-y divide-slate-100">
+            {assets.length === 0 && <p className="p-6 text-sm text-slate-400 italic">Belum ada unit yang terdaftar.</p>}
+            {assets.map(a => (
+              <div key={a.id} className="px-6 py-3 flex items-center justify-between gap-4 group">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium font-mono">{a.serial_number}</p>
+                  <p className="text-[10px] text-slate-400">
+                    {a.inventory_number || 'Tanpa no. inventaris'}
+                    {a.purchase_date ? ` · dibeli ${new Date(a.purchase_date).toLocaleDateString()}` : ''}
+                    {a.last_calibrated_at ? ` · kalibrasi ${new Date(a.last_calibrated_at).toLocaleDateString()}` : ''}
+                    {a.notes ? ` · ${a.notes}` : ''}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span className="text-xs text-slate-500 text-right">
+                    {a.status === 'loaned'
+                      ? `${a.holder_name} (${a.holder_nim})${a.loan_due_date ? ` s/d ${new Date(a.loan_due_date).toLocaleDateString()}` : ''}`
+                      : a.status === 'available' ? (a.location_name || 'Tanpa lokasi') : '-'}
+                  </span>
+                  <span className={`px-2 py-0.5 rounded-md text-[10px] font-medium ${ASSET_STATUS[a.status].className}`}>{ASSET_STATUS[a.status].label}</span>
+                  <span className={`px-2 py-0.5 rounded-md text-[10px] font-medium ${ASSET_CONDITIONS[a.condition].className}`}>{ASSET_CONDITIONS[a.condition].label}</span>
+                  {canEdit && (
+                    <button 
+                      onClick={() => openEdit(a)}
+                      className="p-1.5 hover:bg-blue-50 text-blue-600 rounded-lg transition-colors opacity-0 group-hover:opacity-100"
+                      title="Edit Unit"
+                    >
+                      <Edit2 size={14} />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
+
+function StockMovementModal({ material, type, isAdmin, onSubmit, onClose }: {
+  material: Material,
+  type: MovementType,
+  isAdmin: boolean,
+  onSubmit: (materialId: number, type: MovementType, quantity: number, notes: string, movement?: StockMovement) => Promise<boolean>,
+  onClose: () => void
+}) {
+  const [kind, setKind] = useState<MovementType>(type);
+  const [adjustDirection, setAdjustDirection] = useState<'IN' | 'OUT'>('OUT');
+  const [quantity, setQuantity] = useState('1');
+  const [notes, setNotes] = useState('');
+  const [reasonCode, setReasonCode] = useState('');
+  const [photo, setPhoto] = useState('');
+  const [lot, setLot] = useState<LotSelection>(EMPTY_LOT_SELECTION);
+  const [units, setUnits] = useState<UnitSelection>(EMPTY_UNIT_SELECTION);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const serialized = Boolean(material.track_serials);
+  const isException = type !== 'IN' && type !== 'OUT';
+  // Which way stock moves decides the lot and unit fields
+  const flow = kind === 'ADJUSTMENT' ? adjustDirection : OUTGOING_TYPES.includes(kind) ? 'OUT' : 'IN';
+  const reasons = (Object.entries(REASON_CODES[kind] || {}) as [string, string][]).filter(([code]) => code !== 'stock_opname');
+  const takesPhoto = kind === 'DAMAGED' || kind === 'LOST' || kind === 'DISPOSED';
+
+  const changeKind = (next: MovementType) => {
+    setKind(next);
+    setReasonCode('');
+    setLot(EMPTY_LOT_SELECTION);
+    setUnits(EMPTY_UNIT_SELECTION);
+  };
+
+  const handlePhoto = async (file: File | undefined) => {
+    setPhoto(file ? await readFileAsDataUrl(file) : '');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (serialized && unitCount(units) === 0) {
+      alert(flow === 'IN' ? 'Pilih unit yang kembali atau isi nomor seri unit baru.' : 'Pilih unit yang dikeluarkan.');
+      return;
+    }
+    const count = serialized ? unitCount(units) : parseInt(quantity);
+    setIsSubmitting(true);
+    const ok = await onSubmit(
+      material.id,
+      kind,
+      kind === 'ADJUSTMENT' && adjustDirection === 'OUT' ? -count : count,
+      notes || (kind === 'IN' ? 'Restock manual' : kind === 'OUT' ? 'Pengambilan manual' : TRANSACTION_TYPES[kind].label),
+      {
+        ...(serialized ? unitMovement(units) : lotMovement(flow, lot)),
+        reason_code: reasonCode || undefined,
+        photo: takesPhoto && photo ? photo : undefined
+      }
+    );
+    setIsSubmitting(false);
+    if (ok) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div 
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm"
+      />
+      <motion.div 
+        initial={{ opacity: 0, scale: 0.9, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.9, y: 20 }}
+        className="relative bg-white rounded-3xl shadow-2xl w-full max-w-md overflow-hidden"
+      >
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <div>
+            <h3 className="font-bold text-lg">{isException ? 'Catat Rusak / Hilang' : TRANSACTION_TYPES[kind].label}</h3>
+            <p className="text-xs text-slate-500">{material.name} &middot; stok {material.stock} {material.unit}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {isException && (
+            <div className="grid grid-cols-2 gap-2">
+              <select 
+                className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                value={kind}
+                onChange={(e) => changeKind(e.target.value as MovementType)}
+              >
+                {EXCEPTION_TYPES.filter(t => t !== 'ADJUSTMENT' || isAdmin).map(t => (
+                  <option key={t} value={t}>{TRANSACTION_TYPES[t].label}</option>
+                ))}
+              </select>
+              {kind === 'ADJUSTMENT' ? (
+                <select 
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                  value={adjustDirection}
+                  onChange={(e) => {
+                    setAdjustDirection(e.target.value as 'IN' | 'OUT');
+                    setLot(EMPTY_LOT_SELECTION);
+                    setUnits(EMPTY_UNIT_SELECTION);
+                  }}
+                >
+                  <option value="OUT">Kurangi stok</option>
+                  <option value="IN">Tambah stok</option>
+                </select>
+              ) : <div />}
+              <select 
+                required
+                className="col-span-2 w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                value={reasonCode}
+                onChange={(e) => setReasonCode(e.target.value)}
+              >
+                <option value="">Pilih alasan</option>
+                {reasons.map(([code, label]) => (
+                  <option key={code} value={code}>{label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          {serialized ? (
+            <UnitFields material={material} type={flow} value={units} onChange={setUnits} />
+          ) : (
+            <>
+              <div>
+                <label className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Jumlah ({material.unit})</label>
+                <input 
+                  required
+                  type="number" 
+                  inputMode="numeric"
+                  min={1}
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-base focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                />
+              </div>
+              <LotFields material={material} type={flow} value={lot} onChange={setLot} />
+            </>
+          )}
+          {takesPhoto && (
+            <label className="flex items-center gap-2 text-xs text-slate-500 cursor-pointer">
+              <Camera size={16} className="text-slate-400" />
+              <span className="flex-1">{photo ? 'Foto bukti terlampir' : 'Lampirkan foto bukti (opsional)'}</span>
+              <input 
+                type="file" 
+                accept="image/*"
+                capture="environment"
+                className="hidden"
+                onChange={(e) => handlePhoto(e.target.files?.[0])}
+              />
+              {photo && <img src={photo} alt="Foto bukti" className="w-10 h-10 rounded-lg object-cover" />}
+            </label>
+          )}
+          <input 
+            type="text" 
+            placeholder="Keterangan (opsional)"
+            className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+          <button 
+            type="submit"
+            disabled={isSubmitting}
+            className={`w-full disabled:opacity-50 text-white font-bold py-3 rounded-xl transition-all ${flow === 'IN' ? 'bg-emerald-500 hover:bg-emerald-600' : 'bg-rose-500 hover:bg-rose-600'}`}
+          >
+            {isSubmitting ? 'Menyimpan...' : `Simpan ${TRANSACTION_TYPES[kind].label}`}
+          </button>
+        </form>
+      </motion.div>
+    </div>
+  );
+}
+
+function ExpiringLotsPanel({ refreshKey }: { refreshKey: unknown }) {
+  const [lots, setLots] = useState<ExpiringLot[]>([]);
+
+  useEffect(() => {
+    fetch('/api/lots/expiring')
+      .then(res => res.ok ? res.json() : [])
+      .then(setLots)
+      .catch(error => console.error("Error fetching expiring lots:", error));
+  }, [refreshKey]);
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+      <h3 className="text-sm font-bold uppercase tracking-wider text-slate-400 mb-6 flex items-center gap-2">
+        <Hourglass size={14} /> Lot Hampir Kedaluwarsa
+      </h3>
+      <div className="space-y-3">
+        {lots.length === 0 && <p className="text-sm text-slate-400 italic">Tidak ada lot yang kedaluwarsa dalam waktu dekat.</p>}
+        {lots.slice(0, 6).map(lot => {
+          const expired = lot.days_left !== null && lot.days_left < 0;
+          return (
+            <div key={lot.id} className={`flex items-center justify-between p-3 rounded-xl border ${expired ? 'bg-rose-50 border-rose-100' : 'bg-amber-50 border-amber-100'}`}>
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{lot.material_name}</p>
+                <p className={`text-[10px] ${expired ? 'text-rose-600' : 'text-amber-600'}`}>{expiryLabel(lot)}</p>
+              </div>
+              <p className="text-sm font-bold text-slate-600 shrink-0">{lot.quantity} <span className="text-[10px] font-normal text-slate-400">{lot.unit}</span></p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+const CHART_COLORS = ['bg-emerald-500', 'bg-blue-500', 'bg-amber-500', 'bg-violet-500', 'bg-rose-500', 'bg-teal-500', 'bg-slate-400'];
+
+type ForecastSortField = 'material' | 'stock' | 'avg_daily' | 'days_left';
+
+function periodLabel(period: string, interval: 'week' | 'month'): string {
+  const date = new Date(`${period}T00:00:00`);
+  return interval === 'week'
+    ? date.toLocaleDateString('id-ID', { day: 'numeric', month: 'short' })
+    : date.toLocaleDateString('id-ID', { month: 'short', year: '2-digit' });
+}
+
+function compareForecast(a: ConsumptionForecast, b: ConsumptionForecast, field: ForecastSortField): number {
+  if (field === 'material') return a.material_name.localeCompare(b.material_name);
+  if (field === 'days_left') {
+    // Materials nobody uses never run out, so they sort after every real estimate
+    if (a.days_left === null || b.days_left === null) return (a.days_left === null ? 1 : 0) - (b.days_left === null ? 1 : 0);
+    return a.days_left - b.days_left;
+  }
+  return a[field] - b[field];
+}
+
+function ConsumptionAnalyticsPanel({ materials, categories, refreshKey }: {
+  materials: MaterialOption[],
+  categories: Category[],
+  refreshKey: unknown
+}) {
+  const [data, setData] = useState<ConsumptionAnalytics | null>(null);
+  const [filters, setFilters] = useState({ interval: 'month' as 'week' | 'month', category_id: '', material_id: '', semester: '' });
+  const [sort, setSort] = useState<{ field: ForecastSortField, order: 'asc' | 'desc' }>({ field: 'days_left', order: 'asc' });
+
+  useEffect(() => {
+    const params = new URLSearchParams(Object.fromEntries((Object.entries(filters) as [string, string][]).filter(([, value]) => value)));
+    fetch(`/api/analytics/consumption?${params}`)
+      .then(res => res.ok ? res.json() : null)
+      .then(setData)
+      .catch(error => console.error("Error fetching consumption analytics:", error));
+  }, [filters, refreshKey]);
+
+  const toggleSort = (field: ForecastSortField) => {
+    setSort(prev => ({ field, order: prev.field === field && prev.order === 'asc' ? 'desc' : 'asc' }));
+  };
+
+  const chartCategories = data ? [...new Set<string>(data.series.map(p => p.category_name || 'Tanpa kategori'))] : [];
+  const colorOf = (name: string | null) => CHART_COLORS[chartCategories.indexOf(name || 'Tanpa kategori') % CHART_COLORS.length];
+  const totals = data ? data.periods.map(period => data.series.filter(p => p.period === period).reduce((sum, p) => sum + Math.max(p.quantity, 0), 0)) : [];
+  const maxTotal = Math.max(...totals, 1);
+  const maxTop = Math.max(...(data?.top.map(t => t.quantity) || []), 1);
+  const forecast = data ? [...data.forecast].sort((a, b) => compareForecast(a, b, sort.field) * (sort.order === 'asc' ? 1 : -1)) : [];
+  const scopedMaterials = filters.category_id ? materials.filter(m => m.category_id === Number(filters.category_id)) : materials;
+  const selectClass = "bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs focus:ring-2 focus:ring-emerald-500 outline-none transition-all";
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200 space-y-8">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <h3 className="text-sm font-bold uppercase tracking-wider text-slate-400 flex items-center gap-2">
+          <TrendingDown size={14} /> Analitik Pemakaian
+        </h3>
+        <div className="flex flex-wrap gap-2">
+          <select 
+            className={selectClass}
+            value={filters.category_id}
+            onChange={(e) => setFilters({ ...filters, category_id: e.target.value, material_id: '' })}
+          >
+            <option value="">Semua Kategori</option>
+            {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+          <select 
+            className={selectClass}
+            value={filters.material_id}
+            onChange={(e) => setFilters({ ...filters, material_id: e.target.value })}
+          >
+            <option value="">Semua Bahan</option>
+            {scopedMaterials.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+          </select>
+          <div className="flex bg-slate-50 border border-slate-200 rounded-xl overflow-hidden text-xs font-medium">
+            {(['week', 'month'] as const).map(interval => (
+              <button 
+                key={interval}
+                onClick={() => setFilters({ ...filters, interval })}
+                className={`px-3 py-2 ${filters.interval === interval ? 'bg-emerald-500 text-white' : 'text-slate-500 hover:bg-slate-100'}`}
+              >
+                {interval === 'week' ? 'Mingguan' : 'Bulanan'}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {!data ? (
+        <p className="text-sm text-slate-400 italic">Memuat analitik...</p>
+      ) : (
+        <>
+          <div>
+            <p className="text-xs text-slate-500 mb-3">
+              Pemakaian bersih (keluar dikurangi pengembalian) per {data.interval === 'week' ? 'minggu' : 'bulan'}
+              {filters.material_id ? '' : ' · jumlah gabungan semua satuan'}
+            </p>
+            <div className="flex items-end gap-1 h-48 border-b border-slate-100">
+              {data.periods.map((period, i) => (
+                <div key={period} className="flex-1 h-full flex flex-col justify-end" title={`${periodLabel(period, data.interval)}: ${totals[i]}`}>
+                  {data.series.filter(p => p.period === period && p.quantity > 0).map(p => (
+                    <div 
+                      key={p.category_id ?? 'none'}
+                      className={`${colorOf(p.category_name)} first:rounded-t-md`}
+                      style={{ height: `${(p.quantity / maxTotal) * 100}%` }}
+                      title={`${p.category_name || 'Tanpa kategori'}: ${p.quantity}`}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-1 mt-1">
+              {data.periods.map(period => (
+                <p key={period} className="flex-1 text-center text-[9px] text-slate-400 truncate">{periodLabel(period, data.interval)}</p>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-3 mt-3">
+              {chartCategories.map(name => (
+                <span key={name} className="flex items-center gap-1 text-[10px] text-slate-500">
+                  <span className={`w-2 h-2 rounded-full ${colorOf(name)}`} /> {name}
+                </span>
+              ))}
+              {chartCategories.length === 0 && <span className="text-xs text-slate-400 italic">Belum ada pemakaian pada periode ini.</span>}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
+            <div>
+              <div className="flex justify-between items-center mb-3">
+                <p className="text-xs font-bold text-slate-600">Paling Banyak Dipakai</p>
+                <select 
+                  className={selectClass}
+                  value={data.semester.key}
+                  onChange={(e) => setFilters({ ...filters, semester: e.target.value })}
+                >
+                  {data.semesters.map(s => <option key={s.key} value={s.key}>{s.label}</option>)}
+                </select>
+              </div>
+              <div className="space-y-3">
+                {data.top.length === 0 && <p className="text-sm text-slate-400 italic">Belum ada pemakaian pada semester ini.</p>}
+                {data.top.map(t => (
+                  <div key={t.material_id}>
+                    <div className="flex justify-between text-xs mb-1">
+                      <span className="font-medium truncate">{t.material_name}</span>
+                      <span className="text-slate-500 shrink-0">{t.quantity} {t.unit}</span>
+                    </div>
+                    <div className="h-1.5 bg-slate-100 rounded-full">
+                      <div className="h-full bg-emerald-500 rounded-full" style={{ width: `${(t.quantity / maxTop) * 100}%` }} />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="xl:col-span-2">
+              <p className="text-xs font-bold text-slate-600 mb-3">Perkiraan Stok Habis <span className="font-normal text-slate-400">· rata-rata {data.window_days} hari terakhir</span></p>
+              <div className="max-h-80 overflow-y-auto border border-slate-100 rounded-xl">
+                <table className="w-full text-left border-collapse">
+                  <thead className="sticky top-0 bg-slate-50">
+                    <tr className="border-b border-slate-100">
+                      <SortableHeader label="Bahan" active={sort.field === 'material'} order={sort.order} onClick={() => toggleSort('material')} />
+                      <SortableHeader label="Stok" active={sort.field === 'stock'} order={sort.order} onClick={() => toggleSort('stock')} />
+                      <SortableHeader label="Pemakaian/Hari" active={sort.field === 'avg_daily'} order={sort.order} onClick={() => toggleSort('avg_daily')} />
+                      <SortableHeader label="Habis Dalam" active={sort.field === 'days_left'} order={sort.order} onClick={() => toggleSort('days_left')} />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {forecast.map(f => (
+                      <tr key={f.material_id} className="hover:bg-slate-50 transition-colors">
+                        <td className="px-6 py-3">
+                          <p className="text-sm font-medium">{f.material_name}</p>
+                          <p className="text-[10px] text-slate-400">{f.category_name}</p>
+                        </td>
+                        <td className={`px-6 py-3 text-sm ${f.stock <= f.min_stock ? 'text-amber-600 font-bold' : 'text-slate-600'}`}>{f.stock} <span className="text-[10px] font-normal text-slate-400">{f.unit}</span></td>
+                        <td className="px-6 py-3 text-sm text-slate-600">{f.avg_daily}</td>
+                        <td className="px-6 py-3">
+                          {f.days_left === null ? (
+                            <span className="text-xs text-slate-400">Tidak ada pemakaian</span>
+                          ) : (
+                            <span 
+                              title={f.stockout_date ? new Date(`${f.stockout_date}T00:00:00`).toLocaleDateString() : undefined}
+                              className={`px-2 py-1 rounded-md text-[10px] font-bold ${f.days_left <= 7 ? 'bg-rose-100 text-rose-600' : f.days_left <= 30 ? 'bg-amber-100 text-amber-600' : 'bg-slate-100 text-slate-600'}`}
+                            >
+                              {f.days_left} hari
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+type ScanResult = { kind: 'material', material: Material } | { kind: 'location', location: Location } | { kind: 'unknown', code: string };
+
+const RACK_PAGE_SIZE = 25;
+
+// Label payloads are generated by the server as INV:M:<id> (material) and INV:L:<id> (location)
+async function resolveLabel(code: string, locations: Location[]): Promise<ScanResult> {
+  const match = /^INV:([ML]):(\d+)$/.exec(code.trim());
+  if (match && match[1] === 'M') {
+    // Fetched on its own, since a scan shows stock per location, lots and units
+    const response = await fetch(`/api/materials/${match[2]}`);
+    if (response.ok) return { kind: 'material', material: await response.json() };
+  } else if (match) {
+    const location = locations.find(l => l.id === Number(match[2]));
+    if (location) return { kind: 'location', location };
+  }
+  return { kind: 'unknown', code };
+}
+
+function ScanModal({ locations, canEdit, onTransaction, onClose }: {
+  locations: Location[],
+  canEdit: boolean,
+  onTransaction: (materialId: number, type: 'IN' | 'OUT', quantity: number, notes: string, movement?: StockMovement) => Promise<boolean>,
+  onClose: () => void
+}) {
+  const videoRef = React.useRef<HTMLVideoElement>(null);
+  const [result, setResult] = useState<ScanResult | null>(null);
+  const [cameraError, setCameraError] = useState('');
+  const [manualCode, setManualCode] = useState('');
+  const [quickTx, setQuickTx] = useState({ type: 'OUT' as 'IN' | 'OUT', quantity: 1, notes: '', location_id: '' });
+  const [quickLot, setQuickLot] = useState<LotSelection>(EMPTY_LOT_SELECTION);
+  const [quickUnits, setQuickUnits] = useState<UnitSelection>(EMPTY_UNIT_SELECTION);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [rack, setRack] = useState<MaterialPage | null>(null);
+  // Read through a ref so background data refreshes don't restart the camera
+  const locationsRef = React.useRef(locations);
+  locationsRef.current = locations;
+
+  const lookup = async (code: string) => {
+    try {
+      setResult(await resolveLabel(code, locationsRef.current));
+    } catch (error) {
+      console.error("Error resolving label:", error);
+      setResult({ kind: 'unknown', code });
+    }
+  };
+
+  // A rack can hold many materials, so its contents are paged like the inventory list
+  const fetchRack = async (locationId: number, page: number) => {
+    try {
+      const params = new URLSearchParams({ location_id: String(locationId), page: String(page), limit: String(RACK_PAGE_SIZE) });
+      const response = await fetch(`/api/materials?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        console.error("Error fetching rack contents:", data);
+        return;
+      }
+      setRack(prev => page > 1 && prev ? { ...data, items: [...prev.items, ...data.items] } : data);
+    } catch (error) {
+      console.error("Error fetching rack contents:", error);
+    }
+  };
+
+  useEffect(() => {
+    setRack(null);
+    if (result?.kind === 'location') fetchRack(result.location.id, 1);
+  }, [result]);
+
+  // Decode frames only while waiting for a code; the camera is released once something is found
+  useEffect(() => {
+    if (result) return;
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let cancelled = false;
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+
+    const tick = () => {
+      const video = videoRef.current;
+      if (cancelled || !video || !context) return;
+      if (video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const image = context.getImageData(0, 0, canvas.width, canvas.height);
+        const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+        if (code?.data) {
+          lookup(code.data);
+          return;
+        }
+      }
+      frame = requestAnimationFrame(tick);
+    };
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then(s => {
+        stream = s;
+        if (cancelled || !videoRef.current) return;
+        videoRef.current.srcObject = s;
+        videoRef.current.play().catch(() => {});
+        frame = requestAnimationFrame(tick);
+      })
+      .catch(err => {
+        console.error("Error accessing camera:", err);
+        setCameraError("Tidak dapat mengakses kamera. Gunakan input kode di bawah atau pemindai barcode USB.");
+      });
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [result]);
+
+  const reset = () => {
+    setResult(null);
+    setManualCode('');
+    setQuickTx({ type: 'OUT', quantity: 1, notes: '', location_id: '' });
+    setQuickLot(EMPTY_LOT_SELECTION);
+    setQuickUnits(EMPTY_UNIT_SELECTION);
+  };
+
+  const handleQuickTransaction = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (result?.kind !== 'material') return;
+    setIsSubmitting(true);
+    const serialized = Boolean(result.material.track_serials);
+    const ok = await onTransaction(
+      result.material.id,
+      quickTx.type,
+      serialized ? unitCount(quickUnits) : quickTx.quantity,
+      quickTx.notes || 'Transaksi via pindai QR',
+      {
+        location_id: quickTx.location_id ? Number(quickTx.location_id) : null,
+        ...(result.material.track_lots ? lotMovement(quickTx.type, quickLot) : {}),
+        ...(serialized ? unitMovement(quickUnits) : {})
+      }
+    );
+    setIsSubmitting(false);
+    if (ok) reset();
+  };
+
+  // The location filter also matches materials whose home is this rack but which are currently stored elsewhere
+  const rackMaterials = result?.kind === 'location'
+    ? (rack?.items || []).map(m => ({ ...m, rackQuantity: m.stocks?.find(s => s.location_id === result.location.id)?.quantity ?? 0 }))
+    : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div 
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm"
+      />
+      <motion.div 
+        initial={{ opacity: 0, scale: 0.9, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.9, y: 20 }}
+        className="relative bg-white rounded-3xl shadow-2xl w-full max-w-md overflow-hidden"
+      >
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-bold text-lg">Pindai Label QR</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+        <div className="p-6 space-y-4 max-h-[75vh] overflow-y-auto">
+          {!result && (
+            <>
+              {cameraError ? (
+                <p className="text-sm text-rose-600 bg-rose-50 rounded-xl p-3">{cameraError}</p>
+              ) : (
+                <div className="relative aspect-square bg-slate-900 rounded-2xl overflow-hidden">
+                  <video ref={videoRef} playsInline muted className="w-full h-full object-cover" />
+                  <div className="absolute inset-10 border-2 border-emerald-400/80 rounded-2xl pointer-events-none" />
+                </div>
+              )}
+              <form 
+                onSubmit={(e) => { e.preventDefault(); if (manualCode) lookup(manualCode); }}
+                className="flex gap-2"
+              >
+                <input 
+                  type="text" 
+                  placeholder="atau ketik kode, mis. INV:M:12"
+                  className="flex-1 bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                  value={manualCode}
+                  onChange={(e) => setManualCode(e.target.value)}
+                />
+                <button type="submit" className="bg-slate-900 text-white px-4 py-2 rounded-xl text-sm font-medium hover:bg-slate-800 transition-colors">
+                  Cari
+                </button>
+              </form>
+            </>
+          )}
+
+          {result?.kind === 'unknown' && (
+            <p className="text-sm text-amber-700 bg-amber-50 rounded-xl p-3">
+              Kode <span className="font-mono">{result.code}</span> tidak dikenali sebagai label bahan atau lokasi.
+            </p>
+          )}
+
+          {result?.kind === 'material' && (
+            <div className="space-y-4">
+              <div className="flex items-center gap-3">
+                <div className="w-12 h-12 rounded-xl bg-slate-100 flex items-center justify-center overflow-hidden shrink-0">
+                  {result.material.image ? <img src={result.material.thumbnail || result.material.image} alt="" className="w-full h-full object-cover" /> : <Package size={20} className="text-slate-400" />}
+                </div>
+                <div>
+                  <p className="font-bold">{result.material.name}</p>
+                  <p className="text-xs text-slate-500">
+                    Stok {result.material.stock} {result.material.unit}
+                    {result.material.stocks && result.material.stocks.length > 0
+                      ? ` · ${result.material.stocks.map(s => `${s.location_name || 'Tanpa lokasi'} ${s.quantity}`).join(', ')}`
+                      : ` · ${result.material.location_name || 'Tanpa lokasi'}`}
+                  </p>
+                </div>
+              </div>
+              {canEdit ? (
+                <form onSubmit={handleQuickTransaction} className="space-y-3">
+                  <div className="grid grid-cols-2 gap-2">
+                    {(['IN', 'OUT'] as const).map(type => (
+                      <button 
+                        key={type}
+                        type="button"
+                        onClick={() => { setQuickTx({ ...quickTx, type }); setQuickUnits(EMPTY_UNIT_SELECTION); }}
+                        className={`py-2 rounded-xl text-sm font-bold border transition-colors ${quickTx.type === type ? (type === 'IN' ? 'bg-emerald-500 border-emerald-500 text-white' : 'bg-rose-500 border-rose-500 text-white') : 'bg-white border-slate-200 text-slate-600'}`}
+                      >
+                        {TRANSACTION_TYPES[type].label}
+                      </button>
+                    ))}
+                  </div>
+                  {result.material.track_serials ? (
+                    <UnitFields material={result.material} type={quickTx.type} value={quickUnits} onChange={setQuickUnits} />
+                  ) : (
+                    <input 
+                      required
+                      type="number" 
+                      inputMode="numeric"
+                      min={1}
+                      className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-base focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                      value={quickTx.quantity}
+                      onChange={(e) => setQuickTx({ ...quickTx, quantity: parseInt(e.target.value) })}
+                    />
+                  )}
+                  <select 
+                    className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                    value={quickTx.location_id}
+                    onChange={(e) => setQuickTx({ ...quickTx, location_id: e.target.value })}
+                  >
+                    <option value="">Lokasi otomatis</option>
+                    {locations.map(loc => (
+                      <option key={loc.id} value={loc.id}>{loc.name}</option>
+                    ))}
+                  </select>
+                  {result.material.track_lots ? (
+                    <LotFields material={result.material} type={quickTx.type} value={quickLot} onChange={setQuickLot} />
+                  ) : null}
+                  <input 
+                    type="text" 
+                    placeholder="Keterangan (opsional)"
+                    className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
+                    value={quickTx.notes}
+                    onChange={(e) => setQuickTx({ ...quickTx, notes: e.target.value })}
+                  />
+                  <button 
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="w-full bg-emerald-500 hover:bg-emerald-600 disabled:opacity-50 text-white font-bold py-3 rounded-xl transition-all"
+                  >
+                    {isSubmitting ? 'Menyimpan...' : `Simpan ${TRANSACTION_TYPES[quickTx.type].label}`}
+                  </button>
+                </form>
+              ) : (
+                <p className="text-xs text-slate-400 italic">Anda hanya memiliki akses baca.</p>
+              )}
+            </div>
+          )}
+
+          {result?.kind === 'location' && (
+            <div className="space-y-3">
+              <div>
+                <p className="font-bold">{result.location.name}</p>
+                <p className="text-xs text-slate-500">{rack ? `${rack.total} jenis bahan di lokasi ini` : 'Memuat...'}</p>
+              </div>
+              <div className="divide-y divide-slate-100 border border-slate-100 rounded-2xl overflow-hidden">
+                {rack && rack.total === 0 && <p className="p-4 text-sm text-slate-400 italic">Lokasi ini kosong.</p>}
+                {rackMaterials.map(m => (
+                  <button 
+                    key={m.id}
+                    onClick={() => {
+                      setResult({ kind: 'material', material: m });
+                      setQuickTx({ ...quickTx, location_id: String(result.location.id) });
+                    }}
+                    className="w-full px-4 py-3 flex items-center justify-between hover:bg-slate-50 transition-colors text-left"
+                  >
+                    <span className="text-sm font-medium">{m.name}</span>
+                    <span className={`text-sm font-bold ${m.stock <= m.min_stock ? 'text-rose-600' : 'text-slate-600'}`}>
+                      {m.rackQuantity} <span className="text-[10px] font-normal text-slate-400">/ {m.stock} {m.unit}</span>
+                    </span>
+                  </button>
+                ))}
+              </div>
+              {rack && rack.items.length < rack.total && (
+                <button 
+                  onClick={() => fetchRack(result.location.id, rack.page + 1)}
+                  className="w-full text-sm font-medium text-emerald-600 hover:text-emerald-700 py-2"
+                >
+                  Tampilkan lebih banyak ({rack.total - rack.items.length} lagi)
+                </button>
+              )}
+            </div>
+          )}
+
+          {result && (
+            <button 
+              onClick={reset}
+              className="w-full bg-white border border-slate-200 text-slate-700 py-2 rounded-xl text-sm font-medium flex items-center justify-center gap-2 hover:bg-slate-50 transition-colors"
+            >
+              <ScanLine size={16} /> Pindai Lagi
+            </button>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
+
+function ExportButtons({ url }: { url: string }) {
+  const separator = url.includes('?') ? '&' : '?';
+  return (
+    <div className="flex items-center bg-white border border-slate-200 rounded-xl overflow-hidden text-xs font-medium text-slate-600">
+      <span className="pl-3 pr-1 text-slate-400"><FileDown size={16} /></span>
+      {(['csv', 'xlsx', 'pdf'] as const).map(format => (
+        <a 
+          key={format}
+          href={`${url}${separator}format=${format}`}
+          download
+          className="px-2 py-2 uppercase hover:bg-slate-50 hover:text-slate-900 transition-colors"
+        >
+          {format}
+        </a>
+      ))}
+    </div>
+  );
+}
+
+function SortableHeader({ label, active, order, onClick }: { label: string, active: boolean, order: 'asc' | 'desc', onClick: () => void }) {
+  return (
+    <th className="px-6 py-4 text-[10px] font-bold uppercase tracking-wider text-slate-400">
+      <button onClick={onClick} className={`flex items-center gap-1 uppercase tracking-wider ${active ? 'text-slate-900' : 'hover:text-slate-600'}`}>
+        {label}
+        {active && (order === 'asc' ? <ArrowUp size={12} /> : <ArrowDown size={12} />)}
+      </button>
+    </th>
   );
 }
 
-function StatCard({ title, value, icon, alert }: { title: string, value: string | number, icon: React.ReactNode, alert?: boolean }) {
+function StatCard({ title, value, subtitle, icon, alert }: { title: string, value: string | number, subtitle?: string | null, icon: React.ReactNode, alert?: boolean }) {
   return (
     <div className={`bg-white p-6 rounded-2xl shadow-sm border ${alert ? 'border-amber-200 bg-amber-50/30' : 'border-slate-200'}`}>
       <div className="flex justify-between items-start mb-4">
@@ -1141,6 +6763,7 @@ function StatCard({ title, value, icon, alert }: { title: string, value: string
       </div>
       <p className="text-3xl font-bold tracking-tight">{value}</p>
       <p className="text-xs text-slate-400 font-medium uppercase tracking-wider mt-1">{title}</p>
+      {subtitle && <p className="text-[10px] text-slate-400 mt-2">{subtitle}</p>}
     </div>
   );
 }
@@ -8,6 +8,49 @@ export interface Location {
   name: string;
 }
 
+export interface MaterialStock {
+  location_id: number | null;
+  location_name: string | null;
+  quantity: number;
+}
+
+export interface MaterialLot {
+  id: number;
+  material_id: number;
+  lot_number: string;
+  received_date: string | null;
+  expiry_date: string | null;
+  quantity: number;
+  days_left: number | null;
+}
+
+export interface ExpiringLot extends MaterialLot {
+  material_name: string;
+  unit: string;
+}
+
+export type AssetCondition = 'baik' | 'rusak_ringan' | 'rusak_berat';
+
+export type AssetStatus = 'available' | 'loaned' | 'out' | 'service';
+
+export interface MaterialAsset {
+  id: number;
+  material_id: number;
+  serial_number: string;
+  inventory_number: string | null;
+  purchase_date: string | null;
+  condition: AssetCondition;
+  status: AssetStatus;
+  location_id: number | null;
+  location_name: string | null;
+  notes: string | null;
+  holder_name: string | null;
+  holder_nim: string | null;
+  loan_due_date: string | null;
+  last_calibrated_at: string | null;
+  created_at: string;
+}
+
 export interface Material {
   id: number;
   name: string;
@@ -16,22 +59,471 @@ export interface Material {
   unit: string;
   stock: number;
   min_stock: number;
-  location: string;
+  target_stock: number | null;
+  location_id: number | null;
+  location_name?: string | null;
   image?: string;
+  thumbnail?: string | null;
+  reserved?: number;
+  stocks?: MaterialStock[];
+  track_lots?: number;
+  lots?: MaterialLot[];
+  track_serials?: number;
+  assets?: MaterialAsset[];
+  calibration_interval_days?: number | null;
+  notes?: string | null;
+}
+
+// The slim row behind material pickers, without per-location stock, lots or units
+export type MaterialOption = Pick<Material, 'id' | 'name' | 'unit' | 'category_id' | 'category_name' | 'stock' | 'min_stock' | 'target_stock' | 'location_id' | 'image' | 'thumbnail' | 'reserved' | 'track_lots' | 'track_serials'>;
+
+export type StockStatus = 'ok' | 'low' | 'out';
+
+export type MaterialSortField = 'name' | 'category' | 'location' | 'unit' | 'stock' | 'min_stock' | 'reserved';
+
+export interface MaterialPage {
+  items: Material[];
+  total: number;
+  page: number;
+  limit: number;
 }
 
+export type TransactionType = 'IN' | 'OUT' | 'ADJUSTMENT' | 'TRANSFER' | 'DAMAGED' | 'LOST' | 'DISPOSED' | 'RETURN';
+
 export interface Transaction {
   id: number;
   material_id: number;
   material_name?: string;
-  type: 'IN' | 'OUT';
+  material_unit?: string;
+  category_name?: string;
+  location_id?: number | null;
+  location_name?: string | null;
+  type: TransactionType;
   quantity: number;
   date: string;
   notes: string;
+  reason_code?: string | null;
+  photo?: string | null;
+  photo_thumbnail?: string | null;
+  user_id?: number | null;
+  user_name?: string | null;
+  purchase_order_id?: number | null;
+  supplier_name?: string | null;
+  kit_name?: string | null;
+  practicum_course?: string | null;
+  practicum_class?: string | null;
+  transfer_id?: number | null;
+  transfer_counterpart?: string | null;
+  lot_numbers?: string | null;
+  serial_numbers?: string | null;
+  maintenance_record_id?: number | null;
+}
+
+export interface TransactionPage {
+  items: Transaction[];
+  nextCursor: string | null;
+}
+
+export interface TransactionFilters {
+  material_id: string;
+  category_id: string;
+  location_id: string;
+  type: '' | TransactionType;
+  from: string;
+  to: string;
+  q: string;
+}
+
+export type StatsPeriod = 'today' | 'week' | 'month' | 'custom';
+
+export interface ActiveMaterial {
+  material_id: number;
+  material_name: string;
+  unit: string;
+  transaction_count: number;
+  in_quantity: number;
+  out_quantity: number;
 }
 
 export interface DashboardStats {
+  period: { key: StatsPeriod, from: string, to: string };
   totalMaterials: number;
   lowStock: number;
+  outOfStock: number;
+  overReserved: number;
+  transactions: {
+    count: number;
+    inCount: number;
+    outCount: number;
+    inQuantity: number;
+    outQuantity: number;
+  };
+  mostActive: ActiveMaterial[];
   recentTransactions: Transaction[];
 }
+
+export type Role = 'admin' | 'laboran' | 'student';
+
+export interface User {
+  id: number;
+  username: string;
+  name: string;
+  role: Role;
+  active?: number;
+  created_at?: string;
+}
+
+export interface Borrower {
+  id: number;
+  name: string;
+  nim: string;
+  class_name?: string;
+}
+
+export interface Loan {
+  id: number;
+  borrower_id: number;
+  borrower_name?: string;
+  borrower_nim?: string;
+  borrower_class?: string;
+  material_id: number;
+  material_name?: string;
+  material_unit?: string;
+  quantity: number;
+  loan_date: string;
+  due_date: string;
+  return_date?: string | null;
+  notes?: string;
+  is_overdue?: number;
+  serial_numbers?: string | null;
+}
+
+export interface AuditEntry {
+  id: number;
+  entity: 'material' | 'category' | 'location' | 'transaction' | 'supplier' | 'kit' | 'asset' | 'maintenance';
+  entity_id: number;
+  action: 'create' | 'update' | 'delete';
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  user_id: number | null;
+  user_name?: string | null;
+  created_at: string;
+}
+
+export type ImportField = 'name' | 'category' | 'unit' | 'stock' | 'min_stock' | 'location';
+
+export interface ImportRow {
+  row: number;
+  name: string;
+  category: string;
+  unit: string;
+  stock: number;
+  min_stock: number;
+  location: string;
+  errors: string[];
+}
+
+export interface ImportPreview {
+  headers: string[];
+  mapping: Partial<Record<ImportField, number>>;
+  rows: ImportRow[];
+  valid_count: number;
+  error_count: number;
+  new_categories: string[];
+  new_locations: string[];
+  imported?: number;
+}
+
+export interface StockTakeScope {
+  location_ids: number[];
+  category_ids: number[];
+}
+
+export interface StockTake {
+  id: number;
+  title: string;
+  scope: StockTakeScope | null;
+  status: 'open' | 'approved' | 'cancelled';
+  created_by: number | null;
+  created_by_name?: string | null;
+  created_at: string;
+  approved_by: number | null;
+  approved_by_name?: string | null;
+  approved_at: string | null;
+  item_count?: number;
+  counted_count?: number;
+}
+
+export interface StockTakeItem {
+  id: number;
+  stock_take_id: number;
+  material_id: number;
+  material_name: string;
+  unit: string;
+  location_id: number | null;
+  location_name: string | null;
+  category_name: string | null;
+  counted_quantity: number | null;
+  system_stock: number | null;
+  book_stock: number;
+  variance: number | null;
+  counted_by_name?: string | null;
+  counted_at: string | null;
+}
+
+export interface StockTakeDetail extends StockTake {
+  items: StockTakeItem[];
+}
+
+export type NotificationChannel = 'email' | 'webhook';
+
+export interface NotificationSubscription {
+  id: number;
+  user_id: number;
+  user_name?: string;
+  channel: NotificationChannel;
+  target: string;
+  category_id: number | null;
+  category_name?: string | null;
+  active: number;
+  created_at: string;
+}
+
+export interface LowStockAlert {
+  id: number;
+  material_id: number;
+  material_name: string;
+  unit: string;
+  stock: number;
+  min_stock: number;
+  created_at: string;
+  resolved_at: string | null;
+  sent_count: number | null;
+  failed_count: number | null;
+}
+
+export type PurchaseRequestStatus = 'draft' | 'submitted' | 'ordered' | 'received';
+
+export interface PurchaseRequest {
+  id: number;
+  title: string;
+  notes: string | null;
+  status: PurchaseRequestStatus;
+  created_by: number | null;
+  created_by_name?: string | null;
+  created_at: string;
+  approved_by: number | null;
+  approved_by_name?: string | null;
+  submitted_at: string | null;
+  ordered_at: string | null;
+  received_at: string | null;
+  item_count?: number;
+}
+
+export interface PurchaseRequestItem {
+  id: number;
+  purchase_request_id: number;
+  material_id: number;
+  material_name: string;
+  unit: string;
+  category_name: string | null;
+  stock: number;
+  min_stock: number;
+  target_stock: number | null;
+  stock_at_request: number;
+  quantity: number;
+  notes: string | null;
+}
+
+export interface PurchaseRequestDetail extends PurchaseRequest {
+  items: PurchaseRequestItem[];
+}
+
+export interface Supplier {
+  id: number;
+  name: string;
+  contact_person: string | null;
+  phone: string | null;
+  email: string | null;
+  address: string | null;
+}
+
+export type PurchaseOrderStatus = 'open' | 'partial' | 'received' | 'cancelled';
+
+export interface PurchaseOrder {
+  id: number;
+  supplier_id: number;
+  supplier_name: string;
+  reference: string | null;
+  purchase_request_id: number | null;
+  status: PurchaseOrderStatus;
+  order_date: string;
+  expected_date: string | null;
+  notes: string | null;
+  created_by_name?: string | null;
+  created_at: string;
+  line_count?: number;
+  quantity_ordered?: number;
+  quantity_received?: number;
+  total_price?: number | null;
+}
+
+export interface PurchaseOrderLine {
+  id: number;
+  purchase_order_id: number;
+  material_id: number;
+  material_name: string;
+  unit: string;
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_price: number | null;
+}
+
+export interface PurchaseOrderReceipt {
+  id: number;
+  purchase_order_line_id: number;
+  quantity: number;
+  date: string;
+  notes: string | null;
+  user_name: string | null;
+}
+
+export interface PurchaseOrderDetail extends PurchaseOrder {
+  contact_person: string | null;
+  phone: string | null;
+  email: string | null;
+  lines: PurchaseOrderLine[];
+  receipts: PurchaseOrderReceipt[];
+}
+
+export interface KitComponent {
+  id: number;
+  kit_id: number;
+  material_id: number;
+  material_name: string;
+  unit: string;
+  quantity: number;
+  stock: number;
+  available_kits: number;
+}
+
+export interface Kit {
+  id: number;
+  name: string;
+  description: string | null;
+  created_at: string;
+  component_count: number;
+  available_kits: number;
+  components: KitComponent[];
+}
+
+export type PracticumSessionStatus = 'scheduled' | 'started' | 'cancelled';
+
+export interface PracticumSessionMaterial {
+  id: number;
+  session_id: number;
+  material_id: number;
+  material_name: string;
+  unit: string;
+  stock: number;
+  quantity_per_group: number;
+  quantity: number;
+  shortage: number;
+}
+
+export interface PracticumSession {
+  id: number;
+  course: string;
+  class_name: string | null;
+  session_date: string;
+  group_count: number;
+  status: PracticumSessionStatus;
+  notes: string | null;
+  created_by_name?: string | null;
+  created_at: string;
+  started_by_name?: string | null;
+  started_at: string | null;
+  materials: PracticumSessionMaterial[];
+}
+
+export type MaintenanceType = 'kalibrasi' | 'perbaikan' | 'perawatan';
+
+export interface MaintenanceRecord {
+  id: number;
+  material_id: number;
+  material_name: string;
+  asset_id: number | null;
+  serial_number: string | null;
+  type: MaintenanceType;
+  status: 'in_service' | 'completed';
+  sent_date: string;
+  completed_date: string | null;
+  vendor: string | null;
+  result: string | null;
+  certificate: string | null;
+  notes: string | null;
+  created_by_name?: string | null;
+  completed_by_name?: string | null;
+  created_at: string;
+}
+
+export interface CalibrationDue {
+  material_id: number;
+  material_name: string;
+  calibration_interval_days: number;
+  asset_id: number | null;
+  serial_number: string | null;
+  inventory_number: string | null;
+  asset_status: AssetStatus | null;
+  purchase_date: string | null;
+  last_calibrated_at: string | null;
+  in_service: number;
+  next_due: string | null;
+  days_left: number | null;
+}
+
+export interface Semester {
+  key: string;
+  label: string;
+  from: string;
+  to: string;
+}
+
+export interface ConsumptionPoint {
+  period: string;
+  category_id: number | null;
+  category_name: string | null;
+  quantity: number;
+}
+
+export interface TopConsumed {
+  material_id: number;
+  material_name: string;
+  unit: string;
+  category_name: string | null;
+  quantity: number;
+}
+
+export interface ConsumptionForecast {
+  material_id: number;
+  material_name: string;
+  unit: string;
+  category_name: string | null;
+  stock: number;
+  min_stock: number;
+  consumed: number;
+  avg_daily: number;
+  days_left: number | null;
+  stockout_date: string | null;
+}
+
+export interface ConsumptionAnalytics {
+  interval: 'week' | 'month';
+  periods: string[];
+  series: ConsumptionPoint[];
+  semester: Semester;
+  semesters: Semester[];
+  top: TopConsumed[];
+  window_days: number;
+  forecast: ConsumptionForecast[];
+}